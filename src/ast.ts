@@ -0,0 +1,187 @@
+import { z } from "zod";
+import { escapeHtml, safeUrl } from "./markdown.js";
+
+/**
+ * Bumped whenever the shape of the document tree changes incompatibly, so
+ * trees saved by an older server are rejected by `apply_document_ast`.
+ */
+export const AST_VERSION = 1;
+
+export type Mark = 'bold' | 'italic' | 'underline' | 'strikethrough' | 'code';
+
+export type Alignment = 'left' | 'center' | 'right' | 'justify';
+
+export type InlineNode =
+  | { type: 'text'; text: string; marks?: Mark[]; href?: string }
+  | { type: 'break' }
+  | { type: 'image'; src: string; alt?: string };
+
+export interface ListItem {
+  id?: string;
+  checked?: boolean;
+  children: InlineNode[];
+  lists?: ListBlock[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  id?: string;
+  ordered: boolean;
+  start?: number;
+  items: ListItem[];
+}
+
+export interface TableCell {
+  header?: boolean;
+  children: InlineNode[];
+}
+
+export type DocumentBlock =
+  | { type: 'paragraph'; id?: string; align?: Alignment; children: InlineNode[] }
+  | { type: 'heading'; id?: string; level: number; align?: Alignment; children: InlineNode[] }
+  | ListBlock
+  | { type: 'table'; id?: string; rows: Array<{ cells: TableCell[] }> }
+  | { type: 'code'; id?: string; language?: string; text: string }
+  | { type: 'quote'; id?: string; children: DocumentBlock[] }
+  | { type: 'rule'; id?: string };
+
+export interface DocumentTree {
+  version: number;
+  blocks: DocumentBlock[];
+}
+
+const MarkSchema = z.enum(['bold', 'italic', 'underline', 'strikethrough', 'code']);
+const AlignmentSchema = z.enum(['left', 'center', 'right', 'justify']);
+
+const InlineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+    marks: z.array(MarkSchema).optional(),
+    href: z.string().optional(),
+  }),
+  z.object({ type: z.literal('break') }),
+  z.object({ type: z.literal('image'), src: z.string(), alt: z.string().optional() }),
+]);
+
+// The compiler runs without strictNullChecks, which makes zod's inferred
+// types all-optional, so the recursive schemas are typed loosely and the
+// parsed result is cast to `DocumentTree` by callers.
+const ListItemSchema: z.ZodTypeAny = z.lazy(() => z.object({
+  id: z.string().optional(),
+  checked: z.boolean().optional(),
+  children: z.array(InlineSchema),
+  lists: z.array(ListSchema).optional(),
+}));
+
+const ListSchema: z.ZodTypeAny = z.lazy(() => z.object({
+  type: z.literal('list'),
+  id: z.string().optional(),
+  ordered: z.boolean(),
+  start: z.number().int().min(0).optional(),
+  items: z.array(ListItemSchema),
+}));
+
+const BlockSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  z.object({
+    type: z.literal('paragraph'),
+    id: z.string().optional(),
+    align: AlignmentSchema.optional(),
+    children: z.array(InlineSchema),
+  }),
+  z.object({
+    type: z.literal('heading'),
+    id: z.string().optional(),
+    level: z.number().int().min(1).max(6),
+    align: AlignmentSchema.optional(),
+    children: z.array(InlineSchema),
+  }),
+  ListSchema,
+  z.object({
+    type: z.literal('table'),
+    id: z.string().optional(),
+    rows: z.array(z.object({
+      cells: z.array(z.object({ header: z.boolean().optional(), children: z.array(InlineSchema) })),
+    })),
+  }),
+  z.object({
+    type: z.literal('code'),
+    id: z.string().optional(),
+    language: z.string().optional(),
+    text: z.string(),
+  }),
+  z.object({ type: z.literal('quote'), id: z.string().optional(), children: z.array(BlockSchema) }),
+  z.object({ type: z.literal('rule'), id: z.string().optional() }),
+]));
+
+export const DocumentTreeSchema = z.object({
+  version: z.literal(AST_VERSION).default(AST_VERSION),
+  blocks: z.array(BlockSchema),
+});
+
+// Outermost first, so `<strong><em>…</em></strong>` round-trips unchanged.
+const MARK_TAGS: Array<[Mark, string]> = [
+  ['bold', 'strong'],
+  ['italic', 'em'],
+  ['underline', 'u'],
+  ['strikethrough', 's'],
+  ['code', 'code'],
+];
+
+function renderInlines(nodes: InlineNode[]): string {
+  return nodes.map((node) => {
+    if (node.type === 'break') return '<br>';
+    if (node.type === 'image') return `<img src="${safeUrl(node.src)}" alt="${escapeHtml(node.alt ?? '')}">`;
+
+    let html = escapeHtml(node.text);
+    for (const [mark, tag] of [...MARK_TAGS].reverse()) {
+      if (node.marks?.includes(mark)) html = `<${tag}>${html}</${tag}>`;
+    }
+    return node.href ? `<a href="${safeUrl(node.href)}">${html}</a>` : html;
+  }).join('');
+}
+
+function renderList(list: ListBlock): string {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const task = list.items.some((item) => item.checked !== undefined);
+  const attributes = (list.start !== undefined && list.start !== 1 ? ` start="${list.start}"` : '')
+    + (task ? ' __lexicalListType="check"' : '');
+  const items = list.items.map((item) => {
+    const checked = item.checked === undefined ? '' : ` aria-checked="${item.checked}"`;
+    return `<li${checked}>${renderInlines(item.children)}${(item.lists ?? []).map(renderList).join('')}</li>`;
+  });
+  return `<${tag}${attributes}>${items.join('')}</${tag}>`;
+}
+
+function renderBlock(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading': {
+      const tag = block.type === 'heading' ? `h${block.level}` : 'p';
+      const style = block.align ? ` style="text-align: ${block.align}"` : '';
+      return `<${tag}${style}>${renderInlines(block.children) || '<br>'}</${tag}>`;
+    }
+    case 'list':
+      return renderList(block);
+    case 'table': {
+      const rows = block.rows.map((row) => '<tr>' + row.cells.map((cell) => {
+        const tag = cell.header ? 'th' : 'td';
+        return `<${tag}>${renderInlines(cell.children)}</${tag}>`;
+      }).join('') + '</tr>');
+      return `<table><tbody>${rows.join('')}</tbody></table>`;
+    }
+    case 'code': {
+      const language = block.language ? ` data-language="${escapeHtml(block.language)}"` : '';
+      return `<pre${language}><code>${escapeHtml(block.text)}</code></pre>`;
+    }
+    case 'quote':
+      return `<blockquote>${block.children.map(renderBlock).join('')}</blockquote>`;
+    case 'rule':
+      return '<hr>';
+  }
+}
+
+/** HTML for pasting a document tree into the editor. Block ids are ignored. */
+export function documentTreeToHtml(tree: DocumentTree): string {
+  return tree.blocks.map(renderBlock).join('');
+}
@@ -0,0 +1,203 @@
+import { createHmac } from "crypto";
+import { Page, Protocol } from "puppeteer";
+import { SelectorRegistry } from "./selectors.js";
+import { DecryptionError, EncryptedFile } from "./vault.js";
+
+export interface Credentials {
+  email: string;
+  password: string;
+  totpSecret?: string;
+}
+
+export interface SessionState {
+  cookies: Protocol.Network.Cookie[];
+  localStorage: Record<string, Record<string, string>>;
+  savedAt: string;
+}
+
+export class LoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LoginError';
+  }
+}
+
+function base32Decode(input: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const clean = input.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = alphabet.indexOf(char);
+    if (index === -1) {
+      throw new LoginError('TOTP secret is not valid base32');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * RFC 6238 time-based one-time password (SHA-1, 6 digits, 30 second step),
+ * the scheme Proton uses for authenticator-app second factors.
+ */
+export function generateTotp(secret: string, now = Date.now()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / 30)));
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 1_000_000;
+  return code.toString().padStart(6, '0');
+}
+
+/**
+ * Cookies and localStorage persisted between runs, encrypted with
+ * AES-256-GCM under a key derived from the configured passphrase.
+ */
+export class SessionStore {
+  private file: EncryptedFile<SessionState>;
+
+  constructor(path: string, passphrase: string) {
+    this.file = new EncryptedFile(path, passphrase);
+  }
+
+  exists(): boolean {
+    return this.file.exists();
+  }
+
+  load(): SessionState | null {
+    try {
+      return this.file.load();
+    } catch (error) {
+      if (error instanceof DecryptionError) {
+        throw new LoginError(`Cannot decrypt session file ${this.file.path}; was the session key changed?`);
+      }
+      throw error;
+    }
+  }
+
+  save(state: SessionState) {
+    this.file.save(state);
+  }
+}
+
+export async function captureSession(page: Page): Promise<SessionState> {
+  const client = await page.createCDPSession();
+  try {
+    const { cookies } = await client.send('Network.getAllCookies');
+    const protonCookies = cookies.filter((cookie) => cookie.domain.endsWith('proton.me'));
+
+    const localStorage: Record<string, Record<string, string>> = {};
+    for (const frame of page.frames()) {
+      if (!frame.url().startsWith('https://')) continue;
+      const origin = new URL(frame.url()).origin;
+      if (!origin.endsWith('proton.me') || localStorage[origin]) continue;
+      localStorage[origin] = await frame.evaluate(() => {
+        const items: Record<string, string> = {};
+        for (let i = 0; i < window.localStorage.length; i++) {
+          const key = window.localStorage.key(i)!;
+          items[key] = window.localStorage.getItem(key) ?? '';
+        }
+        return items;
+      }).catch(() => ({}));
+    }
+
+    return { cookies: protonCookies, localStorage, savedAt: new Date().toISOString() };
+  } finally {
+    await client.detach();
+  }
+}
+
+export async function restoreSession(page: Page, state: SessionState) {
+  if (state.cookies.length > 0) {
+    await page.setCookie(...state.cookies.map(({ partitionKey, ...cookie }) => cookie));
+  }
+  // localStorage can only be written from its own origin, so seed it before
+  // any page script runs on each matching document.
+  await page.evaluateOnNewDocument((storage: Record<string, Record<string, string>>) => {
+    const items = storage[location.origin];
+    if (!items) return;
+    for (const [key, value] of Object.entries(items)) {
+      if (window.localStorage.getItem(key) === null) {
+        window.localStorage.setItem(key, value);
+      }
+    }
+  }, state.localStorage);
+}
+
+export function isLoginUrl(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return hostname.startsWith('account.') && /\/(login|signin)/.test(pathname);
+  } catch {
+    return false;
+  }
+}
+
+export async function isLoginPage(page: Page, selectors: SelectorRegistry): Promise<boolean> {
+  if (isLoginUrl(page.url())) return true;
+  return (await selectors.find(page, 'loginUsername')) !== null
+    && (await selectors.find(page, 'loginPassword')) !== null;
+}
+
+/**
+ * Fill in the Proton sign-in form, answer the TOTP prompt when one appears,
+ * and wait until the browser has been redirected away from the account app.
+ */
+export async function performLogin(
+  page: Page,
+  selectors: SelectorRegistry,
+  credentials: Credentials,
+  timeout: number
+) {
+  const username = await selectors.waitFor(page, 'loginUsername', { visible: true, timeout });
+  await username.click({ clickCount: 3 });
+  await username.type(credentials.email);
+
+  // Newer sign-in flows ask for the password on a second step.
+  if (!(await selectors.find(page, 'loginPassword'))) {
+    await selectors.click(page, 'loginSubmit');
+  }
+  const password = await selectors.waitFor(page, 'loginPassword', { visible: true, timeout });
+  await password.type(credentials.password);
+  await selectors.click(page, 'loginSubmit');
+
+  // Losing waits keep running until their timeout, so they must not reject.
+  const outcome = await Promise.race([
+    selectors.waitFor(page, 'loginTotp', { visible: true, timeout }).then(() => 'totp' as const, () => null),
+    selectors.waitFor(page, 'loginError', { visible: true, timeout }).then(() => 'error' as const, () => null),
+    page.waitForFunction(() => !location.hostname.startsWith('account.'), { timeout }).then(() => 'done' as const, () => null),
+  ]);
+
+  if (outcome === null) {
+    throw new LoginError('Timed out waiting for Proton sign-in to complete');
+  }
+  if (outcome === 'error') {
+    const error = await selectors.find(page, 'loginError');
+    const message = await error?.evaluate((el) => el.textContent?.trim() || '');
+    throw new LoginError(`Proton sign-in failed: ${message || 'credentials rejected'}`);
+  }
+
+  if (outcome === 'totp') {
+    if (!credentials.totpSecret) {
+      throw new LoginError('Proton account requires a second factor; set PROTON_TOTP_SECRET');
+    }
+    const totp = await selectors.waitFor(page, 'loginTotp', { visible: true, timeout });
+    await totp.type(generateTotp(credentials.totpSecret));
+    const submit = await selectors.find(page, 'loginSubmit');
+    if (submit) {
+      await submit.click();
+    }
+    await page.waitForFunction(() => !location.hostname.startsWith('account.'), { timeout })
+      .catch(() => {
+        throw new LoginError('Proton did not accept the TOTP code');
+      });
+  }
+}
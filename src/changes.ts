@@ -0,0 +1,346 @@
+import { Alignment, DocumentBlock, DocumentTree, InlineNode, ListBlock, Mark } from "./ast.js";
+import { DiffResult, unifiedDiff } from "./diff.js";
+import { InputFormat, markdownToHtml } from "./markdown.js";
+import { tokenize } from "./search.js";
+
+/** Editor content captured before and after a write, to report and check what changed. */
+export interface DocumentSnapshot {
+  markdown: string;
+  text: string;
+  blocks: DocumentBlock[];
+}
+
+// Longest diff returned with a write; the full change is left to diff_versions.
+const MAX_DIFF_LINES = 60;
+
+export class ChangeVerificationError extends Error {
+  constructor(message: string, readonly changes: DiffResult) {
+    super(message);
+    this.name = 'ChangeVerificationError';
+  }
+}
+
+/**
+ * Diff of the Markdown before and after a write, failing with
+ * ChangeVerificationError when `problem` says the intended change is missing.
+ */
+export function verifyChange(before: DocumentSnapshot, after: DocumentSnapshot, problem: string | null): DiffResult {
+  const changes = unifiedDiff(before.markdown, after.markdown, { context: 1, maxLines: MAX_DIFF_LINES });
+  if (problem) {
+    throw new ChangeVerificationError(
+      `${problem} (${changes.added} line(s) added, ${changes.removed} line(s) removed)`,
+      changes
+    );
+  }
+  return changes;
+}
+
+function words(text: string): string[] {
+  return tokenize(text).map((token) => token.term);
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Words a reader sees in content given to edit_document, without markup or link targets.
+function contentWords(content: string, format: InputFormat): string[] {
+  if (format === 'text') return words(content);
+  const html = format === 'markdown' ? markdownToHtml(content) : content;
+  const text = html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#\d+|\w+);/g, (entity, name: string) =>
+      name.startsWith('#') ? String.fromCodePoint(Number(name.slice(1))) : ENTITIES[name] ?? entity
+    );
+  return words(text);
+}
+
+function isSubsequence(needle: string[], haystack: string[]): boolean {
+  let index = 0;
+  for (const word of haystack) {
+    if (index < needle.length && word === needle[index]) index++;
+  }
+  return index === needle.length;
+}
+
+/** The written content must show up in order; appending must also keep what was there. */
+export function checkEdit(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  content: string,
+  format: InputFormat,
+  append: boolean
+): string | null {
+  const expected = contentWords(content, format);
+  const previous = words(before.text);
+  const current = words(after.text);
+  if (append && !isSubsequence(previous, current)) {
+    return 'Part of the existing content is missing after appending';
+  }
+  const written = append ? current.slice(previous.length) : current;
+  if (!isSubsequence(expected, written)) {
+    return 'The new content does not appear in the document';
+  }
+  return null;
+}
+
+/** Inserting must keep everything that was there and add the content's words. */
+export function checkInserted(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  content: string,
+  format: InputFormat
+): string | null {
+  const previous = words(before.text);
+  const current = words(after.text);
+  if (!isSubsequence(previous, current)) {
+    return 'Part of the existing content is missing after inserting';
+  }
+  const expected = contentWords(content, format);
+  if (current.length - previous.length < expected.length || !isSubsequence(expected, current)) {
+    return 'The new content does not appear in the document';
+  }
+  return null;
+}
+
+/**
+ * Each match must have given way to its replacement: every string involved
+ * must occur as many more (or fewer) times as the replacements imply. In
+ * suggestion mode replaced text stays visible as a suggested deletion, so
+ * only the added occurrences are checked.
+ */
+export function checkReplaced(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  replaced: Array<{ text: string; replacement: string }>,
+  suggest: boolean
+): string | null {
+  const count = (text: string, wanted: string) => text.split(wanted).length - 1;
+  const strings = new Set(replaced.flatMap(({ text, replacement }) => [text, replacement]).filter((value) => value));
+  for (const value of strings) {
+    const expected = replaced.reduce((sum, { text, replacement }) => sum + count(replacement, value) - count(text, value), 0);
+    const actual = count(after.text, value) - count(before.text, value);
+    if (expected > 0 && actual < expected) {
+      return `"${value}" appears ${Math.max(actual, 0)} more time(s) instead of ${expected} after replacing`;
+    }
+    if (expected < 0 && !suggest && actual > expected) {
+      return `"${value}" is still in the document after replacing`;
+    }
+  }
+  return null;
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map((node) => node.type === 'text' ? node.text : node.type === 'break' ? '\n' : '').join('');
+}
+
+// Every run of inline content in the document: paragraphs, headings, list items and table cells.
+function inlineRuns(blocks: DocumentBlock[]): InlineNode[][] {
+  const runs: InlineNode[][] = [];
+  const visitList = (list: ListBlock) => {
+    for (const item of list.items) {
+      runs.push(item.children);
+      item.lists?.forEach(visitList);
+    }
+  };
+  for (const block of blocks) {
+    if (block.type === 'paragraph' || block.type === 'heading') runs.push(block.children);
+    else if (block.type === 'list') visitList(block);
+    else if (block.type === 'table') block.rows.forEach((row) => row.cells.forEach((cell) => runs.push(cell.children)));
+    else if (block.type === 'quote') runs.push(...inlineRuns(block.children));
+  }
+  return runs;
+}
+
+// Texts of adjacent text nodes that all match `test`, e.g. everything in bold.
+function matchingTexts(blocks: DocumentBlock[], test: (node: InlineNode & { type: 'text' }) => boolean): string[] {
+  const texts: string[] = [];
+  for (const run of inlineRuns(blocks)) {
+    let current = '';
+    for (const node of run) {
+      if (node.type === 'text' && test(node)) {
+        current += node.text;
+      } else if (current) {
+        texts.push(collapse(current));
+        current = '';
+      }
+    }
+    if (current) texts.push(collapse(current));
+  }
+  return texts;
+}
+
+// Text of whole blocks, one line per run of inline content.
+function blocksText(blocks: DocumentBlock[]): string {
+  return blocks.map((block) => {
+    if (block.type === 'code') return block.text;
+    if (block.type === 'quote') return blocksText(block.children);
+    return inlineRuns([block]).map(inlineText).join('\n');
+  }).join('\n');
+}
+
+function occurrences(texts: string[], wanted: string): number {
+  const target = collapse(wanted).toLowerCase();
+  return texts.filter((text) => text.toLowerCase().includes(target)).length;
+}
+
+/**
+ * `selection` must carry `mark` afterwards, and the text must be unchanged.
+ * Without a selection the toolbar only toggles the format for what is typed
+ * next, so only the text is checked.
+ */
+export function checkFormatted(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  mark: Mark,
+  selection?: string
+): string | null {
+  if (collapse(before.text) !== collapse(after.text)) {
+    return 'The document text changed while formatting';
+  }
+  if (!selection) return null;
+  const marked = (snapshot: DocumentSnapshot) =>
+    occurrences(matchingTexts(snapshot.blocks, (node) => node.marks?.includes(mark) ?? false), selection);
+  if (marked(after) === 0) {
+    return marked(before) > 0
+      ? `"${selection}" was already ${mark}, and the toolbar toggled it off`
+      : `"${selection}" is not ${mark} after formatting`;
+  }
+  return null;
+}
+
+function lists(blocks: DocumentBlock[]): ListBlock[] {
+  const found: ListBlock[] = [];
+  const visit = (list: ListBlock) => {
+    found.push(list);
+    list.items.forEach((item) => item.lists?.forEach(visit));
+  };
+  for (const block of blocks) {
+    if (block.type === 'list') visit(block);
+    else if (block.type === 'quote') found.push(...lists(block.children));
+  }
+  return found;
+}
+
+/** The document must have one more list of the right kind holding `items` in order. */
+export function checkList(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  ordered: boolean,
+  items: string[]
+): string | null {
+  if (items.length === 0) return null;
+  const wanted = items.map((item) => collapse(item));
+  const matching = (snapshot: DocumentSnapshot) => lists(snapshot.blocks).filter((list) => {
+    if (list.ordered !== ordered) return false;
+    const texts = list.items.map((item) => collapse(inlineText(item.children)));
+    return texts.some((_, start) => wanted.every((item, offset) => texts[start + offset] === item));
+  }).length;
+  if (matching(after) <= matching(before)) {
+    return `No ${ordered ? 'numbered' : 'bullet'} list with the given items appears in the document`;
+  }
+  return null;
+}
+
+function sameUrl(a: string, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      return new URL(url).toString().replace(/\/$/, '');
+    } catch {
+      return url.trim().replace(/\/$/, '');
+    }
+  };
+  return normalize(a) === normalize(b);
+}
+
+/** The document must have one more `text` linking to `url`. */
+export function checkLink(before: DocumentSnapshot, after: DocumentSnapshot, text: string, url: string): string | null {
+  const linked = (snapshot: DocumentSnapshot) =>
+    occurrences(matchingTexts(snapshot.blocks, (node) => !!node.href && sameUrl(node.href, url)), text);
+  if (linked(after) <= linked(before)) {
+    return `"${text}" does not link to ${url} in the document`;
+  }
+  return null;
+}
+
+/** Every paragraph and heading must have `alignment`, and the text must be unchanged. */
+export function checkAlignment(before: DocumentSnapshot, after: DocumentSnapshot, alignment: Alignment): string | null {
+  if (collapse(before.text) !== collapse(after.text)) {
+    return 'The document text changed while aligning';
+  }
+  const misaligned = after.blocks.filter((block) =>
+    (block.type === 'paragraph' || block.type === 'heading')
+    && inlineText(block.children).trim() !== ''
+    && (block.align ?? 'left') !== alignment
+  ).length;
+  if (misaligned > 0) {
+    return `${misaligned} paragraph(s) are not aligned ${alignment}`;
+  }
+  return null;
+}
+
+function headingIndex(blocks: DocumentBlock[], heading: string): number {
+  const wanted = collapse(heading).toLowerCase();
+  return blocks.findIndex((block) =>
+    block.type === 'heading' && collapse(inlineText(block.children)).toLowerCase() === wanted);
+}
+
+/**
+ * The heading must still be there with the content's words after it, and
+ * nothing before the heading may have changed. An empty `content` must
+ * leave the section empty, unless the removal is only suggested.
+ */
+export function checkSection(
+  before: DocumentSnapshot,
+  after: DocumentSnapshot,
+  heading: string,
+  content: string,
+  format: InputFormat,
+  suggest: boolean
+): string | null {
+  const first = headingIndex(after.blocks, heading);
+  if (first < 0) {
+    return `The heading "${heading}" is missing after replacing its section`;
+  }
+  const previous = headingIndex(before.blocks, heading);
+  const leading = (blocks: DocumentBlock[], end: number) => words(blocksText(blocks.slice(0, end))).join(' ');
+  if (previous >= 0 && leading(before.blocks, previous) !== leading(after.blocks, first)) {
+    return `Content before "${heading}" changed while replacing its section`;
+  }
+  const following = after.blocks.slice(first + 1);
+  if (!content) {
+    const level = (after.blocks[first] as DocumentBlock & { type: 'heading' }).level;
+    const end = following.findIndex((block) => block.type === 'heading' && block.level <= level);
+    const section = end < 0 ? following : following.slice(0, end);
+    return suggest || words(blocksText(section)).length === 0 ? null : `The section under "${heading}" is not empty`;
+  }
+  if (!isSubsequence(contentWords(content, format), words(blocksText(following)))) {
+    return `The new content does not appear under "${heading}"`;
+  }
+  return null;
+}
+
+/** The document must hold the tree's text, word for word. */
+export function checkTree(before: DocumentSnapshot, after: DocumentSnapshot, tree: DocumentTree): string | null {
+  if (words(blocksText(after.blocks)).join(' ') !== words(blocksText(tree.blocks)).join(' ')) {
+    return 'The document text does not match the tree after applying it';
+  }
+  return null;
+}
+
+/** Changing the font must leave the text alone; the font itself is not in the snapshot. */
+export function checkFont(before: DocumentSnapshot, after: DocumentSnapshot): string | null {
+  if (collapse(before.text) !== collapse(after.text)) {
+    return 'The document text changed while changing the font';
+  }
+  return null;
+}
+
+/** After restoring a version the document must match that version's Markdown. */
+export function checkRestored(after: DocumentSnapshot, expected: string, version: string): string | null {
+  if (after.markdown.trim() === expected.trim()) return null;
+  const { added, removed } = unifiedDiff(expected, after.markdown);
+  return `The document does not match version ${version} after restoring (${removed} line(s) missing, ${added} line(s) extra)`;
+}
@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import type { DocumentBlock, InlineNode, ListBlock } from "./ast.js";
+import { EmbeddingProvider, cosineSimilarity } from "./embeddings.js";
+import { bm25, idf, tokenize } from "./search.js";
+
+/** Sections longer than this are split at block boundaries. */
+const MAX_CHUNK_CHARS = 2000;
+
+/** A heading-delimited part of a document, as stored in the content index. */
+export interface Chunk {
+  /** `<document id>#<first block id>`; stable while that block is unchanged. */
+  id: string;
+  /** Headings the chunk sits under, outermost first. */
+  headingPath: string[];
+  /**
+   * Where the chunk starts in the document: its heading (usable as the
+   * `heading` of insert_content and replace_section) and its block ids, as
+   * in read_document's JSON tree.
+   */
+  anchor: { heading: string | null; blockIds: string[] };
+  text: string;
+}
+
+export interface ChunkSource {
+  documentId: string;
+  documentUrl: string;
+  title: string;
+}
+
+export interface RankedChunk extends Chunk, ChunkSource {
+  score: number;
+  /** Human-readable source, e.g. "Project Plan › Budget › Q3". */
+  citation: string;
+}
+
+function inlineText(nodes: InlineNode[]): string {
+  return nodes.map((node) =>
+    node.type === 'text' ? node.text : node.type === 'break' ? '\n' : node.alt ?? ''
+  ).join('');
+}
+
+function listText(list: ListBlock, depth = 0): string {
+  return list.items.map((item, index) => {
+    const marker = item.checked !== undefined ? (item.checked ? '[x]' : '[ ]')
+      : list.ordered ? `${(list.start ?? 1) + index}.` : '-';
+    const nested = (item.lists ?? []).map((child) => `\n${listText(child, depth + 1)}`).join('');
+    return `${'  '.repeat(depth)}${marker} ${inlineText(item.children)}${nested}`;
+  }).join('\n');
+}
+
+/** Plain text of a block, keeping list markers and table rows readable. */
+export function blockText(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineText(block.children);
+    case 'list':
+      return listText(block);
+    case 'table':
+      return block.rows.map((row) => row.cells.map((cell) => inlineText(cell.children)).join(' | ')).join('\n');
+    case 'code':
+      return block.text;
+    case 'quote':
+      return block.children.map(blockText).join('\n');
+    case 'rule':
+      return '';
+  }
+}
+
+/**
+ * Split a document into chunks: a new chunk starts at every heading, and
+ * sections longer than MAX_CHUNK_CHARS are split between blocks. Text before
+ * the first heading forms its own chunk.
+ */
+export function chunkDocument(documentId: string, blocks: DocumentBlock[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  const headings: Array<{ level: number; text: string }> = [];
+  let current: { blocks: DocumentBlock[]; heading: string | null; path: string[]; length: number } | null = null;
+
+  const flush = () => {
+    const text = current?.blocks.map(blockText).filter((part) => part.trim()).join('\n\n') ?? '';
+    if (current && text.trim()) {
+      const blockIds = current.blocks.map((block) => block.id).filter((id): id is string => !!id);
+      chunks.push({
+        id: `${documentId}#${blockIds[0] ?? `chunk-${chunks.length + 1}`}`,
+        headingPath: current.path,
+        anchor: { heading: current.heading, blockIds },
+        text,
+      });
+    }
+    current = null;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      flush();
+      while (headings.length && headings[headings.length - 1].level >= block.level) headings.pop();
+      const text = inlineText(block.children).trim();
+      headings.push({ level: block.level, text });
+      current = { blocks: [block], heading: text, path: headings.map((heading) => heading.text), length: text.length };
+      continue;
+    }
+
+    const length = blockText(block).length;
+    if (current && current.length + length > MAX_CHUNK_CHARS && current.blocks.some((b) => b.type !== 'heading')) {
+      const { heading, path } = current;
+      flush();
+      current = { blocks: [], heading, path, length: 0 };
+    }
+    current ??= { blocks: [], heading: null, path: headings.map((heading) => heading.text), length: 0 };
+    current.blocks.push(block);
+    current.length += length;
+  }
+  flush();
+  return chunks;
+}
+
+export function citation(title: string, chunk: Chunk): string {
+  return [title, ...chunk.headingPath].join(' › ');
+}
+
+/**
+ * Rank chunks against the words of `query` with BM25. Operators and quotes
+ * are not interpreted; every word contributes to the score.
+ */
+export function rankChunksLexically(
+  chunks: Array<{ chunk: Chunk; source: ChunkSource }>,
+  query: string
+): Array<{ index: number; score: number }> {
+  const terms = [...new Set(tokenize(query).map((token) => token.term))];
+  const counts = chunks.map(({ chunk, source }) => {
+    const tokens = tokenize(`${source.title} ${chunk.headingPath.join(' ')} ${chunk.text}`);
+    const frequency = new Map<string, number>();
+    for (const token of tokens) frequency.set(token.term, (frequency.get(token.term) ?? 0) + 1);
+    return { length: tokens.length, frequency };
+  });
+  const averageLength = counts.reduce((sum, count) => sum + count.length, 0) / (counts.length || 1);
+  const weights = new Map(terms.map((term) => [
+    term,
+    idf(chunks.length, counts.filter((count) => count.frequency.has(term)).length),
+  ]));
+
+  return counts
+    .map((count, index) => ({
+      index,
+      score: terms.reduce((sum, term) => {
+        const frequency = count.frequency.get(term) ?? 0;
+        return frequency ? sum + bm25(frequency, count.length, averageLength, weights.get(term)!) : sum;
+      }, 0),
+    }))
+    .filter((result) => result.score > 0);
+}
+
+// What gets embedded for a chunk: its place in the document and its text.
+function embeddingText(chunk: Chunk, source: ChunkSource): string {
+  return `${citation(source.title, chunk)}\n\n${chunk.text}`;
+}
+
+/** Cache key of a chunk's vector; changes whenever the embedded text does. */
+export function embeddingKey(chunk: Chunk, source: ChunkSource): string {
+  const hash = createHash('sha256').update(embeddingText(chunk, source)).digest('hex').slice(0, 16);
+  return `${chunk.id}:${hash}`;
+}
+
+/**
+ * Rank chunks by cosine similarity between their embeddings and the
+ * query's. Vectors missing from `cache` are computed and added to it.
+ */
+export async function rankChunksByEmbedding(
+  provider: EmbeddingProvider,
+  cache: Record<string, number[]>,
+  chunks: Array<{ chunk: Chunk; source: ChunkSource }>,
+  query: string
+): Promise<Array<{ index: number; score: number }>> {
+  const missing = chunks.filter(({ chunk, source }) => !cache[embeddingKey(chunk, source)]);
+  if (missing.length > 0) {
+    const vectors = await provider.embed(missing.map(({ chunk, source }) => embeddingText(chunk, source)));
+    missing.forEach(({ chunk, source }, i) => (cache[embeddingKey(chunk, source)] = vectors[i]));
+  }
+
+  const [queryVector] = await provider.embed([query]);
+  return chunks.map(({ chunk, source }, index) => ({
+    index,
+    score: cosineSimilarity(queryVector, cache[embeddingKey(chunk, source)]),
+  }));
+}
@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { ElementHandle, Frame } from "puppeteer";
+import { parseListingDate } from "./listing.js";
+import { SelectorRegistry } from "./selectors.js";
+
+export interface DocumentComment {
+  author: string;
+  /** ISO time, or the text shown when it cannot be parsed. */
+  createdAt: string;
+  text: string;
+}
+
+export interface CommentThread extends DocumentComment {
+  id: string;
+  /** Suggestions are threads the editor opens for changes made in suggestion mode. */
+  kind: 'comment' | 'suggestion';
+  /** Document text the thread is attached to. */
+  anchorText: string;
+  resolved: boolean;
+  replies: DocumentComment[];
+}
+
+// A thread as scraped from the comments panel, before ids and times are filled in.
+interface RawThread {
+  id: string | null;
+  suggestion: boolean;
+  anchorText: string;
+  resolved: boolean;
+  comments: Array<{ author: string; time: string; text: string }>;
+}
+
+/** Comment threads shown in the comments panel of the open document, in panel order. */
+export async function scrapeCommentThreads(
+  frame: Frame,
+  selectors: SelectorRegistry,
+  now = new Date()
+): Promise<CommentThread[]> {
+  const raw: RawThread[] = await frame.evaluate((
+    threadSelector, quoteSelector, commentSelector, authorSelector,
+    timeSelector, contentSelector, resolvedSelector, suggestionSelector
+  ) => {
+    const text = (element: Element | null) => element?.textContent?.trim() ?? '';
+    return Array.from(document.querySelectorAll(threadSelector)).map((thread) => ({
+      id: thread.getAttribute('data-thread-id') || thread.getAttribute('data-id') || null,
+      suggestion: thread.matches(suggestionSelector) || thread.querySelector(suggestionSelector) !== null,
+      anchorText: text(thread.querySelector(quoteSelector)),
+      resolved: thread.matches(resolvedSelector) || thread.querySelector(resolvedSelector) !== null,
+      comments: Array.from(thread.querySelectorAll(commentSelector)).map((comment) => {
+        const time = comment.querySelector(timeSelector);
+        return {
+          author: text(comment.querySelector(authorSelector)),
+          time: time?.getAttribute('datetime') || text(time),
+          text: text(comment.querySelector(contentSelector)),
+        };
+      }),
+    }));
+  },
+    selectors.css('commentThreads'),
+    selectors.css('commentQuote'),
+    selectors.css('commentItems'),
+    selectors.css('commentAuthor'),
+    selectors.css('commentTime'),
+    selectors.css('commentContent'),
+    selectors.css('commentResolvedMarker'),
+    selectors.css('commentSuggestionMarker')
+  );
+
+  return raw.map((thread) => {
+    const [first, ...replies] = thread.comments.map((comment) => ({
+      author: comment.author,
+      createdAt: parseListingDate(comment.time, now) ?? comment.time,
+      text: comment.text,
+    }));
+    return {
+      id: thread.id ?? threadKey(thread),
+      kind: thread.suggestion ? 'suggestion' : 'comment',
+      anchorText: thread.anchorText,
+      resolved: thread.resolved,
+      author: first?.author ?? '',
+      createdAt: first?.createdAt ?? '',
+      text: first?.text ?? '',
+      replies,
+    };
+  });
+}
+
+/**
+ * Id for a thread the panel gives none: a hash of its anchor and first
+ * comment, which stays the same as replies are added or it is resolved.
+ * Times are left out because the panel shows them relative to now.
+ */
+function threadKey(thread: RawThread): string {
+  const first = thread.comments[0];
+  const source = [thread.anchorText, first?.author, first?.text].join('\u0000');
+  return `thread-${createHash('sha256').update(source).digest('hex').slice(0, 12)}`;
+}
+
+/** Thread `id` in the comments panel with its element, or null when it is not shown. */
+export async function findCommentThread(
+  frame: Frame,
+  selectors: SelectorRegistry,
+  id: string
+): Promise<{ thread: CommentThread; handle: ElementHandle<Element> } | null> {
+  const threads = await scrapeCommentThreads(frame, selectors);
+  const index = threads.findIndex((thread) => thread.id === id);
+  if (index < 0) return null;
+  const handles = await frame.$$(selectors.css('commentThreads'));
+  return handles[index] ? { thread: threads[index], handle: handles[index] } : null;
+}
+
+/**
+ * The thread among `added` that holds `comment` and is attached to
+ * `anchorText`. The panel may shorten long quotes with an ellipsis, so a
+ * quote that is a prefix of the anchor followed by "…" also counts.
+ * Throws when the new comment is missing or attached to other text.
+ */
+export function findAddedThread(
+  added: CommentThread[],
+  anchorText: string,
+  comment: string,
+  caseSensitive: boolean
+): CommentThread {
+  const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const normalize = (text: string) => caseSensitive ? collapse(text) : collapse(text).toLowerCase();
+  const anchor = normalize(anchorText);
+  const anchored = (thread: CommentThread) => {
+    const quote = normalize(thread.anchorText);
+    const shortened = quote.replace(/\s*(…|\.\.\.)$/, '');
+    return quote === anchor || (shortened !== quote && shortened !== '' && anchor.startsWith(shortened));
+  };
+
+  const written = added.filter((thread) => thread.kind === 'comment' && collapse(thread.text) === collapse(comment));
+  const thread = written.find(anchored);
+  if (thread) return thread;
+  if (written.length > 0) {
+    throw new Error(`The comment was added but is attached to "${written[0].anchorText}" instead of "${anchorText}"`);
+  }
+  throw new Error('The comment did not appear in the comments panel');
+}
@@ -0,0 +1,364 @@
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { z } from "zod";
+
+const TRUE_WORDS = ['true', '1', 'yes', 'on'];
+const FALSE_WORDS = ['false', '0', 'no', 'off'];
+
+function isBooleanWord(value: string | undefined): boolean {
+  const normalized = value?.trim().toLowerCase();
+  return normalized !== undefined && (TRUE_WORDS.includes(normalized) || FALSE_WORDS.includes(normalized));
+}
+
+// Accepts real booleans (config file) as well as the string forms used by
+// environment variables and CLI flags.
+const booleanLike = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_WORDS.includes(normalized)) return true;
+  if (FALSE_WORDS.includes(normalized)) return false;
+  return value;
+}, z.boolean());
+
+const integer = (min: number) => z.coerce.number().int().min(min);
+
+const ToolSettingsSchema = z.object({
+  timeout: integer(1000).optional(),
+  retries: integer(0).max(10).optional(),
+}).strict();
+
+export const ConfigSchema = z.object({
+  baseUrl: z.string().url().default('https://docs.proton.me/u/1'),
+  driveUrl: z.string().url().default('https://drive.proton.me/u/1'),
+  headless: booleanLike.default(false),
+  sandbox: booleanLike.default(false),
+  chromePath: z.string().min(1).optional(),
+  userDataDir: z.string().min(1).optional(),
+  browserArgs: z.array(z.string()).default([]),
+  slowMo: integer(0).default(0),
+  viewportWidth: integer(320).default(1280),
+  viewportHeight: integer(240).default(800),
+  timeout: integer(1000).default(30000),
+  maxRetries: integer(0).max(10).default(3),
+  retryDelay: integer(0).default(1000),
+  retryMaxDelay: integer(0).default(10000),
+  toolTimeout: integer(1000).default(120000),
+  tools: z.record(ToolSettingsSchema).default({}),
+  poolSize: integer(1).max(16).default(3),
+  queueLimit: integer(0).default(32),
+  debug: booleanLike.default(false),
+  email: z.string().email().optional(),
+  password: z.string().min(1).optional(),
+  totpSecret: z.string().regex(/^[A-Z2-7\s=]+$/i, 'must be a base32 TOTP secret').optional(),
+  sessionFile: z.string().min(1).default(join(homedir(), '.proton-docs-mcp', 'session.enc')),
+  sessionKey: z.string().min(8).optional(),
+  selectorsFile: z.string().min(1).optional(),
+  downloadDir: z.string().min(1).default(join(homedir(), '.proton-docs-mcp', 'downloads')),
+  indexFile: z.string().min(1).default(join(homedir(), '.proton-docs-mcp', 'index.enc')),
+  embeddingCommand: z.string().min(1).optional(),
+  pollInterval: integer(5000).default(60000),
+  promptsDir: z.string().min(1).default(join(homedir(), '.proton-docs-mcp', 'prompts')),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+type RawConfig = Partial<Record<keyof Config, unknown>>;
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Environment variable and CLI flag names for each config key.
+const ENV_VARS: Record<keyof Config, string> = {
+  baseUrl: 'PROTON_DOCS_BASE_URL',
+  driveUrl: 'PROTON_DOCS_DRIVE_URL',
+  headless: 'PROTON_DOCS_HEADLESS',
+  sandbox: 'PROTON_DOCS_SANDBOX',
+  chromePath: 'PROTON_DOCS_CHROME_PATH',
+  userDataDir: 'PROTON_DOCS_USER_DATA_DIR',
+  browserArgs: 'PROTON_DOCS_BROWSER_ARGS',
+  slowMo: 'PROTON_DOCS_SLOW_MO',
+  viewportWidth: 'PROTON_DOCS_VIEWPORT_WIDTH',
+  viewportHeight: 'PROTON_DOCS_VIEWPORT_HEIGHT',
+  timeout: 'PROTON_DOCS_TIMEOUT',
+  maxRetries: 'PROTON_DOCS_MAX_RETRIES',
+  retryDelay: 'PROTON_DOCS_RETRY_DELAY',
+  retryMaxDelay: 'PROTON_DOCS_RETRY_MAX_DELAY',
+  toolTimeout: 'PROTON_DOCS_TOOL_TIMEOUT',
+  tools: 'PROTON_DOCS_TOOLS',
+  poolSize: 'PROTON_DOCS_POOL_SIZE',
+  queueLimit: 'PROTON_DOCS_QUEUE_LIMIT',
+  debug: 'PROTON_DOCS_DEBUG',
+  email: 'PROTON_EMAIL',
+  password: 'PROTON_PASSWORD',
+  totpSecret: 'PROTON_TOTP_SECRET',
+  sessionFile: 'PROTON_DOCS_SESSION_FILE',
+  sessionKey: 'PROTON_DOCS_SESSION_KEY',
+  selectorsFile: 'PROTON_DOCS_SELECTORS_FILE',
+  downloadDir: 'PROTON_DOCS_DOWNLOAD_DIR',
+  indexFile: 'PROTON_DOCS_INDEX_FILE',
+  embeddingCommand: 'PROTON_DOCS_EMBEDDING_COMMAND',
+  pollInterval: 'PROTON_DOCS_POLL_INTERVAL',
+  promptsDir: 'PROTON_DOCS_PROMPTS_DIR',
+};
+
+const CLI_FLAGS: Record<string, keyof Config> = {
+  'base-url': 'baseUrl',
+  'drive-url': 'driveUrl',
+  'headless': 'headless',
+  'sandbox': 'sandbox',
+  'chrome-path': 'chromePath',
+  'user-data-dir': 'userDataDir',
+  'browser-arg': 'browserArgs',
+  'slow-mo': 'slowMo',
+  'viewport-width': 'viewportWidth',
+  'viewport-height': 'viewportHeight',
+  'timeout': 'timeout',
+  'max-retries': 'maxRetries',
+  'retry-delay': 'retryDelay',
+  'retry-max-delay': 'retryMaxDelay',
+  'tool-timeout': 'toolTimeout',
+  'pool-size': 'poolSize',
+  'queue-limit': 'queueLimit',
+  'debug': 'debug',
+  'email': 'email',
+  'session-file': 'sessionFile',
+  'selectors-file': 'selectorsFile',
+  'download-dir': 'downloadDir',
+  'index-file': 'indexFile',
+  'embedding-command': 'embeddingCommand',
+  'poll-interval': 'pollInterval',
+  'prompts-dir': 'promptsDir',
+};
+
+const BOOLEAN_KEYS = new Set<keyof Config>(['headless', 'sandbox', 'debug']);
+
+export const USAGE = `Usage: proton-docs-mcp [options]
+       proton-docs-mcp export-all [--output <dir>] [--format <format>] [--full] [options]
+
+Commands:
+  export-all                Download every document to a local folder and exit
+    --output <dir>          Export directory (default: <download-dir>/export)
+    --format <format>       docx, pdf, txt or markdown (default: docx)
+    --full                  Re-export every document, not only those changed
+                            since the last export
+
+Options:
+  --config <path>           JSON config file (env: PROTON_DOCS_CONFIG)
+  --base-url <url>          Proton Docs base URL (default: https://docs.proton.me/u/1)
+  --drive-url <url>         Proton Drive base URL, for folders (default: https://drive.proton.me/u/1)
+  --[no-]headless           Run Chromium without a window (default: false)
+  --[no-]sandbox            Keep the Chromium sandbox enabled (default: false)
+  --chrome-path <path>      Chromium/Chrome executable to launch
+  --user-data-dir <path>    Browser profile directory
+  --browser-arg <arg>       Extra Chromium argument (repeatable)
+  --slow-mo <ms>            Delay between Puppeteer operations (default: 0)
+  --viewport-width <px>     Viewport width (default: 1280)
+  --viewport-height <px>    Viewport height (default: 800)
+  --timeout <ms>            Navigation and selector timeout (default: 30000)
+  --max-retries <n>         Retries for failed browser actions (default: 3)
+  --retry-delay <ms>        Initial delay between retries, doubled each attempt (default: 1000)
+  --retry-max-delay <ms>    Upper bound for the retry delay (default: 10000)
+  --tool-timeout <ms>       Time limit for a whole tool call (default: 120000)
+  --pool-size <n>           Browser tabs available to concurrent tool calls (default: 3)
+  --queue-limit <n>         Tool calls allowed to wait for a tab (default: 32)
+  --[no-]debug              Log browser actions to stderr (default: false)
+  --email <address>         Proton account used for automatic login
+  --session-file <path>     Encrypted session store (default: ~/.proton-docs-mcp/session.enc)
+  --selectors-file <path>   JSON file overriding UI selectors
+  --download-dir <path>     Where downloaded documents are saved (default: ~/.proton-docs-mcp/downloads)
+  --index-file <path>       Encrypted content search index (default: ~/.proton-docs-mcp/index.enc)
+  --embedding-command <cmd> Local command computing embeddings for query_documents (default: BM25 only)
+  --poll-interval <ms>      How often subscribed documents are checked for changes (default: 60000)
+  --prompts-dir <path>      Directory of extra prompt templates (default: ~/.proton-docs-mcp/prompts)
+  -h, --help                Show this help
+
+Values are resolved from defaults, then the config file, then PROTON_DOCS_*
+environment variables, then command-line flags. Switches such as --headless
+also take a value: --headless=false, --headless false or --no-headless.
+The password, TOTP secret and session key are only read from the config file
+or PROTON_PASSWORD, PROTON_TOTP_SECRET and PROTON_DOCS_SESSION_KEY.`;
+
+export const EXPORT_FORMATS = ['docx', 'pdf', 'txt', 'markdown'] as const;
+
+export interface ExportCommandOptions {
+  output?: string;
+  format: (typeof EXPORT_FORMATS)[number];
+  full: boolean;
+}
+
+export interface CliOptions {
+  configPath?: string;
+  help: boolean;
+  overrides: RawConfig;
+  /** Set when a subcommand is run instead of the MCP server. */
+  command?: 'export-all';
+  exportOptions: ExportCommandOptions;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { help: false, overrides: {}, exportOptions: { format: 'docx', full: false } };
+  let start = 0;
+  if (argv[0] === 'export-all') {
+    options.command = 'export-all';
+    start = 1;
+  }
+
+  for (let i = start; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      throw new ConfigError(`Unexpected argument "${arg}"`);
+    }
+
+    let name = arg.slice(2);
+    let value: string | undefined;
+    const eq = name.indexOf('=');
+    if (eq !== -1) {
+      value = name.slice(eq + 1);
+      name = name.slice(0, eq);
+    }
+
+    if (name === 'config') {
+      options.configPath = value ?? argv[++i];
+      if (!options.configPath) {
+        throw new ConfigError('--config requires a path');
+      }
+      continue;
+    }
+
+    if (options.command === 'export-all' && ['output', 'format', 'full'].includes(name)) {
+      if (name === 'full') {
+        options.exportOptions.full = true;
+        continue;
+      }
+      value = value ?? argv[++i];
+      if (value === undefined) {
+        throw new ConfigError(`Option "--${name}" requires a value`);
+      }
+      if (name === 'output') {
+        options.exportOptions.output = value;
+      } else if ((EXPORT_FORMATS as readonly string[]).includes(value)) {
+        options.exportOptions.format = value as ExportCommandOptions['format'];
+      } else {
+        throw new ConfigError(`--format must be one of ${EXPORT_FORMATS.join(', ')}`);
+      }
+      continue;
+    }
+
+    const negated = name.startsWith('no-') && CLI_FLAGS[name.slice(3)] !== undefined;
+    const key = CLI_FLAGS[negated ? name.slice(3) : name];
+    if (!key) {
+      throw new ConfigError(`Unknown option "--${name}"`);
+    }
+
+    if (BOOLEAN_KEYS.has(key)) {
+      // The value may also follow as its own argument: `--headless false`.
+      if (value === undefined && !negated && isBooleanWord(argv[i + 1])) {
+        value = argv[++i];
+      }
+      options.overrides[key] = negated ? false : (value ?? true);
+      continue;
+    }
+    if (negated) {
+      throw new ConfigError(`Option "--${name.slice(3)}" cannot be negated`);
+    }
+
+    value = value ?? argv[++i];
+    if (value === undefined) {
+      throw new ConfigError(`Option "--${name}" requires a value`);
+    }
+    if (key === 'browserArgs') {
+      const existing = (options.overrides.browserArgs as string[] | undefined) ?? [];
+      options.overrides.browserArgs = [...existing, value];
+    } else {
+      options.overrides[key] = value;
+    }
+  }
+
+  return options;
+}
+
+function readEnv(env: NodeJS.ProcessEnv): RawConfig {
+  const raw: RawConfig = {};
+  for (const [key, name] of Object.entries(ENV_VARS) as [keyof Config, string][]) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    if (key === 'browserArgs') {
+      raw[key] = value.split(/\s+/).filter(Boolean);
+    } else if (key === 'tools') {
+      try {
+        raw[key] = JSON.parse(value);
+      } catch {
+        throw new ConfigError(`${name} must be a JSON object`);
+      }
+    } else {
+      raw[key] = value;
+    }
+  }
+  return raw;
+}
+
+function readConfigFile(path: string): RawConfig {
+  const fullPath = resolve(path);
+  let contents: string;
+  try {
+    contents = readFileSync(fullPath, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${fullPath}: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new ConfigError(`Config file ${fullPath} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${fullPath} must contain a JSON object`);
+  }
+
+  const unknownKeys = Object.keys(parsed).filter((key) => !(key in ENV_VARS));
+  if (unknownKeys.length > 0) {
+    throw new ConfigError(`Config file ${fullPath} has unknown keys: ${unknownKeys.join(', ')}`);
+  }
+  return parsed as RawConfig;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => {
+      const key = issue.path[0] as keyof Config;
+      const source = ENV_VARS[key] ? ` (${ENV_VARS[key]})` : '';
+      return `  - ${issue.path.join('.')}${source}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Resolve the server configuration from defaults, an optional JSON config
+ * file, PROTON_DOCS_* environment variables and CLI flags (highest priority).
+ * Throws ConfigError with a readable message when any value is invalid.
+ */
+export function loadConfig(cli: CliOptions, env: NodeJS.ProcessEnv = process.env): Config {
+  const configPath = cli.configPath ?? env.PROTON_DOCS_CONFIG;
+  const raw: RawConfig = {
+    ...(configPath ? readConfigFile(configPath) : {}),
+    ...readEnv(env),
+    ...cli.overrides,
+  };
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(`Invalid configuration:\n${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,668 @@
+import type { Alignment, DocumentBlock, InlineNode, ListBlock, Mark } from "./ast.js";
+
+/**
+ * Convert the editor DOM into Markdown or plain text with paragraph breaks.
+ *
+ * This runs inside the editor frame through `ElementHandle.evaluate`, so it
+ * must stay self-contained: no imports, no references to module scope.
+ */
+export function serializeEditor(root: Element, mode: 'markdown' | 'text'): string {
+  const markdown = mode === 'markdown';
+  const imageRefs: string[] = [];
+  const BLOCK_TAGS = new Set([
+    'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table',
+    'blockquote', 'pre', 'hr', 'figure', 'section', 'article',
+  ]);
+
+  const tagOf = (node: Node) =>
+    node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+
+  const hasClass = (el: Element, fragment: string) =>
+    (el.getAttribute('class') ?? '').toLowerCase().includes(fragment);
+
+  const cleanText = (text: string) =>
+    text.replace(/\u00a0/g, ' ').replace(/[\u200b\ufeff]/g, '');
+
+  const escape = (text: string) =>
+    markdown ? text.replace(/([\\`*_[\]<>~|])/g, '\\$1') : text;
+
+  // Keep surrounding whitespace outside emphasis markers (`** a**` is not bold).
+  const wrap = (content: string, open: string, close = open) => {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return match[2] ? `${match[1]}${open}${match[2]}${close}${match[3]}` : content;
+  };
+
+  const isBlockCode = (el: Element) =>
+    tagOf(el) === 'pre' || (tagOf(el) === 'code' && (el.parentElement === root || el.hasAttribute('data-language')));
+
+  function codeText(el: Element): string {
+    let text = '';
+    el.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) text += cleanText(child.textContent ?? '');
+      else if (tagOf(child) === 'br') text += '\n';
+      else text += codeText(child as Element);
+    });
+    return text;
+  }
+
+  function image(el: Element): string {
+    const alt = el.getAttribute('alt') ?? '';
+    const src = el.getAttribute('src') ?? '';
+    if (!markdown) return alt ? `[image: ${alt}]` : '[image]';
+    imageRefs.push(src);
+    return `![${escape(alt)}][image-${imageRefs.length}]`;
+  }
+
+  function inline(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) return escape(cleanText(node.textContent ?? ''));
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as HTMLElement;
+    const tag = tagOf(el);
+    if (tag === 'br') return markdown ? '  \n' : '\n';
+    if (tag === 'img') return image(el);
+    if (markdown && tag === 'code') {
+      const code = cleanText(el.textContent ?? '');
+      const fence = code.includes('`') ? '``' : '`';
+      return code ? `${fence}${code}${fence}` : '';
+    }
+
+    let content = Array.from(el.childNodes).map(inline).join('');
+    if (!markdown || !content.trim()) return content;
+
+    const style = (el.getAttribute('style') ?? '').toLowerCase();
+    const weight = parseInt(style.match(/font-weight:\s*(\d+)/)?.[1] ?? '0', 10);
+    const bold = tag === 'strong' || tag === 'b' || hasClass(el, 'bold') || weight >= 600 || /font-weight:\s*bold/.test(style);
+    const italic = tag === 'em' || tag === 'i' || hasClass(el, 'italic') || /font-style:\s*italic/.test(style);
+    const strike = tag === 's' || tag === 'del' || tag === 'strike' || hasClass(el, 'strikethrough') || /line-through/.test(style);
+    const underline = tag === 'u' || hasClass(el, 'underline') || /text-decoration[^;]*underline/.test(style);
+
+    if (strike) content = wrap(content, '~~');
+    if (underline) content = wrap(content, '<u>', '</u>');
+    if (italic) content = wrap(content, '*');
+    if (bold) content = wrap(content, '**');
+    if (tag === 'a' && el.getAttribute('href')) {
+      content = `[${content}](${el.getAttribute('href')!.replace(/[()\s]/g, encodeURIComponent)})`;
+    }
+    return content;
+  }
+
+  // Text at the start of a paragraph that Markdown would read as syntax.
+  const escapeLineStart = (text: string) =>
+    markdown ? text.replace(/^([#>+-])(\s)/, '\\$1$2').replace(/^(\d+)\.(\s)/, '$1\\.$2') : text;
+
+  function paragraph(nodes: Node[]): string {
+    return escapeLineStart(nodes.map(inline).join('').trim());
+  }
+
+  function list(el: Element, indent: string): string {
+    const ordered = tagOf(el) === 'ol';
+    let index = parseInt(el.getAttribute('start') ?? '1', 10) || 1;
+    const lines: string[] = [];
+
+    for (const item of Array.from(el.children)) {
+      if (tagOf(item) !== 'li') continue;
+      const nested = Array.from(item.children).filter((child) => ['ul', 'ol'].includes(tagOf(child)));
+      const text = Array.from(item.childNodes)
+        .filter((child) => !nested.includes(child as Element))
+        .map(inline)
+        .join('')
+        .trim();
+
+      const marker = ordered ? `${index}.` : '-';
+      // Nested lists are often wrapped in an otherwise empty list item.
+      if (text || nested.length === 0) {
+        const checked = item.getAttribute('aria-checked');
+        const task = checked === null ? '' : checked === 'true' ? '[x] ' : '[ ] ';
+        lines.push(`${indent}${marker} ${task}${text}`);
+        index++;
+      }
+      for (const sub of nested) {
+        lines.push(list(sub, indent + ' '.repeat(marker.length + 1)));
+      }
+    }
+    return lines.join('\n');
+  }
+
+  function table(el: Element): string {
+    const rows = Array.from(el.querySelectorAll('tr')).map((row) =>
+      Array.from(row.children)
+        .filter((cell) => ['td', 'th'].includes(tagOf(cell)))
+        .map((cell) => blocks(cell).join(markdown ? '<br>' : ' ').replace(/\n+/g, markdown ? '<br>' : ' '))
+    );
+    if (rows.length === 0) return '';
+    if (!markdown) return rows.map((row) => row.join('\t')).join('\n');
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+    return [
+      line(rows[0]),
+      line(Array.from({ length: width }, () => '---')),
+      ...rows.slice(1).map(line),
+    ].join('\n');
+  }
+
+  function block(el: Element): string {
+    const tag = tagOf(el);
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = Array.from(el.childNodes).map(inline).join('').trim();
+      return markdown && text ? `${'#'.repeat(Number(heading[1]))} ${text}` : text;
+    }
+    if (tag === 'ul' || tag === 'ol') return list(el, '');
+    if (tag === 'table') return table(el);
+    if (tag === 'hr') return markdown ? '---' : '';
+    if (tag === 'img') return image(el);
+    if (isBlockCode(el)) {
+      const code = codeText(el).replace(/\n$/, '');
+      if (!markdown) return code;
+      const fence = code.includes('```') ? '````' : '```';
+      const language = el.getAttribute('data-language') ?? el.getAttribute('data-highlight-language') ?? '';
+      return `${fence}${language}\n${code}\n${fence}`;
+    }
+    if (tag === 'blockquote') {
+      const inner = blocks(el).join('\n\n');
+      return markdown ? inner.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n') : inner;
+    }
+    return blocks(el).join('\n\n');
+  }
+
+  // Split a container into blocks, grouping runs of inline nodes into paragraphs.
+  function blocks(container: Element): string[] {
+    const result: string[] = [];
+    let run: Node[] = [];
+    const flush = () => {
+      if (run.length) result.push(paragraph(run));
+      run = [];
+    };
+
+    container.childNodes.forEach((child) => {
+      const el = child as Element;
+      const isBlock = child.nodeType === Node.ELEMENT_NODE
+        && (BLOCK_TAGS.has(tagOf(el)) || isBlockCode(el) || (tagOf(el) === 'img' && container === root));
+      if (!isBlock) {
+        run.push(child);
+        return;
+      }
+      flush();
+      const hasBlockChildren = Array.from(el.children).some((c) => BLOCK_TAGS.has(tagOf(c)) || isBlockCode(c));
+      result.push(['p', 'div'].includes(tagOf(el)) && !hasBlockChildren
+        ? paragraph(Array.from(el.childNodes))
+        : block(el));
+    });
+    flush();
+    return result.filter((text) => text.trim() !== '');
+  }
+
+  let output = blocks(root).join('\n\n');
+  if (imageRefs.length > 0) {
+    output += '\n\n' + imageRefs.map((src, i) => `[image-${i + 1}]: ${src}`).join('\n');
+  }
+  return output.replace(/[ \t]+$/gm, (spaces) => (spaces === '  ' && markdown ? spaces : '')).trim();
+}
+
+/**
+ * Editor HTML without Lexical class names, inline styles and data attributes,
+ * keeping only the attributes that carry meaning. Runs in the editor frame.
+ */
+export function cleanEditorHtml(root: Element): string {
+  const KEEP = new Set(['href', 'src', 'alt', 'colspan', 'rowspan', 'start', 'aria-checked', 'data-language']);
+  const FORMATS: Array<[string, string]> = [
+    ['bold', 'strong'], ['italic', 'em'], ['underline', 'u'], ['strikethrough', 's'], ['code', 'code'],
+  ];
+  const clone = root.cloneNode(true) as Element;
+
+  // Lexical marks some formats only with class names; turn them into tags
+  // before the classes are stripped.
+  for (const span of Array.from(clone.querySelectorAll('span[class]'))) {
+    const className = span.getAttribute('class')!.toLowerCase();
+    let inner: Node[] = Array.from(span.childNodes);
+    for (const [fragment, tag] of FORMATS) {
+      if (!className.includes(fragment)) continue;
+      const wrapper = span.ownerDocument.createElement(tag);
+      wrapper.append(...inner);
+      inner = [wrapper];
+    }
+    span.replaceChildren(...inner);
+  }
+
+  const walk = (el: Element) => {
+    for (const attr of Array.from(el.attributes)) {
+      if (!KEEP.has(attr.name)) el.removeAttribute(attr.name);
+    }
+    for (const child of Array.from(el.children)) {
+      walk(child);
+      // Attribute-less spans only existed to carry editor styling.
+      if (child.tagName.toLowerCase() === 'span' && child.attributes.length === 0) {
+        child.replaceWith(...Array.from(child.childNodes));
+      }
+    }
+  };
+  walk(clone);
+  clone.normalize();
+  return clone.innerHTML.replace(/[\u200b\ufeff]/g, '');
+}
+
+/**
+ * Convert the editor DOM into a document tree. Each block gets an id derived
+ * from its content and position among identical blocks, so ids stay the
+ * same across reads until the block itself is edited. Runs in the editor
+ * frame.
+ */
+export function extractDocumentTree(root: Element): DocumentBlock[] {
+  const BLOCK_TAGS = new Set([
+    'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'table',
+    'blockquote', 'pre', 'hr', 'figure', 'section', 'article',
+  ]);
+
+  const tagOf = (node: Node) =>
+    node.nodeType === Node.ELEMENT_NODE ? (node as Element).tagName.toLowerCase() : '';
+
+  const isBlockCode = (el: Element) =>
+    tagOf(el) === 'pre' || (tagOf(el) === 'code' && (el.parentElement === root || el.hasAttribute('data-language')));
+
+  function marksOf(el: Element): Mark[] {
+    const tag = tagOf(el);
+    const className = (el.getAttribute('class') ?? '').toLowerCase();
+    const style = (el.getAttribute('style') ?? '').toLowerCase();
+    const weight = parseInt(style.match(/font-weight:\s*(\d+)/)?.[1] ?? '0', 10);
+    const marks: Mark[] = [];
+    if (['strong', 'b'].includes(tag) || className.includes('bold') || weight >= 600 || /font-weight:\s*bold/.test(style)) marks.push('bold');
+    if (['em', 'i'].includes(tag) || className.includes('italic') || /font-style:\s*italic/.test(style)) marks.push('italic');
+    if (tag === 'u' || className.includes('underline') || /text-decoration[^;]*underline/.test(style)) marks.push('underline');
+    if (['s', 'del', 'strike'].includes(tag) || className.includes('strikethrough') || /line-through/.test(style)) marks.push('strikethrough');
+    if (tag === 'code' || className.includes('code')) marks.push('code');
+    return marks;
+  }
+
+  function inlines(nodes: Node[]): InlineNode[] {
+    const result: InlineNode[] = [];
+    const visit = (node: Node, marks: Mark[], href: string | undefined) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = (node.textContent ?? '').replace(/\u00a0/g, ' ').replace(/[\u200b\ufeff]/g, '');
+        if (!text) return;
+        const previous = result[result.length - 1];
+        // Lexical splits runs at every format change; merge identical neighbours.
+        if (previous?.type === 'text' && previous.href === href
+          && (previous.marks ?? []).join() === marks.join()) {
+          previous.text += text;
+          return;
+        }
+        result.push({
+          type: 'text',
+          text,
+          ...(marks.length ? { marks: [...marks] } : {}),
+          ...(href ? { href } : {}),
+        });
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const el = node as Element;
+      const tag = tagOf(el);
+      if (tag === 'br') {
+        result.push({ type: 'break' });
+        return;
+      }
+      if (tag === 'img') {
+        result.push({ type: 'image', src: el.getAttribute('src') ?? '', alt: el.getAttribute('alt') ?? '' });
+        return;
+      }
+      const merged = [...marks];
+      for (const mark of marksOf(el)) {
+        if (!merged.includes(mark)) merged.push(mark);
+      }
+      merged.sort();
+      const link = tag === 'a' ? el.getAttribute('href') ?? href : href;
+      el.childNodes.forEach((child) => visit(child, merged, link ?? undefined));
+    };
+    nodes.forEach((node) => visit(node, [], undefined));
+
+    // Trim whitespace left over from the editor's DOM at the block edges.
+    const first = result[0];
+    if (first?.type === 'text') first.text = first.text.replace(/^\s+/, '');
+    const last = result[result.length - 1];
+    if (last?.type === 'text') last.text = last.text.replace(/\s+$/, '');
+    return result.filter((node) => node.type !== 'text' || node.text !== '');
+  }
+
+  function alignmentOf(el: Element): { align?: Alignment } {
+    const align = (el.getAttribute('style') ?? '').match(/text-align:\s*(left|center|right|justify)/)?.[1];
+    return align ? { align: align as Alignment } : {};
+  }
+
+  function codeText(el: Element): string {
+    let text = '';
+    el.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) text += (child.textContent ?? '').replace(/\u00a0/g, ' ');
+      else if (tagOf(child) === 'br') text += '\n';
+      else text += codeText(child as Element);
+    });
+    return text.replace(/\n$/, '');
+  }
+
+  function list(el: Element): ListBlock {
+    const ordered = tagOf(el) === 'ol';
+    const items: ListBlock['items'] = [];
+    for (const item of Array.from(el.children)) {
+      if (tagOf(item) !== 'li') continue;
+      const nested = Array.from(item.children).filter((child) => ['ul', 'ol'].includes(tagOf(child)));
+      const children = inlines(Array.from(item.childNodes).filter((child) => !nested.includes(child as Element)));
+      const lists = nested.map(list);
+      // Nested lists are often wrapped in an otherwise empty list item.
+      if (children.length === 0 && lists.length > 0 && items.length > 0) {
+        const previous = items[items.length - 1];
+        previous.lists = [...(previous.lists ?? []), ...lists];
+        continue;
+      }
+      const checked = item.getAttribute('aria-checked');
+      items.push({
+        ...(checked === null ? {} : { checked: checked === 'true' }),
+        children,
+        ...(lists.length ? { lists } : {}),
+      });
+    }
+    const start = parseInt(el.getAttribute('start') ?? '1', 10);
+    return { type: 'list', ordered, ...(ordered && start !== 1 ? { start } : {}), items };
+  }
+
+  function block(el: Element): DocumentBlock[] {
+    const tag = tagOf(el);
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      return [{ type: 'heading', level: Number(heading[1]), ...alignmentOf(el), children: inlines(Array.from(el.childNodes)) }];
+    }
+    if (tag === 'ul' || tag === 'ol') return [list(el)];
+    if (tag === 'hr') return [{ type: 'rule' }];
+    if (isBlockCode(el)) {
+      const language = el.getAttribute('data-language') ?? el.getAttribute('data-highlight-language');
+      return [{ type: 'code', ...(language ? { language } : {}), text: codeText(el) }];
+    }
+    if (tag === 'table') {
+      const rows = Array.from(el.querySelectorAll('tr')).map((row) => ({
+        cells: Array.from(row.children)
+          .filter((cell) => ['td', 'th'].includes(tagOf(cell)))
+          .map((cell) => ({
+            ...(tagOf(cell) === 'th' ? { header: true } : {}),
+            children: inlines(Array.from(cell.childNodes)),
+          })),
+      }));
+      return [{ type: 'table', rows }];
+    }
+    if (tag === 'blockquote') return [{ type: 'quote', children: blocks(el) }];
+    return blocks(el);
+  }
+
+  // Split a container into blocks, grouping runs of inline nodes into paragraphs.
+  function blocks(container: Element): DocumentBlock[] {
+    const result: DocumentBlock[] = [];
+    let run: Node[] = [];
+    const flush = (el?: Element) => {
+      let children = inlines(run);
+      // An empty paragraph is rendered as `<p><br></p>`.
+      if (children.length === 1 && children[0].type === 'break') children = [];
+      if (children.length || el) result.push({ type: 'paragraph', ...(el ? alignmentOf(el) : {}), children });
+      run = [];
+    };
+
+    container.childNodes.forEach((child) => {
+      const el = child as Element;
+      const isBlock = child.nodeType === Node.ELEMENT_NODE && (BLOCK_TAGS.has(tagOf(el)) || isBlockCode(el));
+      if (!isBlock) {
+        run.push(child);
+        return;
+      }
+      flush();
+      const hasBlockChildren = Array.from(el.children).some((c) => BLOCK_TAGS.has(tagOf(c)) || isBlockCode(c));
+      if (['p', 'div'].includes(tagOf(el)) && !hasBlockChildren) {
+        run = Array.from(el.childNodes);
+        flush(el);
+      } else {
+        result.push(...block(el));
+      }
+    });
+    flush();
+    return result;
+  }
+
+  // FNV-1a, enough to tell blocks apart without pulling in a hash library.
+  const hash = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      h ^= text.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(36).padStart(7, '0');
+  };
+  const seen = new Map<string, number>();
+  const identify = <T extends { id?: string }>(node: T, prefix: string): T => {
+    const base = `${prefix}-${hash(JSON.stringify(node))}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { id: count === 1 ? base : `${base}-${count}`, ...node };
+  };
+  const withIds = (block: DocumentBlock): DocumentBlock => {
+    if (block.type === 'quote') {
+      return identify({ ...block, children: block.children.map(withIds) }, 'quote');
+    }
+    if (block.type === 'list') {
+      const listWithIds = (list: ListBlock): ListBlock => identify({
+        ...list,
+        items: list.items.map((item) => identify({
+          ...item,
+          ...(item.lists ? { lists: item.lists.map(listWithIds) } : {}),
+        }, 'item')),
+      }, 'list');
+      return listWithIds(block);
+    }
+    return identify(block, block.type);
+  };
+
+  return blocks(root).map(withIds);
+}
+
+/**
+ * Paste `html` (with `text` as the plain-text flavour) at the editor's
+ * current selection through a synthetic clipboard event, which Lexical
+ * imports as rich content in one step. Returns false if the editor did not
+ * handle the event. Runs in the editor frame.
+ */
+export function pasteIntoEditor(root: Element, html: string | null, text: string): boolean {
+  const data = new DataTransfer();
+  data.setData('text/plain', text);
+  if (html !== null) data.setData('text/html', html);
+  const event = new ClipboardEvent('paste', { clipboardData: data, bubbles: true, cancelable: true });
+  root.dispatchEvent(event);
+  return event.defaultPrevented;
+}
+
+export interface TextMatch {
+  index: number;
+  text: string;
+  /** The `replace` template expanded for this match, when one was given. */
+  replacement?: string;
+  /** Whether the match ended up selected; only set on the `selectIndex` match. */
+  selected?: boolean;
+}
+
+/**
+ * Find matches of a regular expression in the editor text and, when
+ * `selectIndex` is given, select that match so the next paste or keystroke
+ * replaces it. Text is searched line by line: a match never spans two
+ * blocks or a line break. With `replace`, each match also carries the
+ * template expanded as `String.prototype.replace` would against the whole
+ * line, so lookbehind, `\b`, anchors and capture groups see their context.
+ * Resolves once the editor has seen the selection change, with `selected`
+ * telling whether the selection still covers the match. Runs in the editor
+ * frame.
+ */
+export function locateText(
+  root: Element,
+  source: string,
+  flags: string,
+  selectIndex: number | null,
+  replace: string | null = null
+): Promise<TextMatch[]> {
+  const BLOCK = 'p, h1, h2, h3, h4, h5, h6, li, pre, td, th, blockquote';
+  const lines: Array<{ text: string; segments: Array<{ node: Text; start: number }> }> = [];
+  let current: (typeof lines)[number] | null = null;
+  let currentBlock: Element | null = null;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      if ((node as Element).tagName === 'BR') current = null;
+      continue;
+    }
+    const block = node.parentElement?.closest(BLOCK) ?? root;
+    if (!current || block !== currentBlock) {
+      current = { text: '', segments: [] };
+      lines.push(current);
+      currentBlock = block;
+    }
+    current.segments.push({ node: node as Text, start: current.text.length });
+    current.text += (node as Text).data;
+  }
+
+  const found: Array<TextMatch & { line: number; start: number; end: number }> = [];
+  const pattern = new RegExp(source, flags.includes('g') ? flags : flags + 'g');
+  // A sticky copy replaces exactly the match at its lastIndex.
+  const single = new RegExp(source, flags.replace('g', '') + 'y');
+  lines.forEach((line, lineIndex) => {
+    for (const match of line.text.matchAll(pattern)) {
+      if (match[0] === '') continue;
+      const start = match.index!;
+      const end = start + match[0].length;
+      const item: (typeof found)[number] = { index: found.length, text: match[0], line: lineIndex, start, end };
+      if (replace !== null) {
+        single.lastIndex = start;
+        const replaced = line.text.replace(single, replace);
+        item.replacement = replaced.slice(start, replaced.length - (line.text.length - end));
+      }
+      found.push(item);
+    }
+  });
+
+  const result: TextMatch[] = found.map(({ index, text, replacement }) =>
+    replacement === undefined ? { index, text } : { index, text, replacement });
+  const target = selectIndex === null ? undefined : found[selectIndex];
+  if (!target) return Promise.resolve(result);
+
+  // Map a character offset in the line back to a text node position.
+  const position = (offset: number, atEnd: boolean) => {
+    const segments = lines[target.line].segments;
+    for (const segment of segments) {
+      const length = segment.node.data.length;
+      if (offset < segment.start + length || (atEnd && offset === segment.start + length)) {
+        return { node: segment.node, offset: offset - segment.start };
+      }
+    }
+    const last = segments[segments.length - 1];
+    return { node: last.node, offset: last.node.data.length };
+  };
+  const start = position(target.start, false);
+  const end = position(target.end, true);
+  const range = document.createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(end.node, end.offset);
+
+  return new Promise((resolve) => {
+    const selection = window.getSelection()!;
+    let settled = false;
+    const done = () => {
+      if (settled) return;
+      settled = true;
+      result[target.index].selected = selection.rangeCount > 0 && selection.toString() === target.text;
+      resolve(result);
+    };
+    document.addEventListener('selectionchange', done, { once: true });
+    setTimeout(done, 100);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  });
+}
+
+export interface SectionBounds {
+  /** Index of the heading (or anchor block) among the editor's top-level blocks. */
+  first: number;
+  /** Index of the last block before the next heading of the same or higher level. */
+  last: number;
+}
+
+/**
+ * Find a heading by its text (case-insensitive, whitespace-normalized) or
+ * the first top-level block containing `anchor`. For headings, `last` is the
+ * end of the section the heading introduces; for anchors it equals `first`.
+ * Runs in the editor frame.
+ */
+export function locateSection(root: Element, heading: string | null, anchor: string | null): SectionBounds | null {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const blocks = Array.from(root.children);
+  const levelOf = (el: Element) => {
+    const match = el.tagName.match(/^H([1-6])$/);
+    return match ? Number(match[1]) : 0;
+  };
+
+  if (anchor !== null) {
+    const index = blocks.findIndex((el) => (el.textContent ?? '').includes(anchor));
+    return index < 0 ? null : { first: index, last: index };
+  }
+
+  const wanted = normalize(heading ?? '');
+  const first = blocks.findIndex((el) => levelOf(el) > 0 && normalize(el.textContent ?? '') === wanted);
+  if (first < 0) return null;
+
+  const level = levelOf(blocks[first]);
+  let last = first;
+  while (last + 1 < blocks.length) {
+    const next = levelOf(blocks[last + 1]);
+    if (next > 0 && next <= level) break;
+    last++;
+  }
+  return { first, last };
+}
+
+/**
+ * Select top-level blocks `first` through `last`, or place the caret at the
+ * start of `first` or the end of `last`. Runs in the editor frame.
+ */
+export function selectBlocks(
+  root: Element,
+  first: number,
+  last: number,
+  mode: 'all' | 'start' | 'end'
+): Promise<boolean> {
+  const blocks = Array.from(root.children);
+  const from = blocks[first];
+  const to = blocks[last];
+  if (!from || !to) return Promise.resolve(false);
+
+  // Anchor the range on text nodes where possible; the editor maps those
+  // more reliably than element offsets.
+  const edge = (el: Element, atEnd: boolean): [Node, number] => {
+    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+    let text: Text | null = null;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      text = node as Text;
+      if (!atEnd) break;
+    }
+    if (!text) return [el, atEnd ? el.childNodes.length : 0];
+    return [text, atEnd ? text.data.length : 0];
+  };
+
+  const range = document.createRange();
+  if (mode === 'all' || mode === 'start') range.setStart(...edge(from, false));
+  if (mode === 'all' || mode === 'end') range.setEnd(...edge(to, true));
+  if (mode === 'start') range.collapse(true);
+  if (mode === 'end') range.collapse(false);
+
+  return new Promise((resolve) => {
+    const done = () => resolve(true);
+    document.addEventListener('selectionchange', done, { once: true });
+    setTimeout(done, 100);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
+  });
+}
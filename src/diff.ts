@@ -0,0 +1,186 @@
+export type DiffOp = { type: 'equal' | 'delete' | 'insert'; value: string };
+
+export interface DiffResult {
+  diff: string;
+  /** Lines (unified) or words (word diff) only in the new text. */
+  added: number;
+  /** Lines (unified) or words (word diff) only in the old text. */
+  removed: number;
+  /** True when hunks were left out to respect `maxLines`. */
+  truncated: boolean;
+}
+
+/**
+ * Beyond this many edits the remaining middle part is reported as removed
+ * and re-added wholesale, which keeps time and memory bounded for texts that
+ * have little in common.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Shortest edit script from `a` to `b` (Myers' O(ND) algorithm). */
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (values: string[]) => values.map((value): DiffOp => ({ type: 'equal', value }));
+  return [
+    ...equal(a.slice(0, start)),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...equal(a.slice(endA)),
+  ];
+}
+
+function myers(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const replaceAll = (): DiffOp[] => [
+    ...a.map((value): DiffOp => ({ type: 'delete', value })),
+    ...b.map((value): DiffOp => ({ type: 'insert', value })),
+  ];
+  if (n === 0 || m === 0) return replaceAll();
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 as it was before step d.
+  const trace: Int32Array[] = [];
+  const at = (snapshot: Int32Array, d: number, k: number) => snapshot[k + d + 1];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, at);
+    }
+  }
+  return replaceAll();
+}
+
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: Int32Array[],
+  at: (snapshot: Int32Array, d: number, k: number) => number
+): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(snapshot, d, k - 1) < at(snapshot, d, k + 1)) ? k + 1 : k - 1;
+    const previousX = at(snapshot, d, previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      ops.push({ type: 'equal', value: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) ops.push({ type: 'insert', value: b[--y] });
+      else ops.push({ type: 'delete', value: a[--x] });
+    }
+  }
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Line diff in unified format, with `context` unchanged lines around each
+ * change. With `maxLines`, hunks that would exceed it are left out.
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number; maxLines?: number } = {}
+): DiffResult {
+  const context = options.context ?? 3;
+  const ops = diffSequences(splitLines(before), splitLines(after));
+  const added = ops.filter((op) => op.type === 'insert').length;
+  const removed = ops.filter((op) => op.type === 'delete').length;
+  if (added === 0 && removed === 0) {
+    return { diff: '', added, removed, truncated: false };
+  }
+
+  // Line numbers before each op, to label the hunks.
+  const positions: Array<{ a: number; b: number }> = [];
+  let lineA = 0;
+  let lineB = 0;
+  for (const op of ops) {
+    positions.push({ a: lineA, b: lineB });
+    if (op.type !== 'insert') lineA++;
+    if (op.type !== 'delete') lineB++;
+  }
+
+  // Ranges of ops to show: every change plus its context, merged when they touch.
+  const ranges: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    const from = Math.max(0, index - context);
+    const to = Math.min(ops.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else ranges.push([from, to]);
+  });
+
+  const lines = [`--- ${options.fromLabel ?? 'before'}`, `+++ ${options.toLabel ?? 'after'}`];
+  let truncated = false;
+  for (const [from, to] of ranges) {
+    const hunk = ops.slice(from, to);
+    const countA = hunk.filter((op) => op.type !== 'insert').length;
+    const countB = hunk.filter((op) => op.type !== 'delete').length;
+    if (options.maxLines !== undefined && lines.length + hunk.length + 1 > options.maxLines) {
+      truncated = true;
+      break;
+    }
+    const startA = countA === 0 ? positions[from].a : positions[from].a + 1;
+    const startB = countB === 0 ? positions[from].b : positions[from].b + 1;
+    lines.push(`@@ -${startA},${countA} +${startB},${countB} @@`);
+    for (const op of hunk) {
+      lines.push(`${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.value}`);
+    }
+  }
+  return { diff: lines.join('\n'), added, removed, truncated };
+}
+
+/**
+ * Word-level diff of the whole text, marking removed words as `[-…-]` and
+ * added ones as `{+…+}`, as `git diff --word-diff` does.
+ */
+export function wordDiff(before: string, after: string): DiffResult {
+  const tokens = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+  const ops = diffSequences(tokens(before), tokens(after));
+  const isWord = (op: DiffOp) => /\S/.test(op.value);
+
+  let diff = '';
+  let index = 0;
+  while (index < ops.length) {
+    const { type } = ops[index];
+    let run = '';
+    while (index < ops.length && ops[index].type === type) run += ops[index++].value;
+    diff += type === 'equal' ? run : type === 'delete' ? `[-${run}-]` : `{+${run}+}`;
+  }
+  return {
+    diff,
+    added: ops.filter((op) => op.type === 'insert' && isWord(op)).length,
+    removed: ops.filter((op) => op.type === 'delete' && isWord(op)).length,
+    truncated: false,
+  };
+}
@@ -0,0 +1,149 @@
+import { createHash } from "crypto";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync } from "fs";
+import { basename, extname, join } from "path";
+import { Page, Protocol } from "puppeteer";
+import { withTimeout } from "./waiting.js";
+
+export interface DownloadedFile {
+  path: string;
+  filename: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+}
+
+export class DownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+};
+
+export function mimeTypeFor(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/');
+}
+
+// Keep the name Proton suggests, minus anything that is not a valid file name.
+function safeFilename(name: string): string {
+  const cleaned = basename(name).replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim();
+  return cleaned || 'document';
+}
+
+// `name.ext`, or `name (2).ext` and so on if that file already exists.
+function uniquePath(directory: string, filename: string): string {
+  const extension = extname(filename);
+  const stem = filename.slice(0, filename.length - extension.length);
+  let candidate = join(directory, filename);
+  for (let n = 2; existsSync(candidate); n++) {
+    candidate = join(directory, `${stem} (${n})${extension}`);
+  }
+  return candidate;
+}
+
+function describe(path: string, data: Buffer): DownloadedFile {
+  return {
+    path,
+    filename: basename(path),
+    size: data.length,
+    mimeType: mimeTypeFor(path),
+    sha256: createHash('sha256').update(data).digest('hex'),
+  };
+}
+
+function frameIds(tree: Protocol.Page.FrameTree, ids = new Set<string>()): Set<string> {
+  ids.add(tree.frame.id);
+  for (const child of tree.childFrames ?? []) {
+    frameIds(child, ids);
+  }
+  return ids;
+}
+
+// Move a file, copying it when `to` is on another file system.
+function moveFile(from: string, to: string) {
+  try {
+    renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    copyFileSync(from, to);
+    unlinkSync(from);
+  }
+}
+
+/**
+ * Run `trigger` and capture the download it starts in `page`. Chromium saves
+ * the file under a temporary GUID name in `incoming`; once the download
+ * completes it is moved to `directory` under the name Proton suggested.
+ * Rejects with a TimeoutError if no download starts, or the download does
+ * not finish, within `timeout`.
+ *
+ * The download directory is a browser-wide setting, so every download in
+ * the same browser must use the same `incoming` directory; otherwise a
+ * concurrent download redirects this one's file.
+ */
+export async function captureDownload(
+  page: Page,
+  incoming: string,
+  directory: string,
+  trigger: () => Promise<void>,
+  timeout: number
+): Promise<DownloadedFile> {
+  mkdirSync(incoming, { recursive: true });
+  mkdirSync(directory, { recursive: true });
+
+  const client = await page.createCDPSession();
+  try {
+    await client.send('Browser.setDownloadBehavior', {
+      behavior: 'allowAndName',
+      downloadPath: incoming,
+      eventsEnabled: true,
+    });
+    // Download events are reported browser-wide; only follow ones started by
+    // this tab, so concurrent downloads in other tabs do not get mixed up.
+    const { frameTree } = await client.send('Page.getFrameTree');
+    const ownFrames = frameIds(frameTree);
+
+    let guid: string | null = null;
+    let suggestedFilename = '';
+    let resolveStarted!: () => void;
+    let settle!: (error?: Error) => void;
+    const started = new Promise<void>((resolve) => (resolveStarted = resolve));
+    const finished = new Promise<void>((resolve, reject) => {
+      settle = (error) => (error ? reject(error) : resolve());
+    });
+    finished.catch(() => undefined);
+
+    client.on('Browser.downloadWillBegin', (event: Protocol.Browser.DownloadWillBeginEvent) => {
+      if (guid || !ownFrames.has(event.frameId)) return;
+      guid = event.guid;
+      suggestedFilename = event.suggestedFilename;
+      resolveStarted();
+    });
+    client.on('Browser.downloadProgress', (event: Protocol.Browser.DownloadProgressEvent) => {
+      if (event.guid !== guid) return;
+      if (event.state === 'completed') settle();
+      if (event.state === 'canceled') settle(new DownloadError(`Download of ${suggestedFilename} was canceled`));
+    });
+
+    await trigger();
+    await withTimeout(started, timeout, `No download started within ${timeout}ms`);
+    await withTimeout(finished, timeout, `Download of ${suggestedFilename} did not finish within ${timeout}ms`);
+
+    const path = uniquePath(directory, safeFilename(suggestedFilename));
+    moveFile(join(incoming, guid!), path);
+    return describe(path, readFileSync(path));
+  } finally {
+    await client.detach().catch(() => undefined);
+  }
+}
@@ -0,0 +1,94 @@
+import { ElementHandle, Page } from "puppeteer";
+import { SelectorRegistry } from "./selectors.js";
+
+/** Name Proton Drive shows for the root of the account's own files. */
+export const ROOT_FOLDER_NAME = 'My files';
+
+export interface DriveFolder {
+  id: string;
+  name: string;
+  /** Slash-separated path from the root, e.g. "My files/Specs/2025". */
+  path: string;
+  url: string;
+}
+
+export type DriveItemKind = 'folder' | 'document' | 'file';
+
+export interface DriveItem {
+  /** Link id, when the row exposes it. Document ids match list_documents. */
+  id: string | null;
+  name: string;
+  kind: DriveItemKind;
+}
+
+/** Share and folder id of a Drive folder URL (`…/<shareId>/folder/<folderId>`). */
+export function parseFolderUrl(url: string): { shareId: string; folderId: string } | null {
+  const match = url.match(/\/([^/?#]+)\/folder\/([^/?#]+)/);
+  return match ? { shareId: match[1], folderId: match[2] } : null;
+}
+
+export function folderUrl(driveUrl: string, shareId: string, folderId: string): string {
+  return `${driveUrl.replace(/\/$/, '')}/${shareId}/folder/${folderId}`;
+}
+
+/**
+ * Folder names below the root for a path such as "Specs/2025" or
+ * "My files/Specs/2025". " / " separators, as in the listing's location
+ * column, are accepted too.
+ */
+export function splitFolderPath(path: string): string[] {
+  const segments = path.split(/\s*\/\s*/).filter(Boolean);
+  return segments[0]?.toLowerCase() === ROOT_FOLDER_NAME.toLowerCase() ? segments.slice(1) : segments;
+}
+
+export function joinFolderPath(segments: string[]): string {
+  return [ROOT_FOLDER_NAME, ...segments].join('/');
+}
+
+/** Items of the folder open in Drive, in the order they are shown. */
+export async function scrapeDriveItems(page: Page, selectors: SelectorRegistry): Promise<DriveItem[]> {
+  return page.evaluate((rowSelector, nameSelector, folderSelector, documentSelector) => {
+    return Array.from(document.querySelectorAll(rowSelector)).map((row) => ({
+      id: row.getAttribute('data-link-id') || row.getAttribute('data-id') || null,
+      name: (row.querySelector(nameSelector)?.textContent ?? row.textContent ?? '').trim(),
+      kind: row.querySelector(folderSelector) ? 'folder' as const
+        : row.querySelector(documentSelector) ? 'document' as const
+        : 'file' as const,
+    }));
+  },
+    selectors.css('driveItemRows'),
+    selectors.css('driveItemName'),
+    selectors.css('driveFolderIcon'),
+    selectors.css('driveDocumentIcon')
+  );
+}
+
+/**
+ * Row of the item called `name` in the open folder. An exact name match wins
+ * over a case-insensitive one; `id` narrows the match when documents share a
+ * title.
+ */
+export async function findDriveRow(
+  page: Page,
+  selectors: SelectorRegistry,
+  name: string,
+  kind: DriveItemKind,
+  id?: string | null
+): Promise<ElementHandle<Element> | null> {
+  const items = await scrapeDriveItems(page, selectors);
+  const candidates = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.kind === kind && item.name.toLowerCase() === name.toLowerCase());
+  const match = candidates.find(({ item }) => id && item.id === id)
+    ?? candidates.find(({ item }) => item.name === name)
+    ?? candidates[0];
+  if (!match) return null;
+  const rows = await page.$$(selectors.css('driveItemRows'));
+  return rows[match.index] ?? null;
+}
+
+export async function readBreadcrumbs(page: Page, selectors: SelectorRegistry): Promise<string[]> {
+  return page.$$eval(selectors.css('driveBreadcrumbs'), (items) =>
+    items.map((item) => item.textContent?.trim() ?? '').filter(Boolean)
+  );
+}
@@ -0,0 +1,97 @@
+import { spawn } from "child_process";
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+/** Turns texts into vectors for similarity search. */
+export interface EmbeddingProvider {
+  /** Identifies the model; vectors from different providers are never compared. */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const BATCH_SIZE = 64;
+
+/**
+ * Embeddings computed by a local command, so any model can be plugged in
+ * without this server making network requests. The command receives
+ * `{"texts": [...]}` as JSON on stdin and must print `{"embeddings": [[...], ...]}`
+ * (or just the array of vectors) on stdout, one vector per text.
+ */
+export class CommandEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private command: string, private timeout: number) {
+    this.name = `command:${command}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      vectors.push(...await this.run(texts.slice(i, i + BATCH_SIZE)));
+    }
+    return vectors;
+  }
+
+  private run(texts: string[]): Promise<number[][]> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new EmbeddingError(`Embedding command timed out after ${this.timeout}ms`));
+      }, this.timeout);
+
+      child.stdout.on('data', (data: Buffer) => stdout.push(data));
+      child.stderr.on('data', (data: Buffer) => stderr.push(data));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new EmbeddingError(`Cannot run embedding command: ${error.message}`));
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          const detail = Buffer.concat(stderr).toString('utf8').trim().slice(0, 500);
+          reject(new EmbeddingError(`Embedding command exited with code ${code}${detail ? `: ${detail}` : ''}`));
+          return;
+        }
+        try {
+          const output = JSON.parse(Buffer.concat(stdout).toString('utf8'));
+          const embeddings = Array.isArray(output) ? output : output?.embeddings;
+          if (
+            !Array.isArray(embeddings) || embeddings.length !== texts.length ||
+            !embeddings.every((vector) => Array.isArray(vector) && vector.every((value) => typeof value === 'number'))
+          ) {
+            throw new Error(`expected ${texts.length} vectors`);
+          }
+          resolve(embeddings);
+        } catch (error) {
+          reject(new EmbeddingError(`Embedding command returned invalid output: ${(error as Error).message}`));
+        }
+      });
+
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(JSON.stringify({ texts }));
+    });
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new EmbeddingError(`Vectors have different dimensions (${a.length} and ${b.length})`);
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
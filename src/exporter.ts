@@ -0,0 +1,106 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { EXPORT_FORMATS } from "./config.js";
+import { DocumentRow, folderSegments } from "./listing.js";
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  docx: 'docx',
+  pdf: 'pdf',
+  txt: 'txt',
+  markdown: 'md',
+};
+
+export interface ManifestEntry {
+  url: string;
+  title: string;
+  owner: string;
+  location: string;
+  /** Listing timestamp used to detect changes between runs. */
+  modified: string;
+  viewed: string;
+  format: ExportFormat;
+  /** Path of the exported file, relative to the export directory. */
+  file: string;
+  size: number;
+  sha256: string;
+  exportedAt: string;
+}
+
+export interface ExportManifest {
+  version: 1;
+  updatedAt: string;
+  documents: ManifestEntry[];
+}
+
+export interface ExportSummary {
+  directory: string;
+  manifest: string;
+  exported: number;
+  skipped: number;
+  failed: Array<{ url: string; title: string; error: string }>;
+}
+
+export function loadManifest(directory: string): ExportManifest | null {
+  const path = join(directory, MANIFEST_FILE);
+  if (!existsSync(path)) return null;
+  const manifest = JSON.parse(readFileSync(path, 'utf8'));
+  return manifest?.version === 1 ? manifest : null;
+}
+
+// Written after every document so an interrupted run keeps its progress.
+export function saveManifest(directory: string, manifest: ExportManifest) {
+  const path = join(directory, MANIFEST_FILE);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(manifest, null, 2));
+  renameSync(tmp, path);
+}
+
+function safeSegment(name: string): string {
+  const cleaned = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').replace(/^\.+/, '_').trim();
+  return cleaned || 'Untitled';
+}
+
+/**
+ * Relative path for a document, mirroring its folder from the listing's
+ * location column (e.g. "My files / Specs"). Paths already used in this run
+ * get a " (2)" style suffix.
+ */
+export function exportPath(row: DocumentRow, format: ExportFormat, taken: Set<string>): string {
+  const folders = folderSegments(row.location).map(safeSegment);
+  const stem = join(...folders, safeSegment(row.title));
+  const extension = EXPORT_EXTENSIONS[format];
+  let path = `${stem}.${extension}`;
+  for (let n = 2; taken.has(path.toLowerCase()); n++) {
+    path = `${stem} (${n}).${extension}`;
+  }
+  taken.add(path.toLowerCase());
+  return path;
+}
+
+/**
+ * Whether a document can be skipped in an incremental run: it was exported
+ * in the same format, the file is still there, and the listing timestamp has
+ * not changed since.
+ */
+export function isUnchanged(
+  previous: ManifestEntry | undefined,
+  row: DocumentRow,
+  format: ExportFormat,
+  directory: string
+): boolean {
+  if (!previous || previous.format !== format) return false;
+  if (!existsSync(join(directory, previous.file))) return false;
+  const stamp = row.modified || row.viewed;
+  return stamp !== '' && stamp === (previous.modified || previous.viewed);
+}
+
+export function moveInto(directory: string, from: string, relative: string): string {
+  const target = join(directory, relative);
+  mkdirSync(dirname(target), { recursive: true });
+  renameSync(from, target);
+  return target;
+}
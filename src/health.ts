@@ -0,0 +1,38 @@
+import { Browser, Page } from "puppeteer";
+
+/**
+ * Raised in place of a handler's own error when the tab or browser it was
+ * using died mid-call, so callers can tell a crash from a UI failure.
+ */
+export class BrowserCrashedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BrowserCrashedError';
+  }
+}
+
+// Errors Puppeteer raises for commands sent to a tab or browser that is gone.
+export function isTargetClosedError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /Target closed|Session closed|Connection closed|Protocol error.*closed/i
+    .test(message);
+}
+
+export function monitorBrowser(browser: Browser, onDisconnect: () => void) {
+  browser.once('disconnected', onDisconnect);
+}
+
+/**
+ * Report a tab as dead when its renderer crashes or the tab is closed from
+ * outside (e.g. by the user in a visible browser window).
+ */
+export function monitorPage(page: Page, onCrash: (reason: string) => void) {
+  let reported = false;
+  const report = (reason: string) => {
+    if (reported) return;
+    reported = true;
+    onCrash(reason);
+  };
+  page.on('error', (error) => report(`renderer crashed: ${error.message}`));
+  page.on('close', () => report('tab closed'));
+}
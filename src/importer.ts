@@ -0,0 +1,113 @@
+import { existsSync, readFileSync } from "fs";
+import { basename, dirname, extname, resolve } from "path";
+import mammoth from "mammoth";
+import { escapeHtml, markdownToHtml } from "./markdown.js";
+
+export type ImportFormat = 'docx' | 'markdown' | 'html' | 'text';
+
+export interface ConvertedFile {
+  html: string;
+  warnings: string[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  '.docx': 'docx',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+  '.text': 'text',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  return EXTENSIONS[extname(filename).toLowerCase()] ?? null;
+}
+
+/** Default document title for an imported file: its name without extension. */
+export function titleFromFilename(filename: string): string {
+  const name = basename(filename);
+  return name.slice(0, name.length - extname(name).length) || name;
+}
+
+function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .filter((block) => block.trim())
+    .map((block) => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+// Keep only what the editor can import from an HTML page.
+function htmlBody(html: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return body
+    .replace(/<(script|style|head|template|noscript)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '');
+}
+
+/**
+ * Replace `<img>` sources that point at local files, relative to
+ * `baseDir`, with data URIs; the editor cannot load them otherwise.
+ */
+function inlineLocalImages(html: string, baseDir: string | null, warnings: string[]): string {
+  return html.replace(/(<img\b[^>]*?\ssrc=")([^"]*)(")/gi, (match, before: string, src: string, after: string) => {
+    if (/^(data:|https?:|blob:)/i.test(src)) return match;
+    const type = IMAGE_TYPES[extname(src.split(/[?#]/)[0]).toLowerCase()];
+    const path = baseDir ? resolve(baseDir, decodeURIComponent(src.split(/[?#]/)[0])) : null;
+    if (!type || !path || !existsSync(path)) {
+      warnings.push(`Image ${src} could not be embedded`);
+      return match;
+    }
+    return `${before}data:${type};base64,${readFileSync(path).toString('base64')}${after}`;
+  });
+}
+
+/**
+ * Convert a file to HTML the editor imports as rich content. `sourcePath`
+ * is used to resolve relative image links in Markdown and HTML files.
+ */
+export async function convertForImport(
+  data: Buffer,
+  format: ImportFormat,
+  sourcePath?: string
+): Promise<ConvertedFile> {
+  const warnings: string[] = [];
+  const baseDir = sourcePath ? dirname(sourcePath) : null;
+  const text = () => data.toString('utf8').replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+
+  switch (format) {
+    case 'docx': {
+      let result: Awaited<ReturnType<typeof mammoth.convertToHtml>>;
+      try {
+        result = await mammoth.convertToHtml({ buffer: data });
+      } catch (error) {
+        throw new ImportError(`Not a readable DOCX file: ${(error as Error).message}`);
+      }
+      warnings.push(...result.messages.map((message) => message.message));
+      return { html: result.value, warnings };
+    }
+    case 'markdown':
+      return { html: inlineLocalImages(markdownToHtml(text()), baseDir, warnings), warnings };
+    case 'html':
+      return { html: inlineLocalImages(htmlBody(text()), baseDir, warnings), warnings };
+    case 'text':
+      return { html: textToHtml(text()), warnings };
+  }
+}
@@ -1,48 +1,376 @@
+#!/usr/bin/env node
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import puppeteer, { Browser, Page } from "puppeteer";
+import { existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { dirname, extname, join, resolve } from "path";
+import { pathToFileURL } from "url";
+import puppeteer, { Browser, ElementHandle, Frame, KeyInput, Page, PuppeteerLaunchOptions } from "puppeteer";
 import { z } from "zod";
+import {
+  LoginError,
+  SessionStore,
+  captureSession,
+  isLoginPage,
+  isLoginUrl,
+  performLogin,
+  restoreSession,
+} from "./auth.js";
+import { CliOptions, Config, ConfigError, EXPORT_FORMATS, ExportCommandOptions, USAGE, loadConfig, parseCliArgs } from "./config.js";
+import {
+  SELECTOR_SCHEMA_VERSION,
+  SelectorKey,
+  SelectorRegistry,
+  loadSelectorRegistry,
+} from "./selectors.js";
+import { AST_VERSION, DocumentTree, DocumentTreeSchema, documentTreeToHtml } from "./ast.js";
+import {
+  cleanEditorHtml,
+  extractDocumentTree,
+  locateSection,
+  locateText,
+  pasteIntoEditor,
+  selectBlocks,
+  serializeEditor,
+} from "./content.js";
+import { InputFormat, markdownToHtml } from "./markdown.js";
+import { DownloadError, DownloadedFile, captureDownload, isTextMimeType } from "./downloads.js";
+import {
+  EXPORT_EXTENSIONS,
+  ExportFormat,
+  ExportManifest,
+  ExportSummary,
+  MANIFEST_FILE,
+  exportPath,
+  isUnchanged,
+  loadManifest,
+  moveInto,
+  saveManifest,
+} from "./exporter.js";
+import {
+  DriveFolder,
+  ROOT_FOLDER_NAME,
+  findDriveRow,
+  folderUrl,
+  joinFolderPath,
+  parseFolderUrl,
+  readBreadcrumbs,
+  scrapeDriveItems,
+  splitFolderPath,
+} from "./drive.js";
+import {
+  DocumentRow,
+  ListedDocument,
+  collectRows,
+  decodeCursor,
+  documentId,
+  encodeCursor,
+  folderSegments,
+  scrapeDocumentRows,
+  toListedDocument,
+} from "./listing.js";
+import { ConvertedFile, ImportError, convertForImport, detectImportFormat, titleFromFilename } from "./importer.js";
+import { TrashedDocument, matchTrashed, toTrashedDocument, trashToken } from "./trash.js";
+import { findAddedThread, findCommentThread, scrapeCommentThreads } from "./comments.js";
+import { ShareRole, SharingState, findMember, findMemberRow, readSharingState } from "./sharing.js";
+import { DocumentVersion, findVersion, scrapeVersions } from "./versions.js";
+import { unifiedDiff, wordDiff } from "./diff.js";
+import {
+  ChangeVerificationError,
+  DocumentSnapshot,
+  checkAlignment,
+  checkEdit,
+  checkFont,
+  checkFormatted,
+  checkInserted,
+  checkLink,
+  checkList,
+  checkReplaced,
+  checkRestored,
+  checkSection,
+  checkTree,
+  verifyChange,
+} from "./changes.js";
+import { ContentIndex, IndexData, QueryError, QueryNode, parseQuery } from "./search.js";
+import { EncryptedFile } from "./vault.js";
+import { RankedChunk, chunkDocument, citation, embeddingKey, rankChunksByEmbedding, rankChunksLexically } from "./chunks.js";
+import { CommandEmbeddingProvider, EmbeddingProvider } from "./embeddings.js";
+import {
+  RESOURCE_MIME_TYPES,
+  RESOURCE_TEMPLATES,
+  ResourceFormat,
+  ResourceRef,
+  ResourceUriError,
+  documentUri,
+  parseResourceUri,
+} from "./resources.js";
+import { PromptError, PromptLibrary, loadPromptLibrary } from "./prompts.js";
+import {
+  SYNC_STATE_FILE,
+  SyncPlanItem,
+  SyncState,
+  contentHash,
+  listMarkdownFiles,
+  loadSyncState,
+  planFile,
+  saveSyncState,
+} from "./sync.js";
+import { BrowserCrashedError, isTargetClosedError, monitorBrowser, monitorPage } from "./health.js";
+import { KeyedLock, PagePool } from "./pool.js";
+import { invalidArguments, runTool } from "./runner.js";
+import {
+  retry,
+  waitForDomSettled,
+  waitForEditorIdle,
+  waitForNetworkQuiet,
+  waitForSaved,
+} from "./waiting.js";
 
 // Schema definitions for tool parameters
 const ListDocumentsSchema = z.object({
   searchQuery: z.string().optional(),
-  limit: z.number().default(20),
+  limit: z.number().int().positive().default(20),
+  cursor: z.string().optional(),
+  sortBy: z.enum(['listing', 'viewed', 'modified', 'title']).default('listing'),
+  order: z.enum(['asc', 'desc']).optional(),
+  filter: z.enum(['all', 'owned', 'shared_with_me']).default('all'),
+  modifiedAfter: z.string().refine((value) => !isNaN(Date.parse(value)), {
+    message: 'modifiedAfter must be an ISO 8601 date',
+  }).optional(),
 });
 
 const ReadDocumentSchema = z.object({
   documentUrl: z.string(),
+  format: z.enum(['markdown', 'text', 'html', 'json', 'chunks']).default('markdown'),
+});
+
+// Folders are named by path ("Specs/2025", optionally starting with "My
+// files") or by the id list_folder and create_folder report.
+const folderName = z.string().min(1).refine((name) => !name.includes('/'), {
+  message: 'Folder names cannot contain "/"',
 });
 
+const oneFolder = {
+  check: (params: { folder?: string; folderId?: string }) =>
+    (params.folder === undefined) !== (params.folderId === undefined),
+  message: { message: 'Specify exactly one of folder or folderId' },
+};
+
+const atMostOneFolder = {
+  check: (params: { folder?: string; folderId?: string }) =>
+    params.folder === undefined || params.folderId === undefined,
+  message: { message: 'Specify folder or folderId, not both' },
+};
+
 const CreateDocumentSchema = z.object({
   title: z.string(),
   content: z.string().optional(),
+  format: z.enum(['markdown', 'text', 'html']).default('text'),
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+}).refine(atMostOneFolder.check, atMostOneFolder.message);
+
+const ListFolderSchema = z.object({
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+}).refine(atMostOneFolder.check, atMostOneFolder.message);
+
+const CreateFolderSchema = z.object({
+  name: folderName,
+  parent: z.string().optional(),
+  parentId: z.string().min(1).optional(),
+}).refine((params) => params.parent === undefined || params.parentId === undefined, {
+  message: 'Specify parent or parentId, not both',
+});
+
+const RenameFolderSchema = z.object({
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+  newName: folderName,
+}).refine(oneFolder.check, oneFolder.message);
+
+const DeleteFolderSchema = z.object({
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+}).refine(oneFolder.check, oneFolder.message);
+
+const MoveDocumentSchema = z.object({
+  documentUrl: z.string(),
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+}).refine(oneFolder.check, oneFolder.message);
+
+const ImportDocumentSchema = z.object({
+  path: z.string().min(1).optional(),
+  data: z.string().min(1).optional(),
+  filename: z.string().min(1).optional(),
+  format: z.enum(['docx', 'markdown', 'html', 'text']).optional(),
+  title: z.string().min(1).optional(),
+  folder: z.string().optional(),
+  folderId: z.string().min(1).optional(),
+}).refine((params) => (params.path === undefined) !== (params.data === undefined), {
+  message: 'Specify exactly one of path or data',
+}).refine(atMostOneFolder.check, atMostOneFolder.message);
+
+const SyncDirectorySchema = z.object({
+  directory: z.string().min(1),
+  dryRun: z.boolean().default(false),
+  conflict: z.enum(['skip', 'local', 'remote']).default('skip'),
 });
 
 const SearchDocumentsSchema = z.object({
   query: z.string(),
+  mode: z.enum(['title', 'content']).default('title'),
+  limit: z.number().int().positive().default(10),
+  refresh: z.boolean().default(true),
+});
+
+const QueryDocumentsSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().positive().default(5),
+  documentUrls: z.array(z.string()).optional(),
+  refresh: z.boolean().default(true),
+});
+
+const IndexDocumentsSchema = z.object({
+  full: z.boolean().default(false),
 });
 
 const EditDocumentSchema = z.object({
   documentUrl: z.string(),
   content: z.string(),
   append: z.boolean().default(false),
+  format: z.enum(['markdown', 'text', 'html']).default('text'),
+  suggest: z.boolean().default(false),
 });
 
-const DeleteDocumentSchema = z.object({
+const ApplyDocumentAstSchema = z.object({
+  documentUrl: z.string(),
+  ast: DocumentTreeSchema,
+});
+
+const ReplaceTextSchema = z.object({
+  documentUrl: z.string(),
+  find: z.string().min(1),
+  replace: z.string(),
+  regex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(true),
+  all: z.boolean().default(false),
+  suggest: z.boolean().default(false),
+});
+
+const InsertContentSchema = z.object({
+  documentUrl: z.string(),
+  content: z.string(),
+  format: z.enum(['markdown', 'text', 'html']).default('markdown'),
+  heading: z.string().optional(),
+  anchor: z.string().min(1).optional(),
+  position: z.enum(['before', 'after', 'section_end']).default('after'),
+  suggest: z.boolean().default(false),
+}).refine((params) => (params.heading === undefined) !== (params.anchor === undefined), {
+  message: 'Specify exactly one of heading or anchor',
+});
+
+const ReplaceSectionSchema = z.object({
+  documentUrl: z.string(),
+  heading: z.string(),
+  content: z.string(),
+  format: z.enum(['markdown', 'text', 'html']).default('markdown'),
+  suggest: z.boolean().default(false),
+});
+
+const ListCommentsSchema = z.object({
+  documentUrl: z.string(),
+  includeResolved: z.boolean().default(true),
+});
+
+const AddCommentSchema = z.object({
+  documentUrl: z.string(),
+  anchorText: z.string().min(1),
+  comment: z.string().min(1),
+  occurrence: z.number().int().positive().default(1),
+  caseSensitive: z.boolean().default(true),
+});
+
+const ReplyCommentSchema = z.object({
   documentUrl: z.string(),
+  threadId: z.string().min(1),
+  reply: z.string().min(1),
+});
+
+const ResolveCommentSchema = z.object({
+  documentUrl: z.string(),
+  threadId: z.string().min(1),
+});
+
+const DeleteDocumentSchema = z.object({
+  documentUrl: z.string().optional(),
+  title: z.string().min(1).optional(),
   permanent: z.boolean().default(false),
+}).refine((params) => (params.documentUrl === undefined) !== (params.title === undefined), {
+  message: 'Specify exactly one of documentUrl or title',
+}).refine((params) => params.permanent || params.documentUrl !== undefined, {
+  message: 'title can only be used with permanent: true, for documents already in the trash',
+});
+
+const RestoreDocumentSchema = z.object({
+  documentUrl: z.string().optional(),
+  title: z.string().min(1).optional(),
+}).refine((params) => (params.documentUrl === undefined) !== (params.title === undefined), {
+  message: 'Specify exactly one of documentUrl or title',
+});
+
+const EmptyTrashSchema = z.object({
+  confirm: z.string().optional(),
 });
 
 const ShareDocumentSchema = z.object({
   documentUrl: z.string(),
-  email: z.string().email(),
+  email: z.string().email().optional(),
+  emails: z.array(z.string().email()).min(1).optional(),
   permission: z.enum(['view', 'edit']).default('view'),
+  message: z.string().min(1).optional(),
+}).refine((params) => (params.email === undefined) !== (params.emails === undefined), {
+  message: 'Specify exactly one of email or emails',
+});
+
+const GetSharingSchema = z.object({
+  documentUrl: z.string(),
+});
+
+const SetMemberRoleSchema = z.object({
+  documentUrl: z.string(),
+  email: z.string().email(),
+  role: z.enum(['viewer', 'editor']),
+});
+
+const RevokeAccessSchema = z.object({
+  documentUrl: z.string(),
+  email: z.string().email(),
+});
+
+const CreatePublicLinkSchema = z.object({
+  documentUrl: z.string(),
+  expiresAt: z.string().refine((value) => !isNaN(Date.parse(value)), {
+    message: 'expiresAt must be an ISO 8601 date',
+  }).optional(),
+  password: z.string().min(1).optional(),
+});
+
+const DisablePublicLinkSchema = z.object({
+  documentUrl: z.string(),
 });
 
 const FormatTextSchema = z.object({
@@ -71,7 +399,14 @@ const ChangeFontSchema = z.object({
 
 const DownloadDocumentSchema = z.object({
   documentUrl: z.string(),
-  format: z.enum(['docx', 'pdf', 'txt', 'markdown']).default('docx'),
+  format: z.enum(EXPORT_FORMATS).default('docx'),
+  inline: z.boolean().default(false),
+});
+
+const ExportAllSchema = z.object({
+  outputDir: z.string().min(1).optional(),
+  format: z.enum(EXPORT_FORMATS).default('docx'),
+  incremental: z.boolean().default(true),
 });
 
 const CopyDocumentSchema = z.object({
@@ -83,17 +418,185 @@ const GetVersionHistorySchema = z.object({
   documentUrl: z.string(),
 });
 
+const ReadVersionSchema = z.object({
+  documentUrl: z.string(),
+  versionId: z.string().min(1),
+  format: z.enum(['markdown', 'text']).default('markdown'),
+});
+
+const DiffVersionsSchema = z.object({
+  documentUrl: z.string(),
+  from: z.string().min(1),
+  to: z.string().min(1).default('current'),
+  mode: z.enum(['unified', 'words']).default('unified'),
+  context: z.number().int().min(0).default(3),
+});
+
+const RestoreVersionSchema = z.object({
+  documentUrl: z.string(),
+  versionId: z.string().min(1),
+});
+
 const SetAlignmentSchema = z.object({
   documentUrl: z.string(),
   alignment: z.enum(['left', 'center', 'right', 'justify']),
 });
 
+const CheckSelectorsSchema = z.object({
+  documentUrl: z.string().optional(),
+});
+
+// Tools that never change anything, and are therefore retried by default
+// after any internal failure.
+const READ_ONLY_TOOLS = new Set([
+  'list_documents',
+  'read_document',
+  'search_documents',
+  'query_documents',
+  'download_document',
+  'get_version_history',
+  'read_version',
+  'diff_versions',
+  'check_selectors',
+  'list_folder',
+  'list_trash',
+  'list_comments',
+  'get_sharing',
+  'resources/list',
+  'resources/read',
+  'resources/subscribe',
+]);
+
+// Tools that change a document; calls for the same document run one at a time.
+const WRITE_TOOLS = new Set([
+  'edit_document',
+  'apply_document_ast',
+  'replace_text',
+  'insert_content',
+  'replace_section',
+  'delete_document',
+  'share_document',
+  'format_text',
+  'create_list',
+  'insert_link',
+  'change_font',
+  'set_alignment',
+  'move_document',
+  'restore_document',
+  'add_comment',
+  'reply_comment',
+  'resolve_comment',
+  'set_member_role',
+  'revoke_access',
+  'create_public_link',
+  'disable_public_link',
+  'restore_version',
+]);
+
+// Read-only tools that are re-run transparently when the browser crashes
+// while they are in flight.
+const REPLAYABLE_TOOLS = new Set([
+  'read_document',
+  'list_documents',
+  'search_documents',
+  'list_folder',
+  'list_trash',
+  'list_comments',
+  'get_sharing',
+  'get_version_history',
+  'read_version',
+  'diff_versions',
+  'resources/list',
+  'resources/read',
+  'resources/subscribe',
+]);
+
+// Documents per resources/list page.
+const RESOURCE_PAGE_SIZE = 100;
+
+const SESSION_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+type ToolContent =
+  | { type: string; text: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text?: string; blob?: string } };
+
+type ToolResult = {
+  content: ToolContent[];
+};
+
+// Tools expected to outlast `toolTimeout`; still overridable per tool.
+const TOOL_TIMEOUTS: Record<string, number> = {
+  export_all: 6 * 60 * 60 * 1000,
+  sync_directory: 60 * 60 * 1000,
+  index_documents: 60 * 60 * 1000,
+};
+
+/** Tool arguments checked against `schema`; invalid ones are an InvalidParams error. */
+function parseArguments<S extends z.ZodTypeAny>(schema: S, args: unknown): z.infer<S> {
+  const result = schema.safeParse(args ?? {});
+  if (!result.success) {
+    throw invalidArguments(result.error);
+  }
+  return result.data;
+}
+
+function documentLockKey(args: unknown): string | null {
+  const url = (args as { documentUrl?: unknown } | undefined)?.documentUrl;
+  if (typeof url !== 'string') return null;
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
+
 class ProtonDocsServer {
   private server: Server;
   private browser: Browser | null = null;
-  private page: Page | null = null;
+  private pool: PagePool;
+  private documentLocks = new KeyedLock();
+  // Held while loading, changing and saving the content index, keyed by its path.
+  private indexLock = new KeyedLock();
+  private loginInFlight: Promise<void> | null = null;
+  private launching: Promise<Browser> | null = null;
+  private crashedPages = new WeakSet<Page>();
+  // Progress of the call running on each tab: set once its first page load
+  // finished, after which the tool may have changed something.
+  private pageCalls = new WeakMap<Page, { loaded: boolean }>();
+  // Errors from calls that failed before loading a page, safe to retry for any tool.
+  private failedBeforeLoad = new WeakSet<object>();
+  private sessionSavedAt = 0;
+  private config: Config;
+  private sessionStore: SessionStore | null = null;
+  private contentIndex: EncryptedFile<IndexData> | null = null;
+  private embeddings: EmbeddingProvider | null;
+  private selectors: SelectorRegistry;
+  private prompts: PromptLibrary;
+  // Document ids seen in the listing, mapped to their URLs.
+  private documentUrls = new Map<string, string>();
+  // Subscribed resource URIs and the hash of their content when last checked.
+  private subscriptions = new Map<string, string>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: Config, selectors: SelectorRegistry, prompts: PromptLibrary) {
+    this.config = config;
+    this.selectors = selectors;
+    this.prompts = prompts;
 
-  constructor() {
+    // The session file is encrypted with the dedicated session key, falling
+    // back to the account password; without either nothing is persisted.
+    const passphrase = config.sessionKey ?? config.password;
+    if (passphrase) {
+      this.sessionStore = new SessionStore(config.sessionFile, passphrase);
+      this.contentIndex = new EncryptedFile(config.indexFile, passphrase);
+    }
+    this.embeddings = config.embeddingCommand
+      ? new CommandEmbeddingProvider(config.embeddingCommand, config.toolTimeout)
+      : null;
+    this.pool = new PagePool(() => this.createPage(), config.poolSize, config.queueLimit);
     this.server = new Server(
       {
         name: "proton-docs-mcp",
@@ -102,6 +605,8 @@ class ProtonDocsServer {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
+          prompts: {},
         },
       }
     );
@@ -109,21 +614,234 @@ class ProtonDocsServer {
     this.setupHandlers();
   }
 
-  private async ensureBrowser() {
-    if (!this.browser) {
-      this.browser = await puppeteer.launch({
-        headless: false, // Set to true for production
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-        // Uncomment to use existing Chrome profile
-        // userDataDir: '/path/to/chrome/profile',
+  private launchOptions(): PuppeteerLaunchOptions {
+    const args = [...this.config.browserArgs];
+    if (!this.config.sandbox) {
+      args.push('--no-sandbox', '--disable-setuid-sandbox');
+    }
+    return {
+      headless: this.config.headless,
+      executablePath: this.config.chromePath,
+      userDataDir: this.config.userDataDir,
+      slowMo: this.config.slowMo,
+      timeout: this.config.timeout,
+      args,
+      defaultViewport: {
+        width: this.config.viewportWidth,
+        height: this.config.viewportHeight,
+      },
+    };
+  }
+
+  /**
+   * Return the running browser, launching a new one if there is none or the
+   * previous one crashed or was closed. Concurrent callers share one launch.
+   */
+  private async ensureBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return this.browser;
+    if (!this.launching) {
+      this.launching = (async () => {
+        this.log('launching browser');
+        const browser = await puppeteer.launch(this.launchOptions());
+        monitorBrowser(browser, () => this.handleBrowserDisconnect(browser));
+        this.browser = browser;
+        return browser;
+      })().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private handleBrowserDisconnect(browser: Browser) {
+    // stop() detaches the browser before closing it on purpose.
+    if (this.browser !== browser) return;
+    this.log('browser disconnected; relaunching on the next tool call');
+    this.browser = null;
+    this.pool.clear();
+  }
+
+  // Open a new tab for the page pool, carrying over the saved session.
+  private async createPage(): Promise<Page> {
+    const browser = await this.ensureBrowser();
+    const page = await browser.newPage();
+    monitorPage(page, (reason) => {
+      this.crashedPages.add(page);
+      this.log(`discarding tab: ${reason}`);
+      this.pool.discard(page);
+    });
+    page.setDefaultTimeout(this.config.timeout);
+    page.setDefaultNavigationTimeout(this.config.timeout);
+    // Under `npm run dev`, tsx wraps nested functions in `__name()` calls,
+    // which break functions serialized into the page (see content.ts).
+    await page.evaluateOnNewDocument('globalThis.__name = globalThis.__name || ((fn) => fn);');
+    await this.restoreSavedSession(page);
+    return page;
+  }
+
+  private async restoreSavedSession(page: Page) {
+    if (!this.sessionStore) return;
+    try {
+      const state = this.sessionStore.load();
+      if (state) {
+        await restoreSession(page, state);
+        this.log(`restored session saved at ${state.savedAt}`);
+      }
+    } catch (error) {
+      // A stale or undecryptable session is replaced by the next login.
+      this.log(`ignoring saved session: ${error}`);
+    }
+  }
+
+  private async persistSession(page?: Page) {
+    if (!this.sessionStore || !this.browser) return;
+    page = page ?? (await this.browser.pages()).find((candidate) => !candidate.isClosed());
+    if (!page) return;
+    this.sessionStore.save(await captureSession(page));
+    this.sessionSavedAt = Date.now();
+    this.log('session saved');
+  }
+
+  // Refresh the saved session now and then so a relaunch after a crash
+  // restores cookies Proton has rotated since the last login.
+  private async refreshSavedSession(page: Page) {
+    if (Date.now() - this.sessionSavedAt < SESSION_REFRESH_INTERVAL) return;
+    await this.persistSession(page).catch((error) => this.log(`could not save session: ${error}`));
+  }
+
+  private async login(page: Page) {
+    const { email, password, totpSecret } = this.config;
+    if (!email || !password) {
+      throw new LoginError(
+        'Proton sign-in required: set PROTON_EMAIL and PROTON_PASSWORD, or use a logged-in userDataDir'
+      );
+    }
+
+    // Tabs share cookies, so concurrent calls that hit the sign-in page wait
+    // for a single login instead of each submitting the form.
+    if (!this.loginInFlight) {
+      this.log(`signing in as ${email}`);
+      this.loginInFlight = (async () => {
+        await performLogin(page, this.selectors, { email, password, totpSecret }, this.config.timeout);
+        await this.persistSession(page);
+      })().finally(() => {
+        this.loginInFlight = null;
       });
     }
-    if (!this.page) {
-      this.page = await this.browser.newPage();
-      await this.page.setViewport({ width: 1280, height: 800 });
+    await this.loginInFlight;
+  }
+
+  private log(message: string) {
+    if (this.config.debug) {
+      console.error(`[proton-docs-mcp] ${message}`);
+    }
+  }
+
+  // Retry an idempotent browser step using the configured retry policy.
+  private async withRetry<T>(
+    label: string,
+    operation: () => Promise<T>,
+    retries = this.config.maxRetries,
+    shouldRetry?: (error: unknown) => boolean
+  ): Promise<T> {
+    return retry(operation, {
+      retries,
+      baseDelay: this.config.retryDelay,
+      maxDelay: this.config.retryMaxDelay,
+    }, {
+      shouldRetry,
+      onRetry: (error, attempt, delay) =>
+        this.log(`${label} failed (attempt ${attempt}): ${error}; retrying in ${delay}ms`),
+    });
+  }
+
+  /**
+   * Run a tool handler under its time limit, retrying internal failures
+   * according to the per-tool settings. Read-only tools retry any internal
+   * failure; other tools only retry when the call failed before loading a
+   * page, unless the config sets their retries.
+   */
+  private async runTool<T>(name: string, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const settings = this.config.tools[name] ?? {};
+    return runTool(name, operation, {
+      timeout: settings.timeout ?? TOOL_TIMEOUTS[name] ?? this.config.toolTimeout,
+      retry: {
+        retries: settings.retries ?? this.config.maxRetries,
+        baseDelay: this.config.retryDelay,
+        maxDelay: this.config.retryMaxDelay,
+      },
+      anyFailure: settings.retries !== undefined || READ_ONLY_TOOLS.has(name),
+      replayable: REPLAYABLE_TOOLS.has(name),
+    }, {
+      failedBeforeLoad: (error) => this.failedBeforeLoad.has(error),
+      log: (message) => this.log(message),
+    });
+  }
+
+  // Best-effort wait for pending re-renders (menus, dialogs, result lists).
+  private async settle(context: Page | Frame) {
+    await waitForDomSettled(context, { timeout: this.config.timeout });
+  }
+
+  // Wait until an editor change has rendered and been saved by Proton.
+  private async waitForEditorSaved(page: Page, frame: Frame) {
+    await waitForEditorIdle(frame, this.selectors, this.config.timeout);
+    await waitForSaved(page, this.selectors, this.config.timeout);
+  }
+
+  private async navigate(page: Page, url: string) {
+    this.log(`goto ${url}`);
+    const goto = () => this.withRetry(`goto ${url}`, () =>
+      page.goto(url, { waitUntil: 'networkidle2' })
+    );
+
+    await goto();
+    if (await isLoginPage(page, this.selectors)) {
+      await this.login(page);
+      await goto();
+    }
+    const call = this.pageCalls.get(page);
+    if (call) call.loaded = true;
+  }
+
+  private async editorFrame(page: Page): Promise<Frame> {
+    const iframe = await this.selectors.waitFor(page, 'editorFrame');
+    const frame = await iframe.contentFrame();
+    if (!frame) {
+      throw new Error('Editor frame is not attached');
+    }
+    return frame;
+  }
+
+  // Click into the editor so keyboard input lands in the document body.
+  private async focusEditor(page: Page) {
+    const frame = await this.editorFrame(page);
+    const editor = await this.selectors.waitFor(frame, 'mainEditor');
+    await editor.click();
+    return { frame, editor };
+  }
+
+  /**
+   * Insert `content` at the editor selection. Everything is pasted in one
+   * step; typing key by key is only the fallback when the editor ignores
+   * the synthetic paste event.
+   */
+  private async insertContent(editor: ElementHandle<Element>, content: string, format: InputFormat) {
+    const html = format === 'markdown' ? markdownToHtml(content)
+      : format === 'html' ? content
+      : null;
+    const pasted = await editor.evaluate(pasteIntoEditor, html, content);
+    if (!pasted) {
+      this.log('editor ignored the paste event; typing the content instead');
+      await editor.type(content);
     }
   }
 
+  private async openDocumentMenu(page: Page, item: SelectorKey) {
+    await this.selectors.click(page, 'documentMenu');
+    await this.selectors.click(page, item);
+  }
+
   private setupHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
@@ -142,6 +860,31 @@ class ProtonDocsServer {
                 description: "Maximum number of documents to return",
                 default: 20,
               },
+              cursor: {
+                type: "string",
+                description: "nextCursor from a previous call with the same options, to fetch the following page",
+              },
+              sortBy: {
+                type: "string",
+                enum: ["listing", "viewed", "modified", "title"],
+                description: "Sort order; listing keeps the order Proton Docs shows. Other orders read the whole listing first",
+                default: "listing",
+              },
+              order: {
+                type: "string",
+                enum: ["asc", "desc"],
+                description: "Sort direction (default: asc for title, desc for dates)",
+              },
+              filter: {
+                type: "string",
+                enum: ["all", "owned", "shared_with_me"],
+                description: "Only documents you own, or only documents others shared with you",
+                default: "all",
+              },
+              modifiedAfter: {
+                type: "string",
+                description: "Only documents modified after this ISO 8601 date",
+              },
             },
           },
         },
@@ -155,6 +898,12 @@ class ProtonDocsServer {
                 type: "string",
                 description: "URL of the document to read",
               },
+              format: {
+                type: "string",
+                enum: ["markdown", "text", "html", "json", "chunks"],
+                description: "Output format: Markdown (headings, lists, tables, code, links), plain text with paragraph breaks, HTML without editor styling, a JSON block tree with stable block ids (see apply_document_ast), or the heading-delimited chunks query_documents searches",
+                default: "markdown",
+              },
             },
             required: ["documentUrl"],
           },
@@ -173,116 +922,338 @@ class ProtonDocsServer {
                 type: "string",
                 description: "Initial content of the document",
               },
+              format: {
+                type: "string",
+                enum: ["markdown", "text", "html"],
+                description: "How to interpret content: Markdown is converted to rich formatting (headings, lists, emphasis, links, code, tables), text is inserted as plain paragraphs, html is pasted as is",
+                default: "text",
+              },
+              folder: {
+                type: "string",
+                description: "Folder to put the new document in, as a path such as \"Specs/2025\" (default: My files)",
+              },
+              folderId: {
+                type: "string",
+                description: "Folder id to put the new document in, instead of folder",
+              },
             },
             required: ["title"],
           },
         },
         {
-          name: "search_documents",
-          description: "Search for documents in Proton Docs",
+          name: "import_document",
+          description: "Create a new document from a local DOCX, Markdown, HTML or plain-text file, keeping headings, lists, tables, links and images",
           inputSchema: {
             type: "object",
             properties: {
-              query: {
+              path: {
                 type: "string",
-                description: "Search query",
+                description: "Path of the file to import",
               },
-            },
-            required: ["query"],
-          },
-        },
-        {
-          name: "edit_document",
-          description: "Edit an existing document in Proton Docs",
-          inputSchema: {
-            type: "object",
-            properties: {
-              documentUrl: {
+              data: {
                 type: "string",
-                description: "URL of the document to edit",
+                description: "Base64-encoded file content, instead of path",
               },
-              content: {
+              filename: {
                 type: "string",
-                description: "New content to add or replace",
+                description: "Original file name when passing data; used to detect the format and default title",
               },
-              append: {
-                type: "boolean",
-                description: "Whether to append content or replace it",
-                default: false,
+              format: {
+                type: "string",
+                enum: ["docx", "markdown", "html", "text"],
+                description: "File format; detected from the file extension when omitted",
+              },
+              title: {
+                type: "string",
+                description: "Title of the new document (default: the file name without extension)",
+              },
+              folder: {
+                type: "string",
+                description: "Folder to put the new document in, as a path such as \"Specs/2025\" (default: My files)",
+              },
+              folderId: {
+                type: "string",
+                description: "Folder id to put the new document in, instead of folder",
               },
             },
-            required: ["documentUrl", "content"],
           },
         },
         {
-          name: "delete_document",
-          description: "Delete a document (move to trash or permanently delete)",
+          name: "sync_directory",
+          description: "Two-way sync between a local directory of Markdown files and Proton Docs. New files become documents, local edits are pushed, edits made in Proton Docs are pulled back, and files changed on both sides are reported as conflicts. The file-to-document mapping is kept in .proton-docs-sync.json in the directory. Run with dryRun first to see the plan.",
           inputSchema: {
             type: "object",
             properties: {
-              documentUrl: {
+              directory: {
                 type: "string",
-                description: "URL of the document to delete",
+                description: "Local directory containing .md files (searched recursively)",
               },
-              permanent: {
+              dryRun: {
                 type: "boolean",
-                description: "Whether to permanently delete (requires document to be in trash)",
+                description: "Only report what would be created, pushed and pulled",
                 default: false,
               },
+              conflict: {
+                type: "string",
+                enum: ["skip", "local", "remote"],
+                description: "For files changed on both sides: leave both alone, keep the local file, or keep the document",
+                default: "skip",
+              },
             },
-            required: ["documentUrl"],
+            required: ["directory"],
           },
         },
         {
-          name: "share_document",
-          description: "Share a document with another user",
+          name: "search_documents",
+          description: "Search for documents in Proton Docs. Title mode uses the Proton Docs search box. Content mode searches document bodies through a local encrypted index and returns ranked results with highlighted snippets",
           inputSchema: {
             type: "object",
             properties: {
-              documentUrl: {
+              query: {
                 type: "string",
-                description: "URL of the document to share",
+                description: "Search query. In content mode: words are ANDed; use \"quoted phrases\", OR, NOT or -word, and parentheses",
               },
-              email: {
+              mode: {
                 type: "string",
-                description: "Email address to share with",
+                enum: ["title", "content"],
+                description: "Search titles, or the full text of documents",
+                default: "title",
               },
-              permission: {
-                type: "string",
-                enum: ["view", "edit"],
-                description: "Permission level",
-                default: "view",
+              limit: {
+                type: "number",
+                description: "Maximum number of content results",
+                default: 10,
+              },
+              refresh: {
+                type: "boolean",
+                description: "Content mode: re-read documents modified since they were indexed before searching",
+                default: true,
               },
             },
-            required: ["documentUrl", "email"],
+            required: ["query"],
           },
         },
         {
-          name: "format_text",
-          description: "Apply text formatting (bold, italic, underline, strikethrough)",
+          name: "query_documents",
+          description: "Find the passages most relevant to a question across all documents, for answering with citations. Documents are split into chunks at their headings; the best chunks are returned with their document, heading path and anchor",
           inputSchema: {
             type: "object",
             properties: {
-              documentUrl: {
+              query: {
                 type: "string",
-                description: "URL of the document",
+                description: "Question or keywords",
               },
-              format: {
-                type: "string",
-                enum: ["bold", "italic", "underline", "strikethrough"],
-                description: "Format to apply",
+              limit: {
+                type: "number",
+                description: "Number of chunks to return",
+                default: 5,
               },
-              selection: {
-                type: "string",
-                description: "Text to select before formatting (optional)",
+              documentUrls: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only search these documents",
+              },
+              refresh: {
+                type: "boolean",
+                description: "Re-read documents modified since they were indexed before searching",
+                default: true,
               },
             },
-            required: ["documentUrl", "format"],
+            required: ["query"],
           },
         },
         {
-          name: "create_list",
-          description: "Create a bullet or numbered list",
+          name: "index_documents",
+          description: "Build or refresh the local content search index by reading every document modified since it was last indexed",
+          inputSchema: {
+            type: "object",
+            properties: {
+              full: {
+                type: "boolean",
+                description: "Discard the index and read every document again",
+                default: false,
+              },
+            },
+          },
+        },
+        {
+          name: "edit_document",
+          description: "Edit an existing document in Proton Docs",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to edit",
+              },
+              content: {
+                type: "string",
+                description: "New content to add or replace",
+              },
+              append: {
+                type: "boolean",
+                description: "Whether to append content or replace it",
+                default: false,
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "text", "html"],
+                description: "How to interpret content: Markdown is converted to rich formatting (headings, lists, emphasis, links, code, tables), text is inserted as plain paragraphs, html is pasted as is",
+                default: "text",
+              },
+              suggest: {
+                type: "boolean",
+                description: "Make the change in suggestion mode, so collaborators can accept or reject it",
+                default: false,
+              },
+            },
+            required: ["documentUrl", "content"],
+          },
+        },
+        {
+          name: "apply_document_ast",
+          description: "Replace a document's content with a JSON block tree as returned by read_document with format \"json\"",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to overwrite",
+              },
+              ast: {
+                type: "object",
+                description: `Document tree { version: ${AST_VERSION}, blocks: [...] }. Blocks are paragraph, heading, list, table, code, quote and rule; inline nodes are text (with marks and href), break and image. Block ids are optional and ignored.`,
+                properties: {
+                  version: { type: "number", default: AST_VERSION },
+                  blocks: { type: "array", items: { type: "object" } },
+                },
+                required: ["blocks"],
+              },
+            },
+            required: ["documentUrl", "ast"],
+          },
+        },
+        {
+          name: "replace_text",
+          description: "Replace text in a document without touching the rest of its content or formatting",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to edit",
+              },
+              find: {
+                type: "string",
+                description: "Text to find, or a JavaScript regular expression when regex is true. Matches never span paragraphs or line breaks.",
+              },
+              replace: {
+                type: "string",
+                description: "Replacement text; with regex, $1 and $<name> refer to capture groups",
+              },
+              regex: {
+                type: "boolean",
+                description: "Treat find as a regular expression",
+                default: false,
+              },
+              caseSensitive: {
+                type: "boolean",
+                description: "Match case exactly",
+                default: true,
+              },
+              all: {
+                type: "boolean",
+                description: "Replace every occurrence instead of only the first",
+                default: false,
+              },
+              suggest: {
+                type: "boolean",
+                description: "Make the change in suggestion mode, so collaborators can accept or reject it",
+                default: false,
+              },
+            },
+            required: ["documentUrl", "find", "replace"],
+          },
+        },
+        {
+          name: "insert_content",
+          description: "Insert content before or after a heading or the paragraph containing some anchor text",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to edit",
+              },
+              content: {
+                type: "string",
+                description: "Content to insert",
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "text", "html"],
+                description: "How to interpret content (see edit_document)",
+                default: "markdown",
+              },
+              heading: {
+                type: "string",
+                description: "Text of the heading to insert relative to (case-insensitive)",
+              },
+              anchor: {
+                type: "string",
+                description: "Text contained in the paragraph to insert relative to; used instead of heading",
+              },
+              position: {
+                type: "string",
+                enum: ["before", "after", "section_end"],
+                description: "Insert before or after the heading or paragraph, or at the end of the heading's section",
+                default: "after",
+              },
+              suggest: {
+                type: "boolean",
+                description: "Make the change in suggestion mode, so collaborators can accept or reject it",
+                default: false,
+              },
+            },
+            required: ["documentUrl", "content"],
+          },
+        },
+        {
+          name: "replace_section",
+          description: "Replace the body of a section, from below its heading up to the next heading of the same or higher level",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to edit",
+              },
+              heading: {
+                type: "string",
+                description: "Text of the section heading (case-insensitive); the heading itself is kept",
+              },
+              content: {
+                type: "string",
+                description: "New section body",
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "text", "html"],
+                description: "How to interpret content (see edit_document)",
+                default: "markdown",
+              },
+              suggest: {
+                type: "boolean",
+                description: "Make the change in suggestion mode, so collaborators can accept or reject it",
+                default: false,
+              },
+            },
+            required: ["documentUrl", "heading", "content"],
+          },
+        },
+        {
+          name: "list_comments",
+          description: "List the comment and suggestion threads of a document with their anchor text, authors, times, replies and resolved state",
           inputSchema: {
             type: "object",
             properties: {
@@ -290,23 +1261,50 @@ class ProtonDocsServer {
                 type: "string",
                 description: "URL of the document",
               },
-              listType: {
+              includeResolved: {
+                type: "boolean",
+                description: "Include resolved threads",
+                default: true,
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "add_comment",
+          description: "Start a comment thread on a span of document text",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
                 type: "string",
-                enum: ["bullet", "numbered"],
-                description: "Type of list to create",
+                description: "URL of the document",
               },
-              items: {
-                type: "array",
-                items: { type: "string" },
-                description: "List items",
+              anchorText: {
+                type: "string",
+                description: "Exact text to comment on; it cannot span paragraphs or line breaks",
+              },
+              comment: {
+                type: "string",
+                description: "Comment text",
+              },
+              occurrence: {
+                type: "number",
+                description: "Which occurrence of anchorText to comment on, starting at 1",
+                default: 1,
+              },
+              caseSensitive: {
+                type: "boolean",
+                description: "Match anchorText's case exactly",
+                default: true,
               },
             },
-            required: ["documentUrl", "listType", "items"],
+            required: ["documentUrl", "anchorText", "comment"],
           },
         },
         {
-          name: "insert_link",
-          description: "Insert a hyperlink in the document",
+          name: "reply_comment",
+          description: "Reply to a comment or suggestion thread",
           inputSchema: {
             type: "object",
             properties: {
@@ -314,21 +1312,21 @@ class ProtonDocsServer {
                 type: "string",
                 description: "URL of the document",
               },
-              text: {
+              threadId: {
                 type: "string",
-                description: "Link text",
+                description: "Thread id as returned by list_comments",
               },
-              url: {
+              reply: {
                 type: "string",
-                description: "Target URL",
+                description: "Reply text",
               },
             },
-            required: ["documentUrl", "text", "url"],
+            required: ["documentUrl", "threadId", "reply"],
           },
         },
         {
-          name: "change_font",
-          description: "Change font family or size",
+          name: "resolve_comment",
+          description: "Mark a comment thread as resolved",
           inputSchema: {
             type: "object",
             properties: {
@@ -336,59 +1334,110 @@ class ProtonDocsServer {
                 type: "string",
                 description: "URL of the document",
               },
-              fontFamily: {
+              threadId: {
                 type: "string",
-                description: "Font family (e.g., Arial, Times New Roman)",
+                description: "Thread id as returned by list_comments",
               },
-              fontSize: {
-                type: "number",
-                description: "Font size in pixels",
+            },
+            required: ["documentUrl", "threadId"],
+          },
+        },
+        {
+          name: "delete_document",
+          description: "Delete a document (move to trash or permanently delete)",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to delete",
+              },
+              title: {
+                type: "string",
+                description: "Title of a document already in the trash, instead of documentUrl (permanent deletion only)",
+              },
+              permanent: {
+                type: "boolean",
+                description: "Delete permanently instead of moving to the trash. Documents not yet in the trash are moved there first",
+                default: false,
               },
             },
-            required: ["documentUrl"],
           },
         },
         {
-          name: "download_document",
-          description: "Download a document in various formats",
+          name: "list_trash",
+          description: "List the documents in the trash with the date they were deleted",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
+        },
+        {
+          name: "restore_document",
+          description: "Restore a document from the trash to the folder it was deleted from",
           inputSchema: {
             type: "object",
             properties: {
               documentUrl: {
                 type: "string",
-                description: "URL of the document to download",
+                description: "URL of the trashed document",
               },
-              format: {
+              title: {
                 type: "string",
-                enum: ["docx", "pdf", "txt", "markdown"],
-                description: "Download format",
-                default: "docx",
+                description: "Title of the trashed document, instead of documentUrl",
               },
             },
-            required: ["documentUrl"],
           },
         },
         {
-          name: "copy_document",
-          description: "Make a copy of a document",
+          name: "empty_trash",
+          description: "Permanently delete everything in the trash. Call without confirm first: the response lists what would be deleted and a confirmToken; call again with confirm set to that token to empty the trash",
+          inputSchema: {
+            type: "object",
+            properties: {
+              confirm: {
+                type: "string",
+                description: "confirmToken from a previous call",
+              },
+            },
+          },
+        },
+        {
+          name: "share_document",
+          description: "Share a document with another user",
           inputSchema: {
             type: "object",
             properties: {
               documentUrl: {
                 type: "string",
-                description: "URL of the document to copy",
+                description: "URL of the document to share",
               },
-              newTitle: {
+              email: {
                 type: "string",
-                description: "Title for the copy",
+                description: "Email address to share with",
+              },
+              emails: {
+                type: "array",
+                items: { type: "string" },
+                description: "Several email addresses to share with, instead of email",
+              },
+              permission: {
+                type: "string",
+                enum: ["view", "edit"],
+                description: "Permission level",
+                default: "view",
+              },
+              message: {
+                type: "string",
+                description: "Message included in the invitation email",
               },
             },
-            required: ["documentUrl", "newTitle"],
+            required: ["documentUrl"],
           },
         },
         {
-          name: "get_version_history",
-          description: "View version history of a document",
+          name: "get_sharing",
+          description: "List who has access to a document, with roles and pending invitations, and the public link settings",
           inputSchema: {
             type: "object",
             properties: {
@@ -401,8 +1450,8 @@ class ProtonDocsServer {
           },
         },
         {
-          name: "set_alignment",
-          description: "Set text alignment",
+          name: "set_member_role",
+          description: "Change the role of someone the document is shared with",
           inputSchema: {
             type: "object",
             properties: {
@@ -410,839 +1459,3571 @@ class ProtonDocsServer {
                 type: "string",
                 description: "URL of the document",
               },
-              alignment: {
+              email: {
                 type: "string",
-                enum: ["left", "center", "right", "justify"],
-                description: "Text alignment",
+                description: "Email address of the member or invitee",
+              },
+              role: {
+                type: "string",
+                enum: ["viewer", "editor"],
+                description: "New role",
               },
             },
-            required: ["documentUrl", "alignment"],
+            required: ["documentUrl", "email", "role"],
           },
         },
-      ],
-    }));
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        case "list_documents":
-          return await this.listDocuments(request.params.arguments);
-        case "read_document":
-          return await this.readDocument(request.params.arguments);
-        case "create_document":
-          return await this.createDocument(request.params.arguments);
-        case "search_documents":
-          return await this.searchDocuments(request.params.arguments);
-        case "edit_document":
-          return await this.editDocument(request.params.arguments);
-        case "delete_document":
-          return await this.deleteDocument(request.params.arguments);
-        case "share_document":
-          return await this.shareDocument(request.params.arguments);
-        case "format_text":
-          return await this.formatText(request.params.arguments);
-        case "create_list":
-          return await this.createList(request.params.arguments);
-        case "insert_link":
-          return await this.insertLink(request.params.arguments);
-        case "change_font":
-          return await this.changeFont(request.params.arguments);
-        case "download_document":
-          return await this.downloadDocument(request.params.arguments);
-        case "copy_document":
-          return await this.copyDocument(request.params.arguments);
-        case "get_version_history":
-          return await this.getVersionHistory(request.params.arguments);
-        case "set_alignment":
-          return await this.setAlignment(request.params.arguments);
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
-    });
-  }
-
-  private async listDocuments(args: unknown) {
-    const params = ListDocumentsSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      await this.page!.goto('https://docs.proton.me/u/1/recents', {
-        waitUntil: 'networkidle2',
-      });
-
-      await this.page!.waitForSelector('table', { timeout: 10000 });
-
-      if (params.searchQuery) {
-        await this.page!.type('input[placeholder*="Search"]', params.searchQuery);
-        await this.page!.keyboard.press('Enter');
-        await this.page!.waitForTimeout(1000);
-      }
-
-      const documents = await this.page!.evaluate((limit) => {
-        const rows = document.querySelectorAll('tbody tr');
-        const docs = [];
-        
-        for (let i = 0; i < Math.min(rows.length, limit); i++) {
-          const row = rows[i];
-          const titleCell = row.querySelector('td:first-child');
-          const viewedCell = row.querySelector('td:nth-child(2)');
-          const createdByCell = row.querySelector('td:nth-child(3)');
-          const locationCell = row.querySelector('td:nth-child(4)');
-          
-          if (titleCell) {
-            docs.push({
-              title: titleCell.textContent?.trim() || 'Untitled',
-              viewed: viewedCell?.textContent?.trim() || '',
-              createdBy: createdByCell?.textContent?.trim() || '',
-              location: locationCell?.textContent?.trim() || '',
-              url: row.getAttribute('data-url') || '',
-            });
+        {
+          name: "revoke_access",
+          description: "Remove someone's access to a document, or cancel their pending invitation",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              email: {
+                type: "string",
+                description: "Email address of the member or invitee",
+              },
+            },
+            required: ["documentUrl", "email"],
+          },
+        },
+        {
+          name: "create_public_link",
+          description: "Turn on the document's public link, or update its expiry and password, and return the link",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              expiresAt: {
+                type: "string",
+                description: "Date the link stops working (ISO 8601, in the future)",
+              },
+              password: {
+                type: "string",
+                description: "Password required to open the link",
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "disable_public_link",
+          description: "Turn off the document's public link",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "format_text",
+          description: "Apply text formatting (bold, italic, underline, strikethrough)",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              format: {
+                type: "string",
+                enum: ["bold", "italic", "underline", "strikethrough"],
+                description: "Format to apply",
+              },
+              selection: {
+                type: "string",
+                description: "Text to select before formatting (optional)",
+              },
+            },
+            required: ["documentUrl", "format"],
+          },
+        },
+        {
+          name: "create_list",
+          description: "Create a bullet or numbered list",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              listType: {
+                type: "string",
+                enum: ["bullet", "numbered"],
+                description: "Type of list to create",
+              },
+              items: {
+                type: "array",
+                items: { type: "string" },
+                description: "List items",
+              },
+            },
+            required: ["documentUrl", "listType", "items"],
+          },
+        },
+        {
+          name: "insert_link",
+          description: "Insert a hyperlink in the document",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              text: {
+                type: "string",
+                description: "Link text",
+              },
+              url: {
+                type: "string",
+                description: "Target URL",
+              },
+            },
+            required: ["documentUrl", "text", "url"],
+          },
+        },
+        {
+          name: "change_font",
+          description: "Change font family or size",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              fontFamily: {
+                type: "string",
+                description: "Font family (e.g., Arial, Times New Roman)",
+              },
+              fontSize: {
+                type: "number",
+                description: "Font size in pixels",
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "download_document",
+          description: "Download a document in various formats and report the saved file's path, size, MIME type and SHA-256",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to download",
+              },
+              format: {
+                type: "string",
+                enum: ["docx", "pdf", "txt", "markdown"],
+                description: "Download format",
+                default: "docx",
+              },
+              inline: {
+                type: "boolean",
+                description: "Also return the file content as an embedded resource (text for txt/markdown, base64 for docx/pdf)",
+                default: false,
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "export_all",
+          description: "Back up every document in the account to a local folder, mirroring the folder structure and writing a manifest.json. Incremental by default: documents unchanged since the last export are skipped.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              outputDir: {
+                type: "string",
+                description: "Export directory (default: <downloadDir>/export)",
+              },
+              format: {
+                type: "string",
+                enum: [...EXPORT_FORMATS],
+                description: "Format of the exported files",
+                default: "docx",
+              },
+              incremental: {
+                type: "boolean",
+                description: "Only re-export documents changed since the manifest in outputDir was written",
+                default: true,
+              },
+            },
+          },
+        },
+        {
+          name: "list_folder",
+          description: "List the subfolders and documents of a Proton Drive folder, with their ids and full paths",
+          inputSchema: {
+            type: "object",
+            properties: {
+              folder: {
+                type: "string",
+                description: "Folder path such as \"Specs/2025\" (default: My files)",
+              },
+              folderId: {
+                type: "string",
+                description: "Folder id, instead of folder",
+              },
+            },
+          },
+        },
+        {
+          name: "create_folder",
+          description: "Create a folder in Proton Drive",
+          inputSchema: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Name of the new folder",
+              },
+              parent: {
+                type: "string",
+                description: "Path of the folder to create it in (default: My files)",
+              },
+              parentId: {
+                type: "string",
+                description: "Id of the folder to create it in, instead of parent",
+              },
+            },
+            required: ["name"],
+          },
+        },
+        {
+          name: "rename_folder",
+          description: "Rename a Proton Drive folder",
+          inputSchema: {
+            type: "object",
+            properties: {
+              folder: {
+                type: "string",
+                description: "Path of the folder to rename",
+              },
+              folderId: {
+                type: "string",
+                description: "Id of the folder to rename, instead of folder",
+              },
+              newName: {
+                type: "string",
+                description: "New folder name",
+              },
+            },
+            required: ["newName"],
+          },
+        },
+        {
+          name: "delete_folder",
+          description: "Move a Proton Drive folder, including everything in it, to the trash",
+          inputSchema: {
+            type: "object",
+            properties: {
+              folder: {
+                type: "string",
+                description: "Path of the folder to delete",
+              },
+              folderId: {
+                type: "string",
+                description: "Id of the folder to delete, instead of folder",
+              },
+            },
+          },
+        },
+        {
+          name: "move_document",
+          description: "Move a document to another Proton Drive folder",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to move",
+              },
+              folder: {
+                type: "string",
+                description: "Path of the destination folder; \"My files\" for the root",
+              },
+              folderId: {
+                type: "string",
+                description: "Id of the destination folder, instead of folder",
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "copy_document",
+          description: "Make a copy of a document",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document to copy",
+              },
+              newTitle: {
+                type: "string",
+                description: "Title for the copy",
+              },
+            },
+            required: ["documentUrl", "newTitle"],
+          },
+        },
+        {
+          name: "get_version_history",
+          description: "View version history of a document, newest first, with an id for each version",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+            },
+            required: ["documentUrl"],
+          },
+        },
+        {
+          name: "read_version",
+          description: "Read the content of an earlier version of a document",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              versionId: {
+                type: "string",
+                description: "Version id as returned by get_version_history",
+              },
+              format: {
+                type: "string",
+                enum: ["markdown", "text"],
+                default: "markdown",
+                description: "Output format",
+              },
+            },
+            required: ["documentUrl", "versionId"],
+          },
+        },
+        {
+          name: "diff_versions",
+          description: "Compare two versions of a document, or a version with the current content",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              from: {
+                type: "string",
+                description: "Id of the older version, as returned by get_version_history",
+              },
+              to: {
+                type: "string",
+                default: "current",
+                description: 'Id of the newer version, or "current" for the document as it is now',
+              },
+              mode: {
+                type: "string",
+                enum: ["unified", "words"],
+                default: "unified",
+                description: "unified: line diff of the Markdown; words: word-level diff of the plain text",
+              },
+              context: {
+                type: "number",
+                default: 3,
+                description: "Unchanged lines shown around each change in unified mode",
+              },
+            },
+            required: ["documentUrl", "from"],
+          },
+        },
+        {
+          name: "restore_version",
+          description: "Roll a document back to an earlier version. Proton keeps the current content as a new version.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              versionId: {
+                type: "string",
+                description: "Version id as returned by get_version_history",
+              },
+            },
+            required: ["documentUrl", "versionId"],
+          },
+        },
+        {
+          name: "set_alignment",
+          description: "Set text alignment",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "URL of the document",
+              },
+              alignment: {
+                type: "string",
+                enum: ["left", "center", "right", "justify"],
+                description: "Text alignment",
+              },
+            },
+            required: ["documentUrl", "alignment"],
+          },
+        },
+        {
+          name: "check_selectors",
+          description: "Report which UI elements the server relies on can be found on the current page",
+          inputSchema: {
+            type: "object",
+            properties: {
+              documentUrl: {
+                type: "string",
+                description: "Optional URL to open before checking (defaults to the documents list)",
+              },
+            },
+          },
+        },
+      ],
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.runTool(request.params.name, (signal) =>
+        this.callTool(request.params.name, request.params.arguments, signal)
+      )
+    );
+
+    // Resource requests share the tab pool, time limits and retry policy of
+    // tools, under their method names.
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+      this.runTool('resources/list', (signal) =>
+        this.withPage('resources/list', null, (page) => this.listResources(page, request.params?.cursor), signal)
+      )
+    );
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const ref = this.resourceRef(uri);
+      return this.runTool('resources/read', (signal) =>
+        this.withPage('resources/read', null, (page) => this.readResource(page, uri, ref), signal)
+      );
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const ref = this.resourceRef(uri);
+      if (ref.kind !== 'doc') {
+        throw new McpError(ErrorCode.InvalidParams, 'Only document resources (protondocs://doc/<id>) can be subscribed to');
+      }
+      await this.runTool('resources/subscribe', (signal) =>
+        this.withPage('resources/subscribe', null, (page) => this.subscribeResource(page, uri, ref), signal)
+      );
+      return {};
+    });
+
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.prompts.list().map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      })),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      try {
+        return this.prompts.render(request.params.name, request.params.arguments);
+      } catch (error) {
+        if (error instanceof PromptError) throw new McpError(ErrorCode.InvalidParams, error.message);
+        throw error;
+      }
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      if (this.subscriptions.size === 0 && this.pollTimer) {
+        clearInterval(this.pollTimer);
+        this.pollTimer = null;
+      }
+      return {};
+    });
+  }
+
+  /**
+   * Run a tool on a pooled tab. Mutating tools hold a per-document lock so
+   * two writes to the same document never interleave; reads run freely.
+   */
+  private async callTool(name: string, args: unknown, signal?: AbortSignal) {
+    const handler = this.toolHandler(name, args);
+    const lockKey = WRITE_TOOLS.has(name) ? documentLockKey(args) : null;
+    return this.withPage(name, lockKey, handler, signal);
+  }
+
+  /**
+   * Run `operation` under the lock of document `url`, for tools that visit
+   * many documents and must not read or write one while a write to it runs.
+   */
+  private async withDocumentLock<T>(url: string, operation: () => Promise<T>): Promise<T> {
+    return this.documentLocks.run(documentLockKey({ documentUrl: url }), operation);
+  }
+
+  private async withPage<T>(
+    name: string,
+    lockKey: string | null,
+    operation: (page: Page) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    // Nothing in the document can have changed until the first page load
+    // finished, so a failure before then is recorded as safe to retry.
+    const call = { loaded: false };
+    try {
+      return await this.documentLocks.run(
+        lockKey,
+        () => this.pool.use(async (page) => {
+          this.pageCalls.set(page, call);
+          try {
+            const result = await operation(page);
+            await this.refreshSavedSession(page);
+            return result;
+          } catch (error) {
+            if (this.crashedPages.has(page) || !page.browser().connected || isTargetClosedError(error)) {
+              throw new BrowserCrashedError(`Browser tab died during ${name}: ${error}`);
+            }
+            throw error;
+          }
+        }, signal),
+        signal
+      );
+    } catch (error) {
+      if (!call.loaded && error instanceof Object) this.failedBeforeLoad.add(error);
+      throw error;
+    }
+  }
+
+
+  /**
+   * The handler for tool `name` with its arguments already parsed, so that
+   * invalid arguments are rejected before a browser tab is taken.
+   */
+  private toolHandler(name: string, args: unknown): (page: Page) => Promise<ToolResult> {
+    const withArgs = <S extends z.ZodTypeAny>(
+      schema: S,
+      handler: (page: Page, params: z.infer<S>) => Promise<ToolResult>
+    ) => {
+      const params = parseArguments(schema, args);
+      return (page: Page) => handler.call(this, page, params);
+    };
+
+    switch (name) {
+      case "list_documents":
+        return withArgs(ListDocumentsSchema, this.listDocuments);
+      case "read_document":
+        return withArgs(ReadDocumentSchema, this.readDocument);
+      case "create_document":
+        return withArgs(CreateDocumentSchema, this.createDocument);
+      case "import_document":
+        return withArgs(ImportDocumentSchema, this.importDocument);
+      case "sync_directory":
+        return withArgs(SyncDirectorySchema, this.syncDirectory);
+      case "search_documents":
+        return withArgs(SearchDocumentsSchema, this.searchDocuments);
+      case "query_documents":
+        return withArgs(QueryDocumentsSchema, this.queryDocuments);
+      case "index_documents":
+        return withArgs(IndexDocumentsSchema, this.indexDocuments);
+      case "edit_document":
+        return withArgs(EditDocumentSchema, this.editDocument);
+      case "apply_document_ast":
+        return withArgs(ApplyDocumentAstSchema, this.applyDocumentAst);
+      case "replace_text":
+        return withArgs(ReplaceTextSchema, this.replaceText);
+      case "insert_content":
+        return withArgs(InsertContentSchema, this.insertContentAt);
+      case "replace_section":
+        return withArgs(ReplaceSectionSchema, this.replaceSection);
+      case "list_comments":
+        return withArgs(ListCommentsSchema, this.listComments);
+      case "add_comment":
+        return withArgs(AddCommentSchema, this.addComment);
+      case "reply_comment":
+        return withArgs(ReplyCommentSchema, this.replyComment);
+      case "resolve_comment":
+        return withArgs(ResolveCommentSchema, this.resolveComment);
+      case "delete_document":
+        return withArgs(DeleteDocumentSchema, this.deleteDocument);
+      case "list_trash":
+        return (page) => this.listTrash(page);
+      case "restore_document":
+        return withArgs(RestoreDocumentSchema, this.restoreDocument);
+      case "empty_trash":
+        return withArgs(EmptyTrashSchema, this.emptyTrash);
+      case "share_document":
+        return withArgs(ShareDocumentSchema, this.shareDocument);
+      case "get_sharing":
+        return withArgs(GetSharingSchema, this.getSharing);
+      case "set_member_role":
+        return withArgs(SetMemberRoleSchema, this.setMemberRole);
+      case "revoke_access":
+        return withArgs(RevokeAccessSchema, this.revokeAccess);
+      case "create_public_link":
+        return withArgs(CreatePublicLinkSchema, this.createPublicLink);
+      case "disable_public_link":
+        return withArgs(DisablePublicLinkSchema, this.disablePublicLink);
+      case "format_text":
+        return withArgs(FormatTextSchema, this.formatText);
+      case "create_list":
+        return withArgs(CreateListSchema, this.createList);
+      case "insert_link":
+        return withArgs(InsertLinkSchema, this.insertLink);
+      case "change_font":
+        return withArgs(ChangeFontSchema, this.changeFont);
+      case "download_document":
+        return withArgs(DownloadDocumentSchema, this.downloadDocument);
+      case "export_all":
+        return withArgs(ExportAllSchema, this.exportAll);
+      case "copy_document":
+        return withArgs(CopyDocumentSchema, this.copyDocument);
+      case "list_folder":
+        return withArgs(ListFolderSchema, this.listFolder);
+      case "create_folder":
+        return withArgs(CreateFolderSchema, this.createFolder);
+      case "rename_folder":
+        return withArgs(RenameFolderSchema, this.renameFolder);
+      case "delete_folder":
+        return withArgs(DeleteFolderSchema, this.deleteFolder);
+      case "move_document":
+        return withArgs(MoveDocumentSchema, this.moveDocument);
+      case "get_version_history":
+        return withArgs(GetVersionHistorySchema, this.getVersionHistory);
+      case "read_version":
+        return withArgs(ReadVersionSchema, this.readVersion);
+      case "diff_versions":
+        return withArgs(DiffVersionsSchema, this.diffVersions);
+      case "restore_version":
+        return withArgs(RestoreVersionSchema, this.restoreVersion);
+      case "set_alignment":
+        return withArgs(SetAlignmentSchema, this.setAlignment);
+      case "check_selectors":
+        return withArgs(CheckSelectorsSchema, this.checkSelectors);
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  private async listDocuments(page: Page, params: z.infer<typeof ListDocumentsSchema>) {
+    const offset = this.listingOffset(params);
+
+    try {
+      const { documents, hasMore, nextCursor } = await this.listingPage(page, params, offset);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            documents,
+            count: documents.length,
+            hasMore,
+            nextCursor,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to list documents: ${error}`
+      );
+    }
+  }
+
+  private listingOffset(params: z.infer<typeof ListDocumentsSchema>): number {
+    const { limit, cursor, ...query } = params;
+    if (!cursor) return 0;
+    try {
+      return decodeCursor(cursor, query);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  }
+
+  // One page of the document listing, as list_documents and resources/list return it.
+  private async listingPage(page: Page, params: z.infer<typeof ListDocumentsSchema>, offset: number) {
+    const { limit, cursor, ...query } = params;
+    const { sortBy, order, filter } = query;
+    const modifiedAfter = query.modifiedAfter ? Date.parse(query.modifiedAfter) : null;
+
+    await this.navigate(page, `${this.config.baseUrl}/recents`);
+
+    await this.selectors.waitFor(page, 'documentTable');
+
+    if (params.searchQuery) {
+      const searchInput = await this.selectors.waitFor(page, 'searchInput');
+      await searchInput.type(params.searchQuery);
+      await page.keyboard.press('Enter');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(page);
+    }
+
+    const matches = (doc: ListedDocument) => {
+      if (filter === 'owned' && !doc.ownedByMe) return false;
+      if (filter === 'shared_with_me' && doc.ownedByMe) return false;
+      if (modifiedAfter !== null) {
+        // Without a modified column, the last viewed time is the closest
+        // upper bound the listing offers.
+        const stamp = doc.lastModified ?? doc.lastViewed;
+        if (stamp === null || Date.parse(stamp) <= modifiedAfter) return false;
+      }
+      return true;
+    };
+    const parse = (rows: DocumentRow[]) =>
+      rows.map((row) => toListedDocument(row, this.config.email)).filter(matches);
+
+    // Scroll only as far as this page (plus one row, to know whether there
+    // is a next page) unless sorting needs the whole listing. Half of the
+    // tool time is spent at most, so a partial page can still be returned.
+    const end = offset + limit;
+    const { rows, complete } = await collectRows(page, this.selectors, {
+      timeout: Math.floor(this.config.toolTimeout / 2),
+      enough: sortBy === 'listing' ? (collected) => parse(collected).length > end : undefined,
+    });
+    const found = parse(rows);
+    for (const doc of found) this.documentUrls.set(doc.id, doc.url);
+
+    if (sortBy !== 'listing') {
+      const direction = (order ?? (sortBy === 'title' ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+      const key = (doc: ListedDocument) =>
+        sortBy === 'viewed' ? doc.lastViewed : doc.lastModified ?? doc.lastViewed;
+      found.sort((a, b) => {
+        if (sortBy === 'title') return direction * a.title.localeCompare(b.title);
+        const [x, y] = [key(a), key(b)];
+        if (x === y) return 0;
+        if (x === null) return 1;
+        if (y === null) return -1;
+        return direction * (Date.parse(x) - Date.parse(y));
+      });
+    }
+
+    const documents = found.slice(offset, end);
+    const hasMore = found.length > end || !complete;
+    return { documents, hasMore, nextCursor: hasMore ? encodeCursor(end, query) : null };
+  }
+
+  private async readDocument(page: Page, params: z.infer<typeof ReadDocumentSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+
+      const frame = await this.editorFrame(page);
+      const editor = await this.selectors.waitFor(frame, 'mainEditor');
+      const content = params.format === 'json'
+        ? { version: AST_VERSION, blocks: await editor.evaluate(extractDocumentTree) }
+        : params.format === 'chunks'
+        ? chunkDocument(documentId(params.documentUrl), await editor.evaluate(extractDocumentTree))
+        : params.format === 'html'
+        ? await editor.evaluate(cleanEditorHtml)
+        : await editor.evaluate(serializeEditor, params.format);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            documentUrl: params.documentUrl,
+            format: params.format,
+            content,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read document: ${error}`
+      );
+    }
+  }
+
+  private resourceRef(uri: string): ResourceRef {
+    try {
+      return parseResourceUri(uri);
+    } catch (error) {
+      if (error instanceof ResourceUriError) throw new McpError(ErrorCode.InvalidParams, error.message);
+      throw error;
+    }
+  }
+
+  private async listResources(page: Page, cursor?: string) {
+    const params = ListDocumentsSchema.parse({ limit: RESOURCE_PAGE_SIZE, cursor });
+    const offset = this.listingOffset(params);
+
+    try {
+      const { documents, nextCursor } = await this.listingPage(page, params, offset);
+      return {
+        resources: documents.map((doc) => ({
+          uri: documentUri(doc.id),
+          name: doc.title,
+          description: `Proton document in ${doc.folder || ROOT_FOLDER_NAME}`,
+          mimeType: RESOURCE_MIME_TYPES.markdown,
+        })),
+        ...(nextCursor ? { nextCursor } : {}),
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to list resources: ${error}`
+      );
+    }
+  }
+
+  /**
+   * URL of the document with link id `id`. Ids seen in earlier listings are
+   * remembered; otherwise the listing is scrolled until the document shows up.
+   */
+  private async resolveDocumentUrl(page: Page, id: string): Promise<string> {
+    const known = this.documentUrls.get(id);
+    if (known) return known;
+
+    await this.navigate(page, `${this.config.baseUrl}/recents`);
+    await this.selectors.waitFor(page, 'documentTable');
+    const { rows } = await collectRows(page, this.selectors, {
+      timeout: Math.floor(this.config.toolTimeout / 2),
+      enough: (collected) => collected.some((row) => row.url && documentId(row.url) === id),
+    });
+    for (const row of rows) {
+      if (row.url) this.documentUrls.set(documentId(row.url), row.url);
+    }
+    const url = this.documentUrls.get(id);
+    if (!url) throw new Error(`No document with id ${id}`);
+    return url;
+  }
+
+  private async resourceContent(page: Page, ref: { id: string; format: ResourceFormat }): Promise<string> {
+    await this.navigate(page, await this.resolveDocumentUrl(page, ref.id));
+    const frame = await this.editorFrame(page);
+    const editor = await this.selectors.waitFor(frame, 'mainEditor');
+    return ref.format === 'html'
+      ? editor.evaluate(cleanEditorHtml)
+      : editor.evaluate(serializeEditor, 'markdown');
+  }
+
+  private async readResource(page: Page, uri: string, ref: ResourceRef) {
+    // Folder and search resources carry the JSON of the matching tools.
+    if (ref.kind === 'folder') {
+      const result = await this.listFolder(page, ListFolderSchema.parse({ folder: ref.path }));
+      return { contents: [{ uri, mimeType: 'application/json', text: result.content[0].text }] };
+    }
+    if (ref.kind === 'search') {
+      const result = await this.searchDocuments(page, SearchDocumentsSchema.parse({ query: ref.query }));
+      return { contents: [{ uri, mimeType: 'application/json', text: result.content[0].text }] };
+    }
+
+    try {
+      const text = await this.resourceContent(page, ref);
+      return { contents: [{ uri, mimeType: RESOURCE_MIME_TYPES[ref.format], text }] };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read resource ${uri}: ${error}`
+      );
+    }
+  }
+
+  private async subscribeResource(page: Page, uri: string, ref: { id: string; format: ResourceFormat }) {
+    try {
+      // Read the document once, so the first poll has something to compare with.
+      this.subscriptions.set(uri, contentHash(await this.resourceContent(page, ref)));
+      this.pollTimer ??= setInterval(() => void this.pollSubscriptions(), this.config.pollInterval);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to subscribe to ${uri}: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Re-read every subscribed document and send notifications/resources/updated
+   * for those whose content changed. Runs every `pollInterval`; a poll that
+   * is still running when the next one is due makes that one a no-op.
+   */
+  private async pollSubscriptions() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [uri, hash] of [...this.subscriptions]) {
+        const ref = parseResourceUri(uri);
+        if (ref.kind !== 'doc') continue;
+        try {
+          const content = await this.runTool('resources/subscribe', (signal) =>
+            this.withPage('resources/subscribe', null, (page) => this.resourceContent(page, ref), signal)
+          );
+          const current = contentHash(content);
+          // Skip documents unsubscribed while they were being read.
+          if (current === hash || !this.subscriptions.has(uri)) continue;
+          this.subscriptions.set(uri, current);
+          await this.server.sendResourceUpdated({ uri });
+        } catch (error) {
+          this.log(`could not check ${uri} for changes: ${error}`);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Create an empty document and give it a title.
+  private async openNewDocument(page: Page, title: string) {
+    await this.navigate(page, `${this.config.baseUrl}/doc`);
+
+    await this.selectors.waitFor(page, 'editorFrame');
+    await this.settle(page);
+
+    // Check if rename dialog appears
+    const renameInput = await this.selectors.find(page, 'nameInput');
+    if (renameInput) {
+      await renameInput.click({ clickCount: 3 });
+      await renameInput.type(title);
+      await page.keyboard.press('Enter');
+    } else {
+      // Click on document title to rename
+      await this.openDocumentMenu(page, 'menuRename');
+      const titleInput = await this.selectors.waitFor(page, 'nameInput');
+      await titleInput.click({ clickCount: 3 });
+      await titleInput.type(title);
+      await page.keyboard.press('Enter');
+    }
+  }
+
+  private async createDocument(page: Page, params: z.infer<typeof CreateDocumentSchema>) {
+    
+    try {
+      await this.openNewDocument(page, params.title);
+
+      // Add content if provided
+      if (params.content) {
+        const { frame, editor } = await this.focusEditor(page);
+        await this.insertContent(editor, params.content, params.format);
+        await this.waitForEditorSaved(page, frame);
+      } else {
+        await waitForSaved(page, this.selectors, this.config.timeout);
+      }
+
+      const documentUrl = page.url();
+      const folder = await this.placeNewDocument(page, documentUrl, params);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl,
+            title: params.title,
+            folder,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create document: ${error}`
+      );
+    }
+  }
+
+  private async importDocument(page: Page, params: z.infer<typeof ImportDocumentSchema>) {
+    const path = params.path ? resolve(params.path) : undefined;
+    const filename = params.filename ?? path;
+    const format = params.format ?? (filename ? detectImportFormat(filename) : null);
+    if (!format) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Cannot tell the file format; pass format or a filename ending in .docx, .md, .html or .txt'
+      );
+    }
+
+    let data: Buffer;
+    try {
+      data = path ? readFileSync(path) : Buffer.from(params.data!, 'base64');
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot read ${path}: ${(error as Error).message}`);
+    }
+    const title = params.title ?? (filename ? titleFromFilename(filename) : 'Imported document');
+
+    // A file that cannot be converted is the caller's to fix; retrying does not help.
+    let converted: ConvertedFile;
+    try {
+      converted = await convertForImport(data, format, path);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        throw new McpError(ErrorCode.InvalidParams, `Cannot import ${filename ?? 'the file'}: ${error.message}`);
+      }
+      throw new McpError(ErrorCode.InternalError, `Failed to convert ${filename ?? 'the file'}: ${error}`);
+    }
+    const { html, warnings } = converted;
+    warnings.forEach((warning) => this.log(`import ${title}: ${warning}`));
+
+    try {
+      await this.openNewDocument(page, title);
+      const { frame, editor } = await this.focusEditor(page);
+      await this.insertContent(editor, html, 'html');
+      await this.waitForEditorSaved(page, frame);
+      const documentUrl = page.url();
+      const folder = await this.placeNewDocument(page, documentUrl, params);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl,
+            title,
+            format,
+            folder,
+            warnings,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to import document: ${error}`
+      );
+    }
+  }
+
+  // Markdown of the open document, as read_document returns it.
+  private async editorMarkdown(page: Page): Promise<string> {
+    const frame = await this.editorFrame(page);
+    const editor = await this.selectors.waitFor(frame, 'mainEditor');
+    return editor.evaluate(serializeEditor, 'markdown');
+  }
+
+  // Content of the open document, captured around a write to report and check what changed.
+  private async snapshotEditor(page: Page): Promise<DocumentSnapshot> {
+    const frame = await this.editorFrame(page);
+    const editor = await this.selectors.waitFor(frame, 'mainEditor');
+    return {
+      markdown: await editor.evaluate(serializeEditor, 'markdown'),
+      text: await editor.evaluate(serializeEditor, 'text'),
+      blocks: await editor.evaluate(extractDocumentTree),
+    };
+  }
+
+  // Replace the whole body of the open document.
+  private async replaceEditorContent(page: Page, content: string, format: InputFormat) {
+    const { frame, editor } = await this.focusEditor(page);
+    await page.keyboard.down('Control');
+    await page.keyboard.press('a');
+    await page.keyboard.up('Control');
+    await this.insertContent(editor, content, format);
+    await this.waitForEditorSaved(page, frame);
+  }
+
+  private async syncDirectory(page: Page, params: z.infer<typeof SyncDirectorySchema>) {
+    const directory = resolve(params.directory);
+    if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+      throw new McpError(ErrorCode.InvalidParams, `${directory} is not a directory`);
+    }
+
+    try {
+      const state = loadSyncState(directory);
+      const localFiles = new Map(
+        listMarkdownFiles(directory).map((file) => [file, readFileSync(join(directory, file), 'utf8')])
+      );
+      const files = [...new Set([...localFiles.keys(), ...Object.keys(state.documents)])].sort();
+
+      // Read every tracked document first, so the plan is complete before
+      // anything is changed.
+      const remote = new Map<string, string>();
+      const plan: SyncPlanItem[] = [];
+      for (const file of files) {
+        const entry = state.documents[file];
+        const local = localFiles.get(file);
+        let remoteHash: string | null = null;
+        if (entry) {
+          try {
+            const markdown = await this.withDocumentLock(entry.url, async () => {
+              await this.navigate(page, entry.url);
+              return this.editorMarkdown(page);
+            });
+            remote.set(file, markdown);
+            remoteHash = contentHash(markdown);
+          } catch (error) {
+            plan.push({ file, url: entry.url, action: 'skip', reason: 'document could not be read', error: String(error) });
+            continue;
+          }
+        }
+        plan.push(planFile(file, entry, local === undefined ? null : contentHash(local), remoteHash, params.conflict));
+      }
+
+      if (!params.dryRun) {
+        for (const item of plan) {
+          if (['skip', 'unchanged'].includes(item.action)) continue;
+          try {
+            const apply = () =>
+              this.applySyncItem(page, directory, item, localFiles.get(item.file), remote.get(item.file), state);
+            await (item.url ? this.withDocumentLock(item.url, apply) : apply());
+          } catch (error) {
+            item.error = String(error);
+            this.log(`sync ${item.file}: ${error}`);
           }
+          saveSyncState(directory, state);
+        }
+      }
+
+      const count = (action: string) => plan.filter((item) => item.action === action).length;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: plan.every((item) => !item.error),
+            directory,
+            stateFile: join(directory, SYNC_STATE_FILE),
+            dryRun: params.dryRun,
+            summary: {
+              created: count('create'),
+              pushed: count('push'),
+              pulled: count('pull'),
+              untracked: count('untrack'),
+              skipped: count('skip'),
+              unchanged: count('unchanged'),
+              conflicts: plan.filter((item) => item.conflict).length,
+              failed: plan.filter((item) => item.error).length,
+            },
+            plan,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to sync directory: ${error}`
+      );
+    }
+  }
+
+  // Carry out one planned sync action and record the result in `state`.
+  private async applySyncItem(
+    page: Page,
+    directory: string,
+    item: SyncPlanItem,
+    local: string | undefined,
+    remote: string | undefined,
+    state: SyncState
+  ) {
+    const record = (url: string, title: string, localHash: string, remoteHash: string) => {
+      state.documents[item.file] = { url, title, localHash, remoteHash, syncedAt: new Date().toISOString() };
+    };
+    const title = state.documents[item.file]?.title ?? titleFromFilename(item.file);
+
+    switch (item.action) {
+      case 'create': {
+        await this.openNewDocument(page, title);
+        await this.replaceEditorContent(page, local!, 'markdown');
+        item.url = page.url();
+        record(item.url, title, contentHash(local!), contentHash(await this.editorMarkdown(page)));
+        break;
+      }
+      case 'push': {
+        await this.navigate(page, item.url!);
+        // A write by another call since the plan was made would be overwritten.
+        if (contentHash(await this.editorMarkdown(page)) !== contentHash(remote!)) {
+          throw new Error('The document changed after it was read; sync again');
+        }
+        await this.replaceEditorContent(page, local!, 'markdown');
+        record(item.url!, title, contentHash(local!), contentHash(await this.editorMarkdown(page)));
+        break;
+      }
+      case 'pull': {
+        const path = join(directory, item.file);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, `${remote!.trimEnd()}\n`);
+        record(item.url!, title, contentHash(remote!), contentHash(remote!));
+        break;
+      }
+      case 'untrack':
+        delete state.documents[item.file];
+        break;
+    }
+  }
+
+  private async searchDocuments(page: Page, params: z.infer<typeof SearchDocumentsSchema>) {
+    if (params.mode === 'content') {
+      return this.searchContent(page, params);
+    }
+    
+    try {
+      await this.navigate(page, `${this.config.baseUrl}/recents`);
+
+      const searchInput = await this.selectors.waitFor(page, 'searchInput');
+      await searchInput.type(params.query);
+      await page.keyboard.press('Enter');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(page);
+
+      const results = (await scrapeDocumentRows(page, this.selectors)).map((row) => ({
+        id: documentId(row.url),
+        title: row.title,
+        url: row.url,
+      }));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            query: params.query,
+            mode: params.mode,
+            results,
+            count: results.length,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to search documents: ${error}`
+      );
+    }
+  }
+
+  private requireContentIndex(): EncryptedFile<IndexData> {
+    if (!this.contentIndex) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Content search needs sessionKey or password to be configured; the index is encrypted with it'
+      );
+    }
+    return this.contentIndex;
+  }
+
+  private async searchContent(page: Page, params: z.infer<typeof SearchDocumentsSchema>) {
+    const file = this.requireContentIndex();
+    let query: QueryNode;
+    try {
+      query = parseQuery(params.query);
+    } catch (error) {
+      if (error instanceof QueryError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+
+    try {
+      // Refreshing is capped at half the tool time; documents not read by
+      // then are reported as pending and picked up by the next search.
+      const refresh = params.refresh
+        ? await this.refreshIndex(page, file, { full: false, deadline: Date.now() + this.config.toolTimeout / 2 })
+        : null;
+      const data = refresh?.data ?? file.load() ?? { version: 1, documents: {} };
+      const { hits, total } = new ContentIndex(Object.values(data.documents)).search(query, params.limit);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            query: params.query,
+            mode: params.mode,
+            results: hits,
+            count: hits.length,
+            total,
+            index: {
+              documents: Object.keys(data.documents).length,
+              ...(refresh ? refresh.summary : {}),
+            },
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to search documents: ${error}`
+      );
+    }
+  }
+
+  private async queryDocuments(page: Page, params: z.infer<typeof QueryDocumentsSchema>) {
+    const file = this.requireContentIndex();
+
+    try {
+      const refresh = params.refresh
+        ? await this.refreshIndex(page, file, { full: false, deadline: Date.now() + this.config.toolTimeout / 2 })
+        : null;
+      const data = refresh?.data ?? file.load() ?? { version: 1, documents: {} };
+
+      const only = params.documentUrls ? new Set(params.documentUrls.map(documentId)) : null;
+      const candidates = Object.values(data.documents)
+        .filter((document) => !only || only.has(document.id))
+        .flatMap((document) => (document.chunks ?? []).map((chunk) => ({
+          chunk,
+          source: { documentId: document.id, documentUrl: document.url, title: document.title },
+        })));
+
+      let ranked: Array<{ index: number; score: number }>;
+      let retrieval: string;
+      if (this.embeddings) {
+        // Vectors are cached in the index and only kept for current chunks.
+        const cache = data.embeddings?.provider === this.embeddings.name ? data.embeddings.vectors : {};
+        ranked = await rankChunksByEmbedding(this.embeddings, cache, candidates, params.query);
+        // The index may have been refreshed while embedding; store the vectors
+        // in the file as it is now rather than in the copy read above.
+        const provider = this.embeddings.name;
+        await this.indexLock.run(file.path, async () => {
+          const latest = file.load() ?? data;
+          const current = new Set(Object.values(latest.documents).flatMap((document) =>
+            (document.chunks ?? []).map((chunk) => embeddingKey(chunk, { documentId: document.id, documentUrl: document.url, title: document.title }))
+          ));
+          latest.embeddings = {
+            provider,
+            vectors: Object.fromEntries(Object.entries(cache).filter(([key]) => current.has(key))),
+          };
+          file.save(latest);
+        });
+        retrieval = `embedding (${this.embeddings.name})`;
+      } else {
+        ranked = rankChunksLexically(candidates, params.query);
+        retrieval = 'bm25';
+      }
+
+      const results: RankedChunk[] = ranked
+        .sort((a, b) => b.score - a.score)
+        .slice(0, params.limit)
+        .map(({ index, score }) => {
+          const { chunk, source } = candidates[index];
+          return {
+            ...source,
+            ...chunk,
+            score: Math.round(score * 1000) / 1000,
+            citation: citation(source.title, chunk),
+          };
+        });
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            query: params.query,
+            retrieval,
+            results,
+            count: results.length,
+            index: {
+              documents: Object.keys(data.documents).length,
+              chunks: candidates.length,
+              ...(refresh ? refresh.summary : {}),
+            },
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to query documents: ${error}`
+      );
+    }
+  }
+
+  private async indexDocuments(page: Page, params: z.infer<typeof IndexDocumentsSchema>) {
+    const file = this.requireContentIndex();
+
+    try {
+      const { data, summary } = await this.refreshIndex(page, file, { full: params.full });
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: summary.failed.length === 0,
+            indexFile: file.path,
+            documents: Object.keys(data.documents).length,
+            ...summary,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to index documents: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Bring the content index up to date with the document listing: read
+   * documents whose listing timestamp changed since they were indexed and
+   * drop documents that are no longer listed. Stops reading at `deadline`.
+   * Runs under the index lock, so concurrent refreshes do not overwrite
+   * each other's work.
+   */
+  private async refreshIndex(
+    page: Page,
+    file: EncryptedFile<IndexData>,
+    options: { full: boolean; deadline?: number }
+  ) {
+    return this.indexLock.run(file.path, async () => {
+      const data: IndexData = (!options.full && file.load()) || { version: 1, documents: {} };
+      const listAll = async () => {
+        await this.navigate(page, `${this.config.baseUrl}/recents`);
+        await this.selectors.waitFor(page, 'documentTable');
+        const timeout = options.deadline === undefined
+          ? this.config.toolTimeout
+          : Math.max(options.deadline - Date.now(), 0);
+        const { rows, complete } = await collectRows(page, this.selectors, { timeout });
+        return { complete, rows: new Map(rows.filter((row) => row.url).map((row) => [documentId(row.url), row])) };
+      };
+
+      // A listing cut short by the deadline cannot tell which documents are gone.
+      const { rows: listed, complete } = await listAll();
+      const removed = complete ? Object.keys(data.documents).filter((id) => !listed.has(id)) : [];
+      removed.forEach((id) => delete data.documents[id]);
+
+      const stale = [...listed].filter(([id, row]) => {
+        const stamp = row.modified || row.viewed;
+        return !stamp || data.documents[id]?.stamp !== stamp || !data.documents[id].chunks;
+      });
+      // Renames and moves do not need the body to be read again.
+      for (const [id, row] of listed) {
+        const indexed = data.documents[id];
+        if (indexed) Object.assign(indexed, { title: row.title, folder: folderSegments(row.location).join('/') });
+      }
+
+      const updated: string[] = [];
+      const failed: Array<{ url: string; title: string; error: string }> = [];
+      for (const [id, row] of stale) {
+        if (options.deadline !== undefined && Date.now() > options.deadline) break;
+        try {
+          const { text, tree } = await this.withDocumentLock(row.url, async () => {
+            await this.navigate(page, row.url);
+            const frame = await this.editorFrame(page);
+            const editor = await this.selectors.waitFor(frame, 'mainEditor');
+            return {
+              text: await editor.evaluate(serializeEditor, 'text'),
+              tree: await editor.evaluate(extractDocumentTree),
+            };
+          });
+          data.documents[id] = {
+            id,
+            url: row.url,
+            title: row.title,
+            folder: folderSegments(row.location).join('/'),
+            stamp: row.modified || row.viewed,
+            indexedAt: new Date().toISOString(),
+            text,
+            chunks: chunkDocument(id, tree),
+          };
+          updated.push(id);
+        } catch (error) {
+          failed.push({ url: row.url, title: row.title, error: String(error) });
+        }
+      }
+
+      // Reading a document changes its "last viewed" time; store the times as
+      // they are now so the next refresh does not read everything again.
+      if (updated.length > 0) {
+        const { rows: current } = await listAll();
+        for (const id of updated) {
+          const row = current.get(id);
+          if (row) data.documents[id].stamp = row.modified || row.viewed;
+        }
+      }
+      file.save(data);
+
+      return {
+        data,
+        summary: {
+          updated: updated.length,
+          removed: removed.length,
+          unchanged: listed.size - stale.length,
+          pending: stale.length - updated.length - failed.length,
+          failed,
+        },
+      };
+    });
+  }
+
+  private async editDocument(page: Page, params: z.infer<typeof EditDocumentSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+      if (params.suggest) await this.setEditingMode(page, 'suggest');
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+
+      if (params.append) {
+        await page.keyboard.down('Control');
+        await page.keyboard.press('End');
+        await page.keyboard.up('Control');
+        await page.keyboard.press('Enter');
+      } else {
+        await page.keyboard.down('Control');
+        await page.keyboard.press('a');
+        await page.keyboard.up('Control');
+      }
+
+      await this.insertContent(editor, params.content, params.format);
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkEdit(before, after, params.content, params.format, params.append));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            action: params.append ? 'appended' : 'replaced',
+            suggested: params.suggest,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to edit document: ${error}`
+      );
+    } finally {
+      if (params.suggest) await this.leaveSuggestionMode(page);
+    }
+  }
+
+  private async applyDocumentAst(page: Page, params: z.infer<typeof ApplyDocumentAstSchema>) {
+    const tree = params.ast as DocumentTree;
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      await page.keyboard.down('Control');
+      await page.keyboard.press('a');
+      await page.keyboard.up('Control');
+
+      await this.insertContent(editor, documentTreeToHtml(tree), 'html');
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkTree(before, after, tree));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            blocks: tree.blocks.length,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to apply document tree: ${error}`
+      );
+    }
+  }
+
+  private async replaceText(page: Page, params: z.infer<typeof ReplaceTextSchema>) {
+    const source = params.regex ? params.find : params.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const flags = params.caseSensitive ? '' : 'i';
+    try {
+      new RegExp(source, flags);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid regular expression: ${(error as Error).message}`);
+    }
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      if (params.suggest) await this.setEditingMode(page, 'suggest');
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      const matches = await editor.evaluate(locateText, source, flags, null, params.regex ? params.replace : null);
+      const targets = params.all ? matches : matches.slice(0, 1);
+
+      // Replace from the end so the positions of earlier matches stay valid.
+      // A match the editor would not select is skipped: typing would land
+      // wherever the caret happens to be.
+      const skipped: string[] = [];
+      const replaced: Array<{ text: string; replacement: string }> = [];
+      for (const match of [...targets].reverse()) {
+        const located = await editor.evaluate(locateText, source, flags, match.index, null);
+        const current = located[match.index];
+        if (!current?.selected || current.text !== match.text) {
+          skipped.unshift(match.text);
+          continue;
+        }
+        const replacement = match.replacement ?? params.replace;
+        if (replacement) {
+          await this.insertContent(editor, replacement, 'text');
+        } else {
+          await page.keyboard.press('Backspace');
+        }
+        replaced.push({ text: match.text, replacement });
+      }
+      if (replaced.length > 0) {
+        await this.waitForEditorSaved(page, frame);
+      }
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkReplaced(before, after, replaced, params.suggest));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: skipped.length === 0,
+            documentUrl: params.documentUrl,
+            matches: matches.length,
+            replaced: replaced.length,
+            ...(skipped.length > 0 ? { skipped } : {}),
+            suggested: params.suggest,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to replace text: ${error}`
+      );
+    } finally {
+      if (params.suggest) await this.leaveSuggestionMode(page);
+    }
+  }
+
+  private async insertContentAt(page: Page, params: z.infer<typeof InsertContentSchema>) {
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      if (params.suggest) await this.setEditingMode(page, 'suggest');
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      const section = await editor.evaluate(locateSection, params.heading ?? null, params.anchor ?? null);
+      if (!section) {
+        throw new Error(params.heading !== undefined
+          ? `No heading "${params.heading}" found`
+          : `No paragraph contains "${params.anchor}"`);
+      }
+
+      // Open an empty paragraph next to the target block and paste into it.
+      if (params.position === 'before') {
+        await editor.evaluate(selectBlocks, section.first, section.first, 'start');
+        await page.keyboard.press('Enter');
+        await page.keyboard.press('ArrowUp');
+      } else {
+        const block = params.position === 'section_end' ? section.last : section.first;
+        await editor.evaluate(selectBlocks, block, block, 'end');
+        await page.keyboard.press('Enter');
+      }
+      await this.insertContent(editor, params.content, params.format);
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkInserted(before, after, params.content, params.format));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            position: params.position,
+            suggested: params.suggest,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to insert content: ${error}`
+      );
+    } finally {
+      if (params.suggest) await this.leaveSuggestionMode(page);
+    }
+  }
+
+  private async replaceSection(page: Page, params: z.infer<typeof ReplaceSectionSchema>) {
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      if (params.suggest) await this.setEditingMode(page, 'suggest');
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      const section = await editor.evaluate(locateSection, params.heading, null);
+      if (!section) {
+        throw new Error(`No heading "${params.heading}" found`);
+      }
+
+      const replacedBlocks = section.last - section.first;
+      if (replacedBlocks > 0) {
+        await editor.evaluate(selectBlocks, section.first + 1, section.last, 'all');
+        if (!params.content) {
+          await page.keyboard.press('Backspace');
+        }
+      } else {
+        await editor.evaluate(selectBlocks, section.first, section.first, 'end');
+        await page.keyboard.press('Enter');
+      }
+      if (params.content) {
+        await this.insertContent(editor, params.content, params.format);
+      }
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(
+        before,
+        after,
+        checkSection(before, after, params.heading, params.content, params.format, params.suggest)
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            heading: params.heading,
+            replacedBlocks,
+            suggested: params.suggest,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to replace section: ${error}`
+      );
+    } finally {
+      if (params.suggest) await this.leaveSuggestionMode(page);
+    }
+  }
+
+  private async setEditingMode(page: Page, mode: 'edit' | 'suggest') {
+    await this.selectors.click(page, 'editingModeButton');
+    await this.selectors.click(page, mode === 'suggest' ? 'suggestingModeOption' : 'editingModeOption');
+    await this.settle(page);
+  }
+
+  // Switch back after a suggestion-mode edit; the edit itself already succeeded or failed.
+  private async leaveSuggestionMode(page: Page) {
+    await this.setEditingMode(page, 'edit')
+      .catch((error) => this.log(`could not leave suggestion mode: ${error}`));
+  }
+
+  // Show the comments panel of the open document unless it is already shown.
+  private async openCommentsPanel(page: Page): Promise<Frame> {
+    const frame = await this.editorFrame(page);
+    const button = await this.selectors.find(page, 'commentsButton');
+    const shown = await button?.evaluate((element) =>
+      element.getAttribute('aria-pressed') === 'true' || element.getAttribute('aria-expanded') === 'true'
+    );
+    if (button && !shown) {
+      await button.click();
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(frame);
+    }
+    return frame;
+  }
+
+  private async listComments(page: Page, params: z.infer<typeof ListCommentsSchema>) {
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      const frame = await this.openCommentsPanel(page);
+      const threads = (await scrapeCommentThreads(frame, this.selectors))
+        .filter((thread) => params.includeResolved || !thread.resolved);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            documentUrl: params.documentUrl,
+            threads,
+            count: threads.length,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to list comments: ${error}`
+      );
+    }
+  }
+
+  private async addComment(page: Page, params: z.infer<typeof AddCommentSchema>) {
+    const source = params.anchorText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const flags = params.caseSensitive ? '' : 'i';
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      const frame = await this.openCommentsPanel(page);
+      const before = new Set((await scrapeCommentThreads(frame, this.selectors)).map((thread) => thread.id));
+
+      const { editor } = await this.focusEditor(page);
+      const matches = await editor.evaluate(locateText, source, flags, params.occurrence - 1, null);
+      if (matches.length < params.occurrence) {
+        throw new Error(matches.length === 0
+          ? `"${params.anchorText}" not found`
+          : `"${params.anchorText}" occurs only ${matches.length} time(s)`);
+      }
+      if (!matches[params.occurrence - 1].selected) {
+        throw new Error(`Could not select "${params.anchorText}" in the editor`);
+      }
+
+      await this.selectors.click(frame, 'addCommentButton');
+      const input = await this.selectors.waitFor(frame, 'commentInput', { visible: true });
+      await input.type(params.comment);
+      await this.selectors.click(frame, 'commentSubmit');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(frame);
+
+      const added = (await scrapeCommentThreads(frame, this.selectors)).filter((candidate) => !before.has(candidate.id));
+      const thread = findAddedThread(added, params.anchorText, params.comment, params.caseSensitive);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            thread,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to add comment: ${error}`
+      );
+    }
+  }
+
+  private async replyComment(page: Page, params: z.infer<typeof ReplyCommentSchema>) {
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      const frame = await this.openCommentsPanel(page);
+      const found = await findCommentThread(frame, this.selectors, params.threadId);
+      if (!found) {
+        throw new Error(`No comment thread ${params.threadId}`);
+      }
+
+      // Threads only show their reply box once selected.
+      await found.handle.click();
+      await this.settle(frame);
+      const input = await this.selectors.waitFor(found.handle, 'commentInput', { visible: true });
+      await input.type(params.reply);
+      await this.selectors.click(found.handle, 'commentSubmit');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(frame);
+
+      const updated = await findCommentThread(frame, this.selectors, params.threadId);
+      if (!updated || updated.thread.replies.length <= found.thread.replies.length) {
+        throw new Error('The reply did not appear in the thread');
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            thread: updated.thread,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to reply to comment: ${error}`
+      );
+    }
+  }
+
+  private async resolveComment(page: Page, params: z.infer<typeof ResolveCommentSchema>) {
+
+    try {
+      await this.navigate(page, params.documentUrl);
+      const frame = await this.openCommentsPanel(page);
+      const found = await findCommentThread(frame, this.selectors, params.threadId);
+      if (!found) {
+        throw new Error(`No comment thread ${params.threadId}`);
+      }
+
+      const alreadyResolved = found.thread.resolved;
+      if (!alreadyResolved) {
+        await found.handle.click();
+        await this.settle(frame);
+        await this.selectors.click(found.handle, 'commentResolveButton');
+        await waitForNetworkQuiet(page, this.config.timeout);
+        await this.settle(frame);
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            threadId: params.threadId,
+            alreadyResolved,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to resolve comment: ${error}`
+      );
+    }
+  }
+
+  // Move a document to the trash, returning its title.
+  // Title of a document as its menu button shows it, leaving the document open.
+  private async documentTitle(page: Page, documentUrl: string): Promise<string> {
+    await this.navigate(page, documentUrl);
+    const nameButton = await this.selectors.waitFor(page, 'documentMenu');
+    return nameButton.evaluate((element) => element.textContent?.trim() ?? '');
+  }
+
+  private async moveToTrash(page: Page, documentUrl: string): Promise<string> {
+    const title = await this.documentTitle(page, documentUrl);
+    await this.openDocumentMenu(page, 'menuMoveToTrash');
+    await this.settle(page);
+    
+    // Confirm if needed
+    const confirmButton = await this.selectors.find(page, 'confirmTrashButton');
+    if (confirmButton) {
+      await confirmButton.click();
+    }
+
+    await waitForNetworkQuiet(page, this.config.timeout);
+    return title;
+  }
+
+  private async loadTrash(page: Page): Promise<TrashedDocument[]> {
+    await this.navigate(page, `${this.config.baseUrl}/trash`);
+    await this.settle(page);
+    // An empty trash shows a placeholder instead of the table.
+    if (!(await this.selectors.find(page, 'documentTable'))) return [];
+    const { rows } = await collectRows(page, this.selectors, { timeout: this.config.timeout });
+    return rows.map((row) => toTrashedDocument(row));
+  }
+
+  // The single trashed document matching a URL or title.
+  /**
+   * The trash entry of `documentUrl`, moving the document to the trash first
+   * when it is not there yet. Trash rows do not always link their document,
+   * so an unlinked row is only taken when it is the single row with the
+   * document's title and no such row was in the trash before.
+   */
+  private async trashDocumentByUrl(page: Page, documentUrl: string): Promise<TrashedDocument> {
+    const before = await this.loadTrash(page);
+    const linked = matchTrashed(before, { documentUrl });
+    if (linked.length === 1) return linked[0];
+
+    const title = await this.documentTitle(page, documentUrl);
+    const unlinked = (items: TrashedDocument[]) => items.filter((item) => !item.url && item.title === title);
+    if (unlinked(before).length > 0) {
+      throw new Error(`The trash already holds an unlinked document titled "${title}", which cannot be told apart from ${documentUrl}`);
+    }
+
+    await this.moveToTrash(page, documentUrl);
+    const after = await this.loadTrash(page);
+    const matches = [...matchTrashed(after, { documentUrl }), ...unlinked(after)];
+    if (matches.length !== 1) {
+      throw new Error(
+        `${documentUrl} was moved to the trash, but ${matches.length} trash entries match it, so it was not deleted permanently`
+      );
+    }
+    return matches[0];
+  }
+
+  private async findTrashed(page: Page, target: { documentUrl?: string; title?: string }): Promise<TrashedDocument> {
+    const matches = matchTrashed(await this.loadTrash(page), target);
+    if (matches.length === 0) {
+      throw new Error(`No document in the trash matches ${target.documentUrl ?? `"${target.title}"`}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`${matches.length} documents in the trash are titled "${target.title}"; pass documentUrl instead`);
+    }
+    return matches[0];
+  }
+
+  // Scroll the trash listing to a document and return its row.
+  private async trashRow(page: Page, item: TrashedDocument): Promise<ElementHandle<Element>> {
+    const same = (row: DocumentRow) => item.url
+      ? row.url === item.url
+      : row.title === item.title && folderSegments(row.location).join('/') === item.folder;
+
+    await this.navigate(page, `${this.config.baseUrl}/trash`);
+    await this.selectors.waitFor(page, 'documentTable');
+    await collectRows(page, this.selectors, {
+      timeout: this.config.timeout,
+      enough: (rows) => rows.some(same),
+    });
+    const index = (await scrapeDocumentRows(page, this.selectors)).findIndex(same);
+    const row = index >= 0 ? (await page.$$(this.selectors.css('documentRows')))[index] : undefined;
+    if (!row) {
+      throw new Error(`"${item.title}" is no longer in the trash`);
+    }
+    return row;
+  }
+
+  private async deleteDocument(page: Page, params: z.infer<typeof DeleteDocumentSchema>) {
+    
+    try {
+      if (params.permanent) {
+        const item = params.documentUrl
+          ? await this.trashDocumentByUrl(page, params.documentUrl)
+          : await this.findTrashed(page, { title: params.title });
+        const row = await this.trashRow(page, item);
+        await row.click({ button: 'right' });
+        await this.selectors.click(page, 'trashMenuDelete');
+        await this.selectors.click(page, 'confirmDeleteButton');
+        await waitForNetworkQuiet(page, this.config.timeout);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              action: 'deleted_permanently',
+              document: item,
+            }, null, 2),
+          }],
+        };
+      } else {
+        // Move to trash
+        const title = await this.moveToTrash(page, params.documentUrl!);
+
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: true,
+              action: 'moved_to_trash',
+              documentUrl: params.documentUrl,
+              title,
+            }, null, 2),
+          }],
+        };
+      }
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to delete document: ${error}`
+      );
+    }
+  }
+
+  private async listTrash(page: Page) {
+    try {
+      const items = await this.loadTrash(page);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            items,
+            count: items.length,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to list trash: ${error}`
+      );
+    }
+  }
+
+  private async restoreDocument(page: Page, params: z.infer<typeof RestoreDocumentSchema>) {
+
+    try {
+      const item = await this.findTrashed(page, params);
+      const row = await this.trashRow(page, item);
+      await row.click({ button: 'right' });
+      await this.selectors.click(page, 'trashMenuRestore');
+      await waitForNetworkQuiet(page, this.config.timeout);
+
+      // The document comes back with the content it had; the diff shows it as added.
+      const before: DocumentSnapshot = { markdown: '', text: '', blocks: [] };
+      const trashed = matchTrashed(await this.loadTrash(page), item.url ? { documentUrl: item.url } : { title: item.title });
+      let after = before;
+      if (trashed.length === 0 && item.url) {
+        await this.navigate(page, item.url);
+        after = await this.snapshotEditor(page);
+      }
+      const changes = verifyChange(
+        before,
+        after,
+        trashed.length > 0 ? `"${item.title}" is still in the trash after restoring it` : null
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            action: 'restored',
+            document: item,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to restore document: ${error}`
+      );
+    }
+  }
+
+  private async emptyTrash(page: Page, params: z.infer<typeof EmptyTrashSchema>) {
+
+    try {
+      const items = await this.loadTrash(page);
+      const confirmToken = trashToken(items);
+
+      if (items.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ success: true, emptied: false, count: 0, message: 'The trash is already empty' }, null, 2),
+          }],
+        };
+      }
+
+      // Nothing is deleted until the caller has seen what is in the trash.
+      if (params.confirm !== confirmToken) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              success: false,
+              emptied: false,
+              count: items.length,
+              items,
+              confirmToken,
+              message: params.confirm === undefined
+                ? `Call empty_trash again with confirm: "${confirmToken}" to permanently delete these ${items.length} documents`
+                : `The trash changed since the token was issued; review the items and confirm with "${confirmToken}"`,
+            }, null, 2),
+          }],
+        };
+      }
+
+      await this.selectors.click(page, 'emptyTrashButton');
+      await this.selectors.click(page, 'confirmDeleteButton');
+      await waitForNetworkQuiet(page, this.config.timeout);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            emptied: true,
+            deleted: items.length,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to empty trash: ${error}`
+      );
+    }
+  }
+
+  // Open the document's share dialog.
+  private async openShareDialog(page: Page, documentUrl: string) {
+    await this.navigate(page, documentUrl);
+    await this.selectors.click(page, 'shareButton');
+    await waitForNetworkQuiet(page, this.config.timeout);
+    await this.settle(page);
+  }
+
+  /**
+   * Close and reopen the share dialog and read it, so the state reflects what
+   * Proton saved rather than what was typed into the dialog.
+   */
+  private async rereadSharing(page: Page): Promise<SharingState> {
+    const close = await this.selectors.find(page, 'shareDialogClose');
+    if (close) {
+      await close.click();
+    } else {
+      await page.keyboard.press('Escape');
+    }
+    await this.settle(page);
+    await this.selectors.click(page, 'shareButton');
+    await waitForNetworkQuiet(page, this.config.timeout);
+    await this.settle(page);
+    return readSharingState(page, this.selectors);
+  }
+
+  private async shareDocument(page: Page, params: z.infer<typeof ShareDocumentSchema>) {
+    const emails = params.emails ?? [params.email!];
+    
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+
+      // Enter each address; the field turns them into recipients on Enter.
+      const emailInput = await this.selectors.waitFor(page, 'shareEmailInput');
+      for (const email of emails) {
+        await emailInput.type(email);
+        await page.keyboard.press('Enter');
+      }
+
+      // Invitations default to view access; edit access is picked from the dropdown.
+      if (params.permission === 'edit') {
+        await this.selectors.click(page, 'sharePermissionDropdown');
+        await this.selectors.click(page, 'shareEditOption');
+      }
+
+      if (params.message) {
+        const messageInput = await this.selectors.waitFor(page, 'shareMessageInput');
+        await messageInput.type(params.message);
+      }
+
+      // Send invitation
+      await this.selectors.click(page, 'shareSendButton');
+      await waitForNetworkQuiet(page, this.config.timeout);
+
+      const state = await this.rereadSharing(page);
+      const notShared = emails.filter((email) => !findMember(state, email));
+      if (notShared.length === emails.length) {
+        throw new Error(`No invitation shows up in the share dialog for ${notShared.join(', ')}`);
+      }
+      const sharedWith = emails.flatMap((email) => findMember(state, email) ?? []);
+      const role: ShareRole = params.permission === 'edit' ? 'editor' : 'viewer';
+      const wrongRole = sharedWith.filter((member) => member.role !== role);
+      if (wrongRole.length > 0) {
+        throw new Error(
+          `Invited as ${wrongRole.map((member) => `${member.role ?? 'unknown'} (${member.email})`).join(', ')} instead of ${role}`
+        );
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: notShared.length === 0,
+            documentUrl: params.documentUrl,
+            sharedWith,
+            notShared,
+            role,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to share document: ${error}`
+      );
+    }
+  }
+
+  private async getSharing(page: Page, params: z.infer<typeof GetSharingSchema>) {
+
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+      const state = await readSharingState(page, this.selectors);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            documentUrl: params.documentUrl,
+            members: state.members.filter((member) => !member.pending),
+            invites: state.members.filter((member) => member.pending),
+            publicLink: state.publicLink,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to get sharing: ${error}`
+      );
+    }
+  }
+
+  // Open the role menu of a member who is not the owner.
+  private async openMemberMenu(page: Page, state: SharingState, email: string) {
+    const member = findMember(state, email);
+    if (!member) {
+      throw new Error(`The document is not shared with ${email}`);
+    }
+    if (member.role === 'owner') {
+      throw new Error(`${email} owns the document`);
+    }
+    const row = await findMemberRow(page, this.selectors, email);
+    if (!row) {
+      throw new Error(`Cannot find ${email} in the share dialog`);
+    }
+    await this.selectors.click(row, 'shareMemberRole');
+    return member;
+  }
+
+  private async setMemberRole(page: Page, params: z.infer<typeof SetMemberRoleSchema>) {
+
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+      const before = await readSharingState(page, this.selectors);
+      const previousRole = findMember(before, params.email)?.role ?? null;
+
+      if (previousRole !== params.role) {
+        await this.openMemberMenu(page, before, params.email);
+        await this.selectors.click(page, params.role === 'editor' ? 'shareEditOption' : 'shareViewOption');
+        await waitForNetworkQuiet(page, this.config.timeout);
+
+        const role = findMember(await this.rereadSharing(page), params.email)?.role ?? null;
+        if (role !== params.role) {
+          throw new Error(`${params.email} still has role ${role ?? 'unknown'}`);
+        }
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            email: params.email,
+            role: params.role,
+            previousRole,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to set member role: ${error}`
+      );
+    }
+  }
+
+  private async revokeAccess(page: Page, params: z.infer<typeof RevokeAccessSchema>) {
+
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+      const before = await readSharingState(page, this.selectors);
+      const member = findMember(before, params.email) ?? null;
+
+      if (member) {
+        await this.openMemberMenu(page, before, params.email);
+        await this.selectors.click(page, 'shareRemoveOption');
+        const confirm = await this.selectors.find(page, 'shareRemoveConfirm');
+        if (confirm) await confirm.click();
+        await waitForNetworkQuiet(page, this.config.timeout);
+
+        if (findMember(await this.rereadSharing(page), params.email)) {
+          throw new Error(`${params.email} still has access`);
         }
-        
-        return docs;
-      }, params.limit);
+      }
 
       return {
         content: [{
           type: "text",
-          text: JSON.stringify({ documents }, null, 2),
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            email: params.email,
+            revoked: member,
+          }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to list documents: ${error}`
+        `Failed to revoke access: ${error}`
+      );
+    }
+  }
+
+  private async createPublicLink(page: Page, params: z.infer<typeof CreatePublicLinkSchema>) {
+    // The dialog only takes a date; times are dropped (in UTC).
+    const expiresAt = params.expiresAt ? new Date(params.expiresAt).toISOString().slice(0, 10) : null;
+    if (expiresAt && expiresAt <= new Date().toISOString().slice(0, 10)) {
+      throw new McpError(ErrorCode.InvalidParams, 'expiresAt must be in the future');
+    }
+
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+      const before = await readSharingState(page, this.selectors);
+      if (!before.publicLink.enabled) {
+        await this.selectors.click(page, 'publicLinkToggle');
+        await waitForNetworkQuiet(page, this.config.timeout);
+        await this.settle(page);
+      }
+
+      if (expiresAt || params.password) {
+        const settings = await this.selectors.find(page, 'publicLinkSettings');
+        if (settings) {
+          await settings.click();
+          await this.settle(page);
+        }
+        if (expiresAt) {
+          // Date inputs ignore typed text in some locales; set the value the way React expects.
+          const expiry = await this.selectors.waitFor(page, 'publicLinkExpiry');
+          await expiry.evaluate((input, value) => {
+            Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, value);
+            input.dispatchEvent(new Event('input', { bubbles: true }));
+            input.dispatchEvent(new Event('change', { bubbles: true }));
+          }, expiresAt);
+        }
+        if (params.password) {
+          const password = await this.selectors.waitFor(page, 'publicLinkPassword');
+          await password.click({ clickCount: 3 });
+          await password.type(params.password);
+        }
+        await this.selectors.click(page, 'publicLinkSave');
+        await waitForNetworkQuiet(page, this.config.timeout);
+      }
+
+      const { publicLink } = await this.rereadSharing(page);
+      if (!publicLink.enabled || !publicLink.url) {
+        throw new Error('The public link is not enabled after saving');
+      }
+      if (expiresAt && publicLink.expiresAt !== expiresAt) {
+        throw new Error(`The link expires on ${publicLink.expiresAt ?? 'no date'} instead of ${expiresAt}`);
+      }
+      if (params.password && !publicLink.passwordProtected) {
+        throw new Error('The link is not password protected after saving');
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            created: !before.publicLink.enabled,
+            publicLink,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create public link: ${error}`
+      );
+    }
+  }
+
+  private async disablePublicLink(page: Page, params: z.infer<typeof DisablePublicLinkSchema>) {
+
+    try {
+      await this.openShareDialog(page, params.documentUrl);
+      const before = await readSharingState(page, this.selectors);
+
+      if (before.publicLink.enabled) {
+        await this.selectors.click(page, 'publicLinkToggle');
+        const confirm = await this.selectors.find(page, 'publicLinkDisableConfirm');
+        if (confirm) await confirm.click();
+        await waitForNetworkQuiet(page, this.config.timeout);
+
+        if ((await this.rereadSharing(page)).publicLink.enabled) {
+          throw new Error('The public link is still enabled');
+        }
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            documentUrl: params.documentUrl,
+            alreadyDisabled: !before.publicLink.enabled,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to disable public link: ${error}`
+      );
+    }
+  }
+
+  private async formatText(page: Page, params: z.infer<typeof FormatTextSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+
+      const frame = await this.editorFrame(page);
+      const before = await this.snapshotEditor(page);
+
+      // Select text if provided
+      if (params.selection) {
+        await this.focusEditor(page);
+        await page.keyboard.down('Control');
+        await page.keyboard.press('f');
+        await page.keyboard.up('Control');
+        await page.keyboard.type(params.selection);
+        await page.keyboard.press('Escape');
+      }
+
+      // Apply formatting
+      const formatMap: Record<typeof params.format, { button: SelectorKey; shortcut: KeyInput[] }> = {
+        bold: { button: 'boldButton', shortcut: ['Control', 'b'] },
+        italic: { button: 'italicButton', shortcut: ['Control', 'i'] },
+        underline: { button: 'underlineButton', shortcut: ['Control', 'u'] },
+        strikethrough: { button: 'strikethroughButton', shortcut: ['Control', 'Shift', 'x'] },
+      };
+
+      const format = formatMap[params.format];
+      
+      // Try toolbar button first
+      const button = await this.selectors.find(frame, format.button);
+      if (button) {
+        await button.click();
+      } else {
+        // Use keyboard shortcut
+        const modifiers = format.shortcut.slice(0, -1);
+        for (const key of modifiers) {
+          await page.keyboard.down(key);
+        }
+        await page.keyboard.press(format.shortcut[format.shortcut.length - 1]);
+        for (const key of modifiers) {
+          await page.keyboard.up(key);
+        }
+      }
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkFormatted(before, after, params.format, params.selection));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            format: params.format,
+            applied: true,
+            // Without a selection only the text is checked, not the formatting.
+            verified: params.selection !== undefined,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to format text: ${error}`
+      );
+    }
+  }
+
+  private async createList(page: Page, params: z.infer<typeof CreateListSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      
+      // Click list button
+      const listButton = await this.selectors.find(
+        frame,
+        params.listType === 'bullet' ? 'bulletListButton' : 'numberedListButton'
+      );
+      if (listButton) {
+        await listButton.click();
+      }
+
+      // Type list items
+      for (let i = 0; i < params.items.length; i++) {
+        await editor.type(params.items[i]);
+        if (i < params.items.length - 1) {
+          await page.keyboard.press('Enter');
+        }
+      }
+
+      // Exit list mode
+      await page.keyboard.press('Enter');
+      await page.keyboard.press('Enter');
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(
+        before,
+        after,
+        checkList(before, after, params.listType === 'numbered', params.items)
+      );
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            listType: params.listType,
+            itemCount: params.items.length,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to create list: ${error}`
+      );
+    }
+  }
+
+  private async insertLink(page: Page, params: z.infer<typeof InsertLinkSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
+
+      const { frame, editor } = await this.focusEditor(page);
+      
+      // Type the text
+      await editor.type(params.text);
+      
+      // Select the text
+      for (let i = 0; i < params.text.length; i++) {
+        await page.keyboard.down('Shift');
+        await page.keyboard.press('ArrowLeft');
+        await page.keyboard.up('Shift');
+      }
+      
+      // Open link dialog
+      await page.keyboard.down('Control');
+      await page.keyboard.press('k');
+      await page.keyboard.up('Control');
+      
+      await this.settle(frame);
+      
+      // Type URL
+      await page.keyboard.type(params.url);
+      await page.keyboard.press('Enter');
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkLink(before, after, params.text, params.url));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            text: params.text,
+            url: params.url,
+            verified: true,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to insert link: ${error}`
+      );
+    }
+  }
+
+  private async changeFont(page: Page, params: z.infer<typeof ChangeFontSchema>) {
+    
+    try {
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
+
+      // Select all text
+      const { frame } = await this.focusEditor(page);
+      await page.keyboard.down('Control');
+      await page.keyboard.press('a');
+      await page.keyboard.up('Control');
+      
+      // Change font family
+      if (params.fontFamily) {
+        await this.selectors.click(frame, 'fontFamilyButton');
+        await this.selectors.click(page, 'fontFamilyOption', { value: params.fontFamily });
+      }
+      
+      // Change font size
+      if (params.fontSize) {
+        await this.selectors.click(frame, 'fontSizeButton');
+        await this.selectors.click(page, 'fontSizeOption', { value: String(params.fontSize) });
+      }
+
+      await this.waitForEditorSaved(page, frame);
+
+      // Fonts are not part of the snapshot, so only the text can be checked.
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkFont(before, after));
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            fontFamily: params.fontFamily,
+            fontSize: params.fontSize,
+            verified: false,
+            changes,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to change font: ${error}`
+      );
+    }
+  }
+
+  // Download a document through its menu into `directory`.
+  private async downloadTo(
+    page: Page,
+    documentUrl: string,
+    format: ExportFormat,
+    directory: string
+  ): Promise<DownloadedFile> {
+    await this.navigate(page, documentUrl);
+
+    const file = await captureDownload(page, join(this.config.downloadDir, '.incoming'), directory, async () => {
+      await this.openDocumentMenu(page, 'menuDownload');
+
+      // Pick the format when the menu offers a choice
+      await this.settle(page);
+      const formatButton = await this.selectors.find(page, 'downloadFormatOption', {
+        format: format.toUpperCase(),
+        extension: EXPORT_EXTENSIONS[format],
+      });
+      if (formatButton) {
+        await formatButton.click();
+      }
+    }, this.config.timeout);
+
+    // Without a format choice in the menu Proton downloads its default format.
+    if (extname(file.filename).toLowerCase() !== `.${EXPORT_EXTENSIONS[format]}`) {
+      unlinkSync(file.path);
+      throw new DownloadError(`Asked for ${format} but the download was ${file.filename}`);
+    }
+    return file;
+  }
+
+  private async downloadDocument(page: Page, params: z.infer<typeof DownloadDocumentSchema>) {
+    
+    try {
+      const file = await this.downloadTo(page, params.documentUrl, params.format, this.config.downloadDir);
+      this.log(`downloaded ${file.path} (${file.size} bytes)`);
+
+      const result: ToolResult = {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: true,
+            format: params.format,
+            ...file,
+          }, null, 2),
+        }],
+      };
+      if (params.inline) {
+        const data = readFileSync(file.path);
+        result.content.push({
+          type: 'resource',
+          resource: {
+            uri: pathToFileURL(file.path).href,
+            mimeType: file.mimeType,
+            ...(isTextMimeType(file.mimeType)
+              ? { text: data.toString('utf8') }
+              : { blob: data.toString('base64') }),
+          },
+        });
+      }
+      return result;
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to download document: ${error}`
+      );
+    }
+  }
+
+  private async exportAll(page: Page, params: z.infer<typeof ExportAllSchema>) {
+
+    try {
+      const summary = await this.exportDocuments(page, {
+        directory: params.outputDir ?? join(this.config.downloadDir, 'export'),
+        format: params.format,
+        incremental: params.incremental,
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            success: summary.failed.length === 0,
+            ...summary,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to export documents: ${error}`
       );
     }
   }
 
-  private async readDocument(args: unknown) {
-    const params = ReadDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+  /**
+   * Download every document in the listing into `directory`. Progress is
+   * recorded in the manifest after each document, so a failed or
+   * interrupted run can simply be repeated.
+   */
+  private async exportDocuments(
+    page: Page,
+    options: {
+      directory: string;
+      format: ExportFormat;
+      incremental: boolean;
+      onProgress?: (message: string) => void;
+    }
+  ): Promise<ExportSummary> {
+    const directory = resolve(options.directory);
+    const progress = options.onProgress ?? ((message: string) => this.log(message));
+    mkdirSync(directory, { recursive: true });
+
+    const listAll = async () => {
+      await this.navigate(page, `${this.config.baseUrl}/recents`);
+      await this.selectors.waitFor(page, 'documentTable');
+      const { rows } = await collectRows(page, this.selectors, { timeout: this.config.toolTimeout });
+      return rows.filter((row) => row.url);
+    };
+
+    const previous = new Map(
+      (options.incremental ? loadManifest(directory)?.documents ?? [] : []).map((entry) => [entry.url, entry])
+    );
+    const rows = await listAll();
+    progress(`exporting ${rows.length} documents to ${directory}`);
+
+    // Documents keep the file they were exported to before.
+    const taken = new Set(rows.flatMap((row) => {
+      const entry = previous.get(row.url);
+      return entry ? [entry.file.toLowerCase()] : [];
+    }));
+    const manifest: ExportManifest = { version: 1, updatedAt: new Date().toISOString(), documents: [] };
+    const summary: ExportSummary = {
+      directory,
+      manifest: join(directory, MANIFEST_FILE),
+      exported: 0,
+      skipped: 0,
+      failed: [],
+    };
+    const exportedUrls = new Set<string>();
+
+    for (const [index, row] of rows.entries()) {
+      const before = previous.get(row.url);
+      if (isUnchanged(before, row, options.format, directory)) {
+        manifest.documents.push(before!);
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        const relative = before?.format === options.format ? before.file : exportPath(row, options.format, taken);
+        const file = await this.withDocumentLock(row.url, () =>
+          this.downloadTo(page, row.url, options.format, join(directory, '.staging'))
+        );
+        moveInto(directory, file.path, relative);
+        manifest.documents.push({
+          url: row.url,
+          title: row.title,
+          owner: row.createdBy,
+          location: row.location,
+          modified: row.modified,
+          viewed: row.viewed,
+          format: options.format,
+          file: relative,
+          size: file.size,
+          sha256: file.sha256,
+          exportedAt: new Date().toISOString(),
+        });
+        exportedUrls.add(row.url);
+        summary.exported++;
+        progress(`[${index + 1}/${rows.length}] ${relative}`);
+      } catch (error) {
+        summary.failed.push({ url: row.url, title: row.title, error: String(error) });
+        if (before) manifest.documents.push(before);
+        progress(`[${index + 1}/${rows.length}] failed: ${row.title}: ${error}`);
+      }
+
+      manifest.updatedAt = new Date().toISOString();
+      saveManifest(directory, manifest);
+    }
+
+    // Opening a document to export it changes its "last viewed" time. Record
+    // the times as they are now, so the next run does not see every exported
+    // document as changed.
+    if (exportedUrls.size > 0) {
+      const current = new Map((await listAll()).map((row) => [row.url, row]));
+      for (const entry of manifest.documents) {
+        const row = current.get(entry.url);
+        if (row && exportedUrls.has(entry.url)) {
+          entry.viewed = row.viewed;
+          entry.modified = row.modified;
+        }
+      }
+    }
+    manifest.updatedAt = new Date().toISOString();
+    saveManifest(directory, manifest);
+    return summary;
+  }
+
+  /** Run a full or incremental export outside of MCP (the export-all command). */
+  async runExport(options: ExportCommandOptions): Promise<ExportSummary> {
+    return this.pool.use((page) => this.exportDocuments(page, {
+      directory: options.output ?? join(this.config.downloadDir, 'export'),
+      format: options.format,
+      incremental: !options.full,
+      onProgress: (message) => console.error(message),
+    }));
+  }
+
+  // Wait until a Drive folder view has loaded after navigation.
+  private async waitForFolderView(page: Page) {
+    await page.waitForFunction(() => /\/folder\//.test(location.pathname), { timeout: this.config.timeout });
+    await this.selectors.waitFor(page, 'driveBreadcrumbs');
+    await this.settle(page);
+  }
+
+  private async currentFolder(page: Page): Promise<DriveFolder> {
+    const parsed = parseFolderUrl(page.url());
+    if (!parsed) {
+      throw new Error(`${page.url()} is not a Drive folder`);
+    }
+    const segments = splitFolderPath((await readBreadcrumbs(page, this.selectors)).join('/'));
+    return {
+      id: parsed.folderId,
+      name: segments[segments.length - 1] ?? ROOT_FOLDER_NAME,
+      path: joinFolderPath(segments),
+      url: page.url(),
+    };
+  }
+
+  /**
+   * Open a Drive folder by path or id; the root when neither is given.
+   * Paths are followed one folder at a time from the root.
+   */
+  private async openFolder(page: Page, ref: { folder?: string; folderId?: string }): Promise<DriveFolder> {
+    await this.navigate(page, this.config.driveUrl);
+    await this.waitForFolderView(page);
 
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]', {
-        timeout: 15000,
-      });
+    if (ref.folderId) {
+      const root = parseFolderUrl(page.url())!;
+      await this.navigate(page, folderUrl(this.config.driveUrl, root.shareId, ref.folderId));
+      await this.waitForFolderView(page);
+      return this.currentFolder(page);
+    }
 
-      const content = await this.page!.evaluate(() => {
-        const iframe = document.querySelector('iframe[data-testid="editor-frame-edit"]') as HTMLIFrameElement;
-        if (iframe && iframe.contentDocument) {
-          const editor = iframe.contentDocument.querySelector('[data-testid="main-editor"]');
-          if (editor) {
-            return {
-              text: editor.textContent || '',
-              html: editor.innerHTML || '',
-            };
-          }
-        }
-        return { text: '', html: '' };
-      });
+    const segments = splitFolderPath(ref.folder ?? '');
+    for (const [depth, name] of segments.entries()) {
+      const row = await findDriveRow(page, this.selectors, name, 'folder');
+      if (!row) {
+        throw new Error(`Folder "${name}" not found in ${joinFolderPath(segments.slice(0, depth))}`);
+      }
+      const previous = page.url();
+      await row.click({ clickCount: 2 });
+      await page.waitForFunction((url) => location.href !== url, { timeout: this.config.timeout }, previous);
+      await this.waitForFolderView(page);
+    }
+    return this.currentFolder(page);
+  }
 
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify(content, null, 2),
-        }],
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to read document: ${error}`
-      );
+  // Open the parent of a folder and return the folder's row in it.
+  private async openFolderRow(page: Page, ref: { folder?: string; folderId?: string }) {
+    const folder = await this.openFolder(page, ref);
+    const segments = splitFolderPath(folder.path);
+    if (segments.length === 0) {
+      throw new Error(`${ROOT_FOLDER_NAME} cannot be renamed or deleted`);
     }
+    const parent = await this.openFolder(page, { folder: joinFolderPath(segments.slice(0, -1)) });
+    const row = await findDriveRow(page, this.selectors, folder.name, 'folder', folder.id);
+    if (!row) {
+      throw new Error(`Folder "${folder.name}" not found in ${parent.path}`);
+    }
+    return { folder, parent, row };
   }
 
-  private async createDocument(args: unknown) {
-    const params = CreateDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      await this.page!.goto('https://docs.proton.me/u/1/doc', {
-        waitUntil: 'networkidle2',
-      });
+  // Find a document's row in the document listing, which knows its folder.
+  private async locateDocument(page: Page, documentUrl: string): Promise<DocumentRow> {
+    const id = documentId(documentUrl);
+    await this.navigate(page, `${this.config.baseUrl}/recents`);
+    await this.selectors.waitFor(page, 'documentTable');
+    const { rows } = await collectRows(page, this.selectors, {
+      timeout: this.config.timeout,
+      enough: (collected) => collected.some((row) => documentId(row.url) === id),
+    });
+    const row = rows.find((candidate) => documentId(candidate.url) === id);
+    if (!row) {
+      throw new Error(`Document ${documentUrl} not found in the document list`);
+    }
+    return row;
+  }
 
-      await this.page!.waitForTimeout(3000);
+  /** Move a document from the folder it is listed in to `target`. */
+  private async moveDocumentTo(page: Page, document: DocumentRow, target: DriveFolder) {
+    const source = await this.openFolder(page, { folder: folderSegments(document.location).join('/') });
+    const row = await findDriveRow(page, this.selectors, document.title, 'document', documentId(document.url));
+    if (!row) {
+      throw new Error(`Document "${document.title}" not found in ${source.path}`);
+    }
 
-      // Check if rename dialog appears
-      const renameInput = await this.page!.$('[data-testid="input-input-element"]');
-      if (renameInput) {
-        await renameInput.click({ clickCount: 3 });
-        await renameInput.type(params.title);
-        await this.page!.keyboard.press('Enter');
-      } else {
-        // Click on document title to rename
-        await this.page!.click('[data-testid="document-name-dropdown"]');
-        await this.page!.waitForSelector('[data-testid="dropdown-rename"]');
-        await this.page!.click('[data-testid="dropdown-rename"]');
-        await this.page!.waitForSelector('[data-testid="input-input-element"]');
-        const titleInput = await this.page!.$('[data-testid="input-input-element"]');
-        await titleInput!.click({ clickCount: 3 });
-        await titleInput!.type(params.title);
-        await this.page!.keyboard.press('Enter');
-      }
+    await row.click({ button: 'right' });
+    await this.selectors.click(page, 'driveMenuMove');
+    for (const name of [ROOT_FOLDER_NAME, ...splitFolderPath(target.path)]) {
+      await this.selectors.click(page, 'driveMoveTarget', { name });
+      await this.settle(page);
+    }
+    await this.selectors.click(page, 'driveMoveConfirm');
+    await waitForNetworkQuiet(page, this.config.timeout);
+    await this.settle(page);
+    return source;
+  }
 
-      // Add content if provided
-      if (params.content) {
-        await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-        const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-        if (frame) {
-          await frame.click('[data-testid="main-editor"]');
-          await frame.type('[data-testid="main-editor"]', params.content);
-        }
+  /**
+   * Move a newly created document into the folder requested for it. When
+   * that fails the document is moved to the trash, so a failed call does not
+   * leave a stray copy in the root folder.
+   */
+  private async placeNewDocument(page: Page, documentUrl: string, ref: { folder?: string; folderId?: string }) {
+    if (ref.folder === undefined && ref.folderId === undefined) return undefined;
+    try {
+      const target = await this.openFolder(page, ref);
+      await this.moveDocumentTo(page, await this.locateDocument(page, documentUrl), target);
+      return target;
+    } catch (error) {
+      try {
+        await this.moveToTrash(page, documentUrl);
+      } catch (trashError) {
+        throw new Error(`${error}; the new document ${documentUrl} is left in ${ROOT_FOLDER_NAME} (${trashError})`);
       }
+      throw new Error(`${error}; the new document was moved to the trash`);
+    }
+  }
+
+  private async listFolder(page: Page, params: z.infer<typeof ListFolderSchema>) {
 
-      await this.page!.waitForTimeout(2000);
-      const documentUrl = this.page!.url();
+    try {
+      const folder = await this.openFolder(page, params);
+      const items = await scrapeDriveItems(page, this.selectors);
+      const base = splitFolderPath(folder.path);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            success: true,
-            documentUrl,
-            title: params.title,
+            folder,
+            folders: items.filter((item) => item.kind === 'folder').map((item) => ({
+              id: item.id,
+              name: item.name,
+              path: joinFolderPath([...base, item.name]),
+            })),
+            documents: items.filter((item) => item.kind === 'document').map((item) => ({
+              id: item.id,
+              title: item.name,
+            })),
+            files: items.filter((item) => item.kind === 'file').map((item) => ({
+              id: item.id,
+              name: item.name,
+            })),
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to create document: ${error}`
+        `Failed to list folder: ${error}`
       );
     }
   }
 
-  private async searchDocuments(args: unknown) {
-    const params = SearchDocumentsSchema.parse(args);
-    await this.ensureBrowser();
-    
+  private async createFolder(page: Page, params: z.infer<typeof CreateFolderSchema>) {
+
     try {
-      await this.page!.goto('https://docs.proton.me/u/1/recents', {
-        waitUntil: 'networkidle2',
-      });
+      const parent = await this.openFolder(page, { folder: params.parent, folderId: params.parentId });
+      if (await findDriveRow(page, this.selectors, params.name, 'folder')) {
+        throw new Error(`${parent.path} already has a folder named "${params.name}"`);
+      }
 
-      const searchInput = await this.page!.waitForSelector('input[placeholder*="Search"]');
-      await searchInput.type(params.query);
-      await this.page!.keyboard.press('Enter');
-      await this.page!.waitForTimeout(2000);
-
-      const results = await this.page!.evaluate(() => {
-        const rows = document.querySelectorAll('tbody tr');
-        const docs = [];
-        
-        rows.forEach(row => {
-          const titleCell = row.querySelector('td:first-child');
-          if (titleCell) {
-            docs.push({
-              title: titleCell.textContent?.trim() || '',
-              url: row.getAttribute('data-url') || '',
-            });
-          }
-        });
-        
-        return docs;
-      });
+      await this.selectors.click(page, 'driveNewButton');
+      await this.selectors.click(page, 'driveNewFolderOption');
+      const nameInput = await this.selectors.waitFor(page, 'nameInput');
+      await nameInput.click({ clickCount: 3 });
+      await nameInput.type(params.name);
+      await page.keyboard.press('Enter');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(page);
+
+      // Open the new folder to learn its id.
+      const folder = await this.openFolder(page, { folder: joinFolderPath([...splitFolderPath(parent.path), params.name]) });
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            query: params.query,
-            results,
-            count: results.length,
+            success: true,
+            folder,
+            parent,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to search documents: ${error}`
+        `Failed to create folder: ${error}`
       );
     }
   }
 
-  private async editDocument(args: unknown) {
-    const params = EditDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
+  private async renameFolder(page: Page, params: z.infer<typeof RenameFolderSchema>) {
+
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+      const { folder, parent, row } = await this.openFolderRow(page, params);
 
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        await frame.click('[data-testid="main-editor"]');
-        
-        if (params.append) {
-          await this.page!.keyboard.down('Control');
-          await this.page!.keyboard.press('End');
-          await this.page!.keyboard.up('Control');
-          await this.page!.keyboard.press('Enter');
-        } else {
-          await this.page!.keyboard.down('Control');
-          await this.page!.keyboard.press('a');
-          await this.page!.keyboard.up('Control');
-        }
+      await row.click({ button: 'right' });
+      await this.selectors.click(page, 'driveMenuRename');
+      const nameInput = await this.selectors.waitFor(page, 'nameInput');
+      await nameInput.click({ clickCount: 3 });
+      await nameInput.type(params.newName);
+      await page.keyboard.press('Enter');
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(page);
 
-        await frame.type('[data-testid="main-editor"]', params.content);
+      if (!await findDriveRow(page, this.selectors, params.newName, 'folder', folder.id)) {
+        throw new Error(`Folder "${params.newName}" does not show up in ${parent.path} after renaming`);
+      }
+      // Compared exactly, so that changing only the case of a name is checked too.
+      const items = await scrapeDriveItems(page, this.selectors);
+      if (folder.name !== params.newName && items.some((item) => item.kind === 'folder' && item.name === folder.name)) {
+        throw new Error(`Folder "${folder.name}" is still in ${parent.path} after renaming`);
       }
-
-      await this.page!.waitForTimeout(2000);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            documentUrl: params.documentUrl,
-            action: params.append ? 'appended' : 'replaced',
+            previousPath: folder.path,
+            folder: {
+              ...folder,
+              name: params.newName,
+              path: joinFolderPath([...splitFolderPath(parent.path), params.newName]),
+            },
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to edit document: ${error}`
+        `Failed to rename folder: ${error}`
       );
     }
   }
 
-  private async deleteDocument(args: unknown) {
-    const params = DeleteDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      if (params.permanent) {
-        // Navigate to trash first
-        await this.page!.goto('https://docs.proton.me/u/1/trash', {
-          waitUntil: 'networkidle2',
-        });
-        
-        // Find and permanently delete the document
-        // This would need specific implementation based on trash UI
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          "Permanent deletion from trash not yet implemented"
-        );
-      } else {
-        // Move to trash
-        await this.page!.goto(params.documentUrl, {
-          waitUntil: 'networkidle2',
-        });
-
-        await this.page!.click('[data-testid="document-name-dropdown"]');
-        await this.page!.waitForSelector('[data-testid="dropdown-move-to-trash"]');
-        await this.page!.click('[data-testid="dropdown-move-to-trash"]');
-        
-        // Confirm if needed
-        const confirmButton = await this.page!.$('button:has-text("Move to trash")');
-        if (confirmButton) {
-          await confirmButton.click();
-        }
-
-        await this.page!.waitForTimeout(2000);
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify({
-              success: true,
-              action: 'moved_to_trash',
-              documentUrl: params.documentUrl,
-            }, null, 2),
-          }],
-        };
-      }
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Failed to delete document: ${error}`
-      );
-    }
-  }
+  private async deleteFolder(page: Page, params: z.infer<typeof DeleteFolderSchema>) {
 
-  private async shareDocument(args: unknown) {
-    const params = ShareDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
-
-      // Click share button
-      await this.page!.click('button:has-text("Share")');
-      await this.page!.waitForTimeout(1000);
+      const { folder, parent, row } = await this.openFolderRow(page, params);
 
-      // Enter email
-      const emailInput = await this.page!.waitForSelector('input[type="email"]');
-      await emailInput.type(params.email);
-
-      // Set permission if edit
-      if (params.permission === 'edit') {
-        const permissionDropdown = await this.page!.$('[data-testid="permission-dropdown"]');
-        if (permissionDropdown) {
-          await permissionDropdown.click();
-          await this.page!.click('button:has-text("Can edit")');
-        }
+      await row.click({ button: 'right' });
+      await this.selectors.click(page, 'driveMenuTrash');
+      const confirm = await this.selectors.find(page, 'confirmTrashButton');
+      if (confirm) {
+        await confirm.click();
       }
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await this.settle(page);
 
-      // Send invitation
-      await this.page!.click('button:has-text("Send")');
-      await this.page!.waitForTimeout(2000);
+      if (await findDriveRow(page, this.selectors, folder.name, 'folder', folder.id)) {
+        throw new Error(`Folder "${folder.name}" is still in ${parent.path} after moving it to the trash`);
+      }
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            documentUrl: params.documentUrl,
-            sharedWith: params.email,
-            permission: params.permission,
+            folder,
+            trashed: true,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to share document: ${error}`
+        `Failed to delete folder: ${error}`
       );
     }
   }
 
-  private async formatText(args: unknown) {
-    const params = FormatTextSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
-
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        // Select text if provided
-        if (params.selection) {
-          await frame.click('[data-testid="main-editor"]');
-          await this.page!.keyboard.down('Control');
-          await this.page!.keyboard.press('f');
-          await this.page!.keyboard.up('Control');
-          await this.page!.keyboard.type(params.selection);
-          await this.page!.keyboard.press('Escape');
-        }
-
-        // Apply formatting
-        const formatMap = {
-          bold: { selector: 'button[title*="Bold"]', shortcut: 'Control+b' },
-          italic: { selector: 'button[title*="Italic"]', shortcut: 'Control+i' },
-          underline: { selector: 'button[title*="Underline"]', shortcut: 'Control+u' },
-          strikethrough: { selector: 'button[title*="Strike"]', shortcut: 'Control+Shift+x' },
-        };
+  private async moveDocument(page: Page, params: z.infer<typeof MoveDocumentSchema>) {
 
-        const format = formatMap[params.format];
-        
-        // Try toolbar button first
-        const button = await frame.$(format.selector);
-        if (button) {
-          await button.click();
-        } else {
-          // Use keyboard shortcut
-          const keys = format.shortcut.split('+');
-          for (const key of keys) {
-            if (key !== keys[keys.length - 1]) {
-              await this.page!.keyboard.down(key);
-            }
-          }
-          await this.page!.keyboard.press(keys[keys.length - 1]);
-          for (const key of keys.slice(0, -1)) {
-            await this.page!.keyboard.up(key);
-          }
-        }
-      }
+    try {
+      const target = await this.openFolder(page, params);
+      const document = await this.locateDocument(page, params.documentUrl);
+      const source = await this.moveDocumentTo(page, document, target);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            format: params.format,
-            applied: true,
+            documentUrl: params.documentUrl,
+            title: document.title,
+            from: source,
+            folder: target,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to format text: ${error}`
+        `Failed to move document: ${error}`
       );
     }
   }
 
-  private async createList(args: unknown) {
-    const params = CreateListSchema.parse(args);
-    await this.ensureBrowser();
+  private async copyDocument(page: Page, params: z.infer<typeof CopyDocumentSchema>) {
     
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
-
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        await frame.click('[data-testid="main-editor"]');
-        
-        // Click list button
-        const listSelector = params.listType === 'bullet' 
-          ? 'button[title*="Bullet list"]'
-          : 'button[title*="Numbered list"]';
-        
-        const listButton = await frame.$(listSelector);
-        if (listButton) {
-          await listButton.click();
-        }
+      await this.navigate(page, params.documentUrl);
 
-        // Type list items
-        for (let i = 0; i < params.items.length; i++) {
-          await frame.type('[data-testid="main-editor"]', params.items[i]);
-          if (i < params.items.length - 1) {
-            await this.page!.keyboard.press('Enter');
-          }
-        }
+      // Open document menu
+      await this.openDocumentMenu(page, 'menuMakeCopy');
 
-        // Exit list mode
-        await this.page!.keyboard.press('Enter');
-        await this.page!.keyboard.press('Enter');
-      }
+      // Wait for copy dialog and enter new name
+      const nameInput = await this.selectors.waitFor(page, 'nameInput');
+      await nameInput.click({ clickCount: 3 });
+      await nameInput.type(params.newTitle);
+      
+      // Confirm copy
+      await this.selectors.click(page, 'copyConfirmButton');
+      await waitForNetworkQuiet(page, this.config.timeout);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            listType: params.listType,
-            itemCount: params.items.length,
+            originalUrl: params.documentUrl,
+            newTitle: params.newTitle,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to create list: ${error}`
+        `Failed to copy document: ${error}`
       );
     }
   }
 
-  private async insertLink(args: unknown) {
-    const params = InsertLinkSchema.parse(args);
-    await this.ensureBrowser();
+  private async openVersionHistory(page: Page, documentUrl: string) {
+    await this.navigate(page, documentUrl);
+    await this.openDocumentMenu(page, 'menuVersionHistory');
+    await waitForNetworkQuiet(page, this.config.timeout);
+    await this.settle(page);
+  }
+
+  // Select version `id` in the open version history panel and return the editor of its preview.
+  private async previewVersion(page: Page, id: string) {
+    const found = await findVersion(page, this.selectors, id);
+    if (!found) {
+      throw new Error(`No version ${id}`);
+    }
+    await found.handle.click();
+    await waitForNetworkQuiet(page, this.config.timeout);
+    await this.settle(page);
+
+    const iframe = await this.selectors.waitFor(page, 'versionPreviewFrame');
+    const frame = await iframe.contentFrame();
+    if (!frame) {
+      throw new Error('Version preview frame is not attached');
+    }
+    return { version: found.version, editor: await this.selectors.waitFor(frame, 'mainEditor') };
+  }
+
+  private async getVersionHistory(page: Page, params: z.infer<typeof GetVersionHistorySchema>) {
     
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
-
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        await frame.click('[data-testid="main-editor"]');
-        
-        // Type the text
-        await frame.type('[data-testid="main-editor"]', params.text);
-        
-        // Select the text
-        for (let i = 0; i < params.text.length; i++) {
-          await this.page!.keyboard.down('Shift');
-          await this.page!.keyboard.press('ArrowLeft');
-          await this.page!.keyboard.up('Shift');
-        }
-        
-        // Open link dialog
-        await this.page!.keyboard.down('Control');
-        await this.page!.keyboard.press('k');
-        await this.page!.keyboard.up('Control');
-        
-        await this.page!.waitForTimeout(500);
-        
-        // Type URL
-        await this.page!.keyboard.type(params.url);
-        await this.page!.keyboard.press('Enter');
-      }
+      await this.openVersionHistory(page, params.documentUrl);
+      const versions = await scrapeVersions(page, this.selectors);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            success: true,
-            text: params.text,
-            url: params.url,
+            documentUrl: params.documentUrl,
+            versions,
+            count: versions.length,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to insert link: ${error}`
+        `Failed to get version history: ${error}`
       );
     }
   }
 
-  private async changeFont(args: unknown) {
-    const params = ChangeFontSchema.parse(args);
-    await this.ensureBrowser();
-    
-    try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+  private async readVersion(page: Page, params: z.infer<typeof ReadVersionSchema>) {
 
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        // Select all text
-        await frame.click('[data-testid="main-editor"]');
-        await this.page!.keyboard.down('Control');
-        await this.page!.keyboard.press('a');
-        await this.page!.keyboard.up('Control');
-        
-        // Change font family
-        if (params.fontFamily) {
-          const fontButton = await frame.$('button[aria-label*="Font"]');
-          if (fontButton) {
-            await fontButton.click();
-            await this.page!.waitForTimeout(500);
-            await this.page!.click(`button:has-text("${params.fontFamily}")`);
-          }
-        }
-        
-        // Change font size
-        if (params.fontSize) {
-          const sizeButton = await frame.$('button[aria-label*="Font size"]');
-          if (sizeButton) {
-            await sizeButton.click();
-            await this.page!.waitForTimeout(500);
-            await this.page!.click(`button:has-text("${params.fontSize}px")`);
-          }
-        }
-      }
+    try {
+      await this.openVersionHistory(page, params.documentUrl);
+      const { version, editor } = await this.previewVersion(page, params.versionId);
+      const content = await editor.evaluate(serializeEditor, params.format);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            success: true,
-            fontFamily: params.fontFamily,
-            fontSize: params.fontSize,
+            documentUrl: params.documentUrl,
+            version,
+            format: params.format,
+            content,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to change font: ${error}`
+        `Failed to read version: ${error}`
       );
     }
   }
 
-  private async downloadDocument(args: unknown) {
-    const params = DownloadDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
+  private async diffVersions(page: Page, params: z.infer<typeof DiffVersionsSchema>) {
+    const format = params.mode === 'unified' ? 'markdown' : 'text';
+
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+      await this.openVersionHistory(page, params.documentUrl);
+      const from = await this.previewVersion(page, params.from);
+      const before = await from.editor.evaluate(serializeEditor, format);
 
-      // Open document menu
-      await this.page!.click('[data-testid="document-name-dropdown"]');
-      await this.page!.waitForSelector('[data-testid="dropdown-download"]');
-      await this.page!.click('[data-testid="dropdown-download"]');
-
-      // Select format if there's a submenu
-      if (params.format !== 'docx') {
-        await this.page!.waitForTimeout(500);
-        const formatButton = await this.page!.$(`button:has-text("${params.format.toUpperCase()}")`);
-        if (formatButton) {
-          await formatButton.click();
-        }
+      let to: DocumentVersion | 'current' = 'current';
+      let after: string;
+      if (params.to === 'current') {
+        await this.navigate(page, params.documentUrl);
+        const editor = await this.selectors.waitFor(await this.editorFrame(page), 'mainEditor');
+        after = await editor.evaluate(serializeEditor, format);
+      } else {
+        const preview = await this.previewVersion(page, params.to);
+        to = preview.version;
+        after = await preview.editor.evaluate(serializeEditor, format);
       }
 
-      // Wait for download to start
-      await this.page!.waitForTimeout(3000);
+      const { diff, added, removed } = params.mode === 'unified'
+        ? unifiedDiff(before, after, { fromLabel: params.from, toLabel: params.to, context: params.context })
+        : wordDiff(before, after);
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            success: true,
-            format: params.format,
-            message: "Download initiated",
+            documentUrl: params.documentUrl,
+            from: from.version,
+            to,
+            mode: params.mode,
+            identical: added === 0 && removed === 0,
+            added,
+            removed,
+            diff,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to download document: ${error}`
+        `Failed to diff versions: ${error}`
       );
     }
   }
 
-  private async copyDocument(args: unknown) {
-    const params = CopyDocumentSchema.parse(args);
-    await this.ensureBrowser();
-    
+  private async restoreVersion(page: Page, params: z.infer<typeof RestoreVersionSchema>) {
+
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
+      await this.openVersionHistory(page, params.documentUrl);
+      const { version, editor } = await this.previewVersion(page, params.versionId);
+      const expected = await editor.evaluate(serializeEditor, 'markdown');
 
-      // Open document menu
-      await this.page!.click('[data-testid="document-name-dropdown"]');
-      await this.page!.waitForSelector('[data-testid="dropdown-make-copy"]');
-      await this.page!.click('[data-testid="dropdown-make-copy"]');
+      await this.selectors.click(page, 'versionRestoreButton');
+      await this.settle(page);
+      const confirm = await this.selectors.find(page, 'versionRestoreConfirm');
+      if (confirm) {
+        await confirm.click();
+      }
+      await waitForNetworkQuiet(page, this.config.timeout);
+      await waitForSaved(page, this.selectors, this.config.timeout);
 
-      // Wait for copy dialog and enter new name
-      await this.page!.waitForSelector('[data-testid="input-input-element"]');
-      const nameInput = await this.page!.$('[data-testid="input-input-element"]');
-      await nameInput!.click({ clickCount: 3 });
-      await nameInput!.type(params.newTitle);
-      
-      // Confirm copy
-      await this.page!.click('button:has-text("Copy")');
-      await this.page!.waitForTimeout(3000);
+      // Reload to check what Proton saved, not what the preview showed.
+      await this.navigate(page, params.documentUrl);
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkRestored(after, expected, version.id));
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
             success: true,
-            originalUrl: params.documentUrl,
-            newTitle: params.newTitle,
+            documentUrl: params.documentUrl,
+            restored: version,
+            verified: true,
+            changes,
           }, null, 2),
         }],
       };
     } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to copy document: ${error}`
+        `Failed to restore version: ${error}`
       );
     }
   }
 
-  private async getVersionHistory(args: unknown) {
-    const params = GetVersionHistorySchema.parse(args);
-    await this.ensureBrowser();
+  private async setAlignment(page: Page, params: z.infer<typeof SetAlignmentSchema>) {
     
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
-      });
+      await this.navigate(page, params.documentUrl);
+      const before = await this.snapshotEditor(page);
 
-      // Open document menu
-      await this.page!.click('[data-testid="document-name-dropdown"]');
-      await this.page!.waitForSelector('[data-testid="dropdown-version-history"]');
-      await this.page!.click('[data-testid="dropdown-version-history"]');
-
-      await this.page!.waitForTimeout(2000);
-
-      // Extract version history if panel opens
-      const versions = await this.page!.evaluate(() => {
-        const versionElements = document.querySelectorAll('[data-testid="version-item"]');
-        const versionList = [];
-        
-        versionElements.forEach(el => {
-          const date = el.querySelector('[data-testid="version-date"]')?.textContent;
-          const author = el.querySelector('[data-testid="version-author"]')?.textContent;
-          if (date) {
-            versionList.push({ date, author });
-          }
-        });
-        
-        return versionList;
-      });
+      const { frame } = await this.focusEditor(page);
+      
+      // Select paragraph
+      await page.keyboard.down('Control');
+      await page.keyboard.press('a');
+      await page.keyboard.up('Control');
+      
+      // Click alignment button
+      const alignmentMap: Record<typeof params.alignment, SelectorKey> = {
+        left: 'alignLeftButton',
+        center: 'alignCenterButton',
+        right: 'alignRightButton',
+        justify: 'alignJustifyButton',
+      };
+      
+      const alignButton = await this.selectors.find(frame, alignmentMap[params.alignment]);
+      if (alignButton) {
+        await alignButton.click();
+      }
+      await this.waitForEditorSaved(page, frame);
+
+      const after = await this.snapshotEditor(page);
+      const changes = verifyChange(before, after, checkAlignment(before, after, params.alignment));
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            documentUrl: params.documentUrl,
-            versions,
-            count: versions.length,
+            success: true,
+            alignment: params.alignment,
+            verified: true,
+            changes,
           }, null, 2),
         }],
       };
     } catch (error) {
+      if (error instanceof ChangeVerificationError) throw error;
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to get version history: ${error}`
+        `Failed to set alignment: ${error}`
       );
     }
   }
 
-  private async setAlignment(args: unknown) {
-    const params = SetAlignmentSchema.parse(args);
-    await this.ensureBrowser();
-    
+  private async checkSelectors(page: Page, params: z.infer<typeof CheckSelectorsSchema>) {
+
     try {
-      await this.page!.goto(params.documentUrl, {
-        waitUntil: 'networkidle2',
+      await this.navigate(page, params.documentUrl ?? `${this.config.baseUrl}/recents`);
+
+      const iframe = await this.selectors.find(page, 'editorFrame');
+      const editor = iframe ? await iframe.contentFrame() : null;
+      const results = await this.selectors.check({
+        page,
+        editor,
+        login: isLoginUrl(page.url()) ? page : null,
       });
 
-      await this.page!.waitForSelector('iframe[data-testid="editor-frame-edit"]');
-      const frame = this.page!.frames().find(f => f.name().includes('editor') || f.url().includes('editor'));
-      
-      if (frame) {
-        await frame.click('[data-testid="main-editor"]');
-        
-        // Select paragraph
-        await this.page!.keyboard.down('Control');
-        await this.page!.keyboard.press('a');
-        await this.page!.keyboard.up('Control');
-        
-        // Click alignment button
-        const alignmentMap = {
-          left: 'button[title*="Align left"]',
-          center: 'button[title*="Align center"]',
-          right: 'button[title*="Align right"]',
-          justify: 'button[title*="Justify"]',
-        };
-        
-        const alignButton = await frame.$(alignmentMap[params.alignment]);
-        if (alignButton) {
-          await alignButton.click();
-        }
-      }
+      const count = (status: string) => results.filter((result) => result.status === status).length;
 
       return {
         content: [{
           type: "text",
           text: JSON.stringify({
-            success: true,
-            alignment: params.alignment,
+            url: page.url(),
+            schemaVersion: SELECTOR_SCHEMA_VERSION,
+            revision: this.selectors.revision,
+            summary: {
+              resolved: count('resolved'),
+              missing: count('missing'),
+              skipped: count('skipped'),
+            },
+            results,
           }, null, 2),
         }],
       };
     } catch (error) {
       throw new McpError(
         ErrorCode.InternalError,
-        `Failed to set alignment: ${error}`
+        `Failed to check selectors: ${error}`
       );
     }
   }
@@ -1254,23 +5035,69 @@ class ProtonDocsServer {
   }
 
   async stop() {
-    if (this.browser) {
-      await this.browser.close();
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await this.persistSession().catch((error) => this.log(`could not save session: ${error}`));
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      this.pool.clear();
+      await browser.close();
     }
   }
 }
 
 // Start the server
-const server = new ProtonDocsServer();
-server.start().catch(console.error);
+let cli: CliOptions;
+let config: Config;
+let selectors: SelectorRegistry;
+let prompts: PromptLibrary;
+try {
+  cli = parseCliArgs(process.argv.slice(2));
+  if (cli.help) {
+    console.error(USAGE);
+    process.exit(0);
+  }
+  config = loadConfig(cli);
+  selectors = loadSelectorRegistry(config.selectorsFile);
+  prompts = loadPromptLibrary(config.promptsDir);
+} catch (error) {
+  if (error instanceof ConfigError) {
+    console.error(`proton-docs-mcp: ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  await server.stop();
-  process.exit(0);
-});
+const server = new ProtonDocsServer(config, selectors, prompts);
 
-process.on('SIGTERM', async () => {
-  await server.stop();
-  process.exit(0);
-});
\ No newline at end of file
+if (cli.command === 'export-all') {
+  server.runExport(cli.exportOptions)
+    .then((summary) => {
+      console.log(JSON.stringify(summary, null, 2));
+      process.exitCode = summary.failed.length > 0 ? 1 : 0;
+    })
+    .catch((error) => {
+      console.error(`proton-docs-mcp: export failed: ${error}`);
+      process.exitCode = 1;
+    })
+    .finally(async () => {
+      await server.stop();
+      process.exit();
+    });
+} else {
+  server.start().catch(console.error);
+
+  // Handle graceful shutdown
+  process.on('SIGINT', async () => {
+    await server.stop();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    await server.stop();
+    process.exit(0);
+  });
+}
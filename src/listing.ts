@@ -0,0 +1,268 @@
+import { createHash } from "crypto";
+import { Page } from "puppeteer";
+import { SelectorRegistry } from "./selectors.js";
+import { sleep } from "./waiting.js";
+
+export interface DocumentRow {
+  title: string;
+  url: string;
+  /** Raw "last viewed" cell, as shown in the listing. */
+  viewed: string;
+  /** Raw "last modified" cell; empty when the listing has no such column. */
+  modified: string;
+  createdBy: string;
+  location: string;
+  /** Raw size cell, e.g. "12 KB"; empty when the listing has no such column. */
+  size: string;
+  shared: boolean;
+  /** Raw "deleted" cell; only present in the trash listing. */
+  deleted: string;
+}
+
+/** A listing row with its cells parsed, as returned by list_documents. */
+export interface ListedDocument {
+  id: string;
+  title: string;
+  url: string;
+  owner: string;
+  ownedByMe: boolean;
+  lastViewed: string | null;
+  lastModified: string | null;
+  size: number | null;
+  shared: boolean;
+  folder: string;
+}
+
+/**
+ * Read the rows of the document table on the current page. Columns are
+ * matched by their header text, falling back to the recents layout (name,
+ * viewed, created by, location) when the table has no usable headers.
+ * URLs come from the row's document link, which is absolute and present
+ * even when the row has no `data-url`.
+ */
+export async function scrapeDocumentRows(page: Page, selectors: SelectorRegistry): Promise<DocumentRow[]> {
+  return page.evaluate((tableSelector, rowSelector) => {
+    const table = document.querySelector(tableSelector);
+    const headers = Array.from(table?.querySelectorAll('thead th, [role="columnheader"]') ?? [])
+      .map((cell) => cell.textContent?.trim().toLowerCase() ?? '');
+    const column = (pattern: RegExp, fallback: number) => {
+      const index = headers.findIndex((header) => pattern.test(header));
+      return index >= 0 ? index : headers.length ? -1 : fallback;
+    };
+    const columns = {
+      title: column(/name|title/, 0),
+      viewed: column(/viewed|opened/, 1),
+      modified: column(/modified|updated|edited/, -1),
+      createdBy: column(/created by|owner/, 2),
+      location: column(/location|folder/, 3),
+      size: column(/size/, -1),
+      shared: column(/shar/, -1),
+      deleted: column(/deleted|trashed|removed/, -1),
+    };
+
+    return Array.from(document.querySelectorAll(rowSelector)).flatMap((row) => {
+      const cells = Array.from(row.querySelectorAll('td, [role="gridcell"], [role="cell"]'));
+      const text = (index: number) => (index >= 0 ? cells[index]?.textContent?.trim() ?? '' : '');
+      if (cells.length === 0) return [];
+      const link = (row.querySelector('a[href*="/doc"]') ?? row.querySelector('a[href]')) as HTMLAnchorElement | null;
+      const dataUrl = row.getAttribute('data-url');
+      const sharedIcon = row.querySelector('[aria-label*="hared"], [title*="hared"], [data-testid*="shared"]');
+      const sharedText = text(columns.shared).toLowerCase();
+      return [{
+        title: text(columns.title) || 'Untitled',
+        url: link?.href || (dataUrl ? new URL(dataUrl, location.href).href : ''),
+        viewed: text(columns.viewed),
+        modified: text(columns.modified),
+        createdBy: text(columns.createdBy),
+        location: text(columns.location),
+        size: text(columns.size),
+        shared: sharedIcon !== null || (sharedText !== '' && !/^(no|—|-|private)$/.test(sharedText)),
+        deleted: text(columns.deleted),
+      }];
+    });
+  }, selectors.css('documentTable'), selectors.css('documentRows'));
+}
+
+function rowKey(row: DocumentRow): string {
+  return row.url || `${row.title}\u0000${row.location}`;
+}
+
+/**
+ * Scroll through the document listing, collecting rows as they render. The
+ * table is virtualized, so rows scrolled out of view may leave the DOM; rows
+ * are accumulated in listing order across scroll steps. Stops once `enough`
+ * returns true, when scrolling loads no new rows (`complete`), or after
+ * `timeout`.
+ */
+export async function collectRows(
+  page: Page,
+  selectors: SelectorRegistry,
+  options: { timeout: number; enough?: (rows: DocumentRow[]) => boolean }
+): Promise<{ rows: DocumentRow[]; complete: boolean }> {
+  const deadline = Date.now() + options.timeout;
+  const rows = new Map<string, DocumentRow>();
+
+  while (Date.now() < deadline) {
+    const before = rows.size;
+    for (const row of await scrapeDocumentRows(page, selectors)) {
+      if (!rows.has(rowKey(row))) rows.set(rowKey(row), row);
+    }
+    if (options.enough?.([...rows.values()])) {
+      return { rows: [...rows.values()], complete: false };
+    }
+    if (before === rows.size && before > 0) {
+      return { rows: [...rows.values()], complete: true };
+    }
+
+    const scrolled = await page.evaluate((rowSelector) => {
+      const all = document.querySelectorAll(rowSelector);
+      all[all.length - 1]?.scrollIntoView({ block: 'end' });
+      return all.length > 0;
+    }, selectors.css('documentRows'));
+    if (!scrolled) return { rows: [], complete: true };
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => sleep(500));
+  }
+  return { rows: [...rows.values()], complete: false };
+}
+
+/** Folder names of a location cell such as "My files / Specs". */
+export function folderSegments(location: string): string[] {
+  return location.split(/\s*[/›>]\s*/).filter(Boolean);
+}
+
+// Stable id of a document: the link id in Proton Docs URLs, else the last path segment.
+export function documentId(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.searchParams.get('linkId')
+      ?? parsed.pathname.split('/').filter(Boolean).pop()
+      ?? url;
+  } catch {
+    return url;
+  }
+}
+
+const UNIT_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function withTime(date: Date, time: string | undefined): Date {
+  const match = time?.match(/(\d{1,2})[:.](\d{2})\s*([ap]\.?m\.?)?/i);
+  if (!match) return date;
+  let hours = Number(match[1]) % 24;
+  if (match[3]?.toLowerCase().startsWith('p') && hours < 12) hours += 12;
+  if (match[3]?.toLowerCase().startsWith('a') && hours === 12) hours = 0;
+  date.setHours(hours, Number(match[2]), 0, 0);
+  return date;
+}
+
+/**
+ * Parse a listing timestamp ("Just now", "5 minutes ago", "Today, 10:32",
+ * "Yesterday at 9:15 PM", "Monday", "Mar 12", "Mar 12, 2025") in the local
+ * time zone. Returns an ISO string, or null when the text is not a date.
+ */
+export function parseListingDate(text: string, now = new Date()): string | null {
+  const value = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!value || /^[—–-]$/.test(value)) return null;
+  if (/^(just now|now|a moment ago)$/.test(value)) return now.toISOString();
+
+  const relative = value.match(/^(an?|\d+) (second|minute|hour|day|week|month|year)s? ago$/);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? Number(relative[1]) : 1;
+    return new Date(now.getTime() - amount * UNIT_MS[relative[2]]).toISOString();
+  }
+
+  const day = value.match(/^(today|yesterday)(?:,? (?:at )?(.+))?$/);
+  if (day) {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    if (day[1] === 'yesterday') date.setDate(date.getDate() - 1);
+    return withTime(date, day[2]).toISOString();
+  }
+
+  const weekday = value.match(/^(sunday|monday|tuesday|wednesday|thursday|friday|saturday)(?:,? (?:at )?(.+))?$/);
+  if (weekday) {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    const back = (now.getDay() - WEEKDAYS.indexOf(weekday[1]) + 7) % 7 || 7;
+    date.setDate(date.getDate() - back);
+    return withTime(date, weekday[2]).toISOString();
+  }
+
+  // Absolute dates; the current year is implied when none is shown. The
+  // Date parser accepts almost any text containing a year, so a month name
+  // or a numeric date is required.
+  const cleaned = value.replace(/,? at /, ' ');
+  if (!/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b|\d{1,4}[./-]\d{1,2}/.test(cleaned)) return null;
+  const hasYear = /\b\d{4}\b/.test(cleaned);
+  let parsed = new Date(hasYear ? cleaned : `${cleaned} ${now.getFullYear()}`);
+  if (isNaN(parsed.getTime())) return null;
+  if (!hasYear && parsed > now) {
+    parsed = new Date(parsed.setFullYear(parsed.getFullYear() - 1));
+  }
+  return parsed.toISOString();
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/** Bytes of a size cell such as "12 KB" or "1.5 MB"; null when not a size. */
+export function parseSize(text: string): number | null {
+  const match = text.trim().toLowerCase().replace(',', '.').match(/^([\d.]+)\s*(b|kb|mb|gb|bytes?)$/);
+  if (!match) return null;
+  const unit = match[2].startsWith('byte') ? 'b' : match[2];
+  return Math.round(Number(match[1]) * SIZE_UNITS[unit]);
+}
+
+/** Parse a listing row. `email` identifies the account's own documents. */
+export function toListedDocument(row: DocumentRow, email?: string, now = new Date()): ListedDocument {
+  const owner = row.createdBy.trim();
+  return {
+    id: documentId(row.url),
+    title: row.title,
+    url: row.url,
+    owner,
+    ownedByMe: /^(me|you)$/i.test(owner) || (!!email && owner.toLowerCase() === email.toLowerCase()),
+    lastViewed: parseListingDate(row.viewed, now),
+    lastModified: parseListingDate(row.modified, now),
+    size: parseSize(row.size),
+    shared: row.shared,
+    folder: folderSegments(row.location).join('/'),
+  };
+}
+
+/**
+ * Opaque page token for list_documents. It records the offset of the next
+ * page and a fingerprint of the query, so a cursor cannot be reused with
+ * different search, sort or filter options.
+ */
+export function encodeCursor(offset: number, query: unknown): string {
+  return Buffer.from(JSON.stringify({ offset, query: fingerprint(query) })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, query: unknown): number {
+  let decoded: { offset?: unknown; query?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  if (typeof decoded.offset !== 'number' || decoded.offset < 0) {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.query !== fingerprint(query)) {
+    throw new Error('Cursor was issued for a different query');
+  }
+  return decoded.offset;
+}
+
+function fingerprint(query: unknown): string {
+  return createHash('sha256').update(JSON.stringify(query)).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,272 @@
+/**
+ * Markdown to HTML for pasting into the Proton Docs editor. Covers the
+ * subset the editor can represent (and that `serializeEditor` produces):
+ * headings, paragraphs, emphasis, links, images, lists with task items,
+ * tables, fenced code, blockquotes and horizontal rules.
+ */
+
+export type InputFormat = 'markdown' | 'text' | 'html';
+
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?: +|$)/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const REFERENCE = /^ {0,3}\[([^\]]+)\]:\s*<?(\S+?)>?(?:\s+["'(].*["')])?\s*$/;
+
+type References = Map<string, string>;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function safeUrl(url: string): string {
+  return /^\s*(javascript|vbscript|data:text\/html)/i.test(url) ? '#' : escapeHtml(url);
+}
+
+function renderInline(text: string, refs: References): string {
+  const stash: string[] = [];
+  const keep = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+  const lookup = (label: string) => refs.get(label.trim().toLowerCase());
+
+  let out = text
+    .replace(/(?<!\\)(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _fence, code: string) =>
+      keep(`<code>${escapeHtml(code.replace(/^ (.*) $/, '$1'))}</code>`))
+    .replace(/(?: {2,}|\\)\n/g, () => keep('<br>'))
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) => keep(escapeHtml(char)))
+    .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, src: string) =>
+      keep(`<img src="${safeUrl(src)}" alt="${escapeHtml(alt)}">`))
+    .replace(/!\[([^\]]*)\]\[([^\]]*)\]/g, (match, alt: string, label: string) => {
+      const src = lookup(label || alt);
+      return src === undefined ? match : keep(`<img src="${safeUrl(src)}" alt="${escapeHtml(alt)}">`);
+    })
+    .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, href: string) =>
+      keep(`<a href="${safeUrl(href)}">${renderInline(label, refs)}</a>`))
+    .replace(/\[([^\]]+)\]\[([^\]]*)\]/g, (match, label: string, ref: string) => {
+      const href = lookup(ref || label);
+      return href === undefined ? match : keep(`<a href="${safeUrl(href)}">${renderInline(label, refs)}</a>`);
+    })
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, (_, url: string) =>
+      keep(`<a href="${safeUrl(url)}">${escapeHtml(url)}</a>`))
+    .replace(/<(\/?)(u|sub|sup|mark|br)\s*\/?>/gi, (_, close: string, tag: string) =>
+      keep(`<${close}${tag.toLowerCase()}>`));
+
+  out = escapeHtml(out)
+    .replace(/(\*\*\*|___)(?=\S)([\s\S]*?\S)\1/g, '<strong><em>$2</em></strong>')
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+    .replace(/(?<![\w\\])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '<em>$1</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+    .replace(/\n/g, ' ');
+
+  // Stashed fragments can contain other placeholders (e.g. a link label
+  // holding an escaped character), so restore until none are left.
+  while (/\u0000\d+\u0000/.test(out)) {
+    out = out.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]);
+  }
+  return out;
+}
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+function renderTable(lines: string[], refs: References): string {
+  const alignments = splitRow(lines[1]).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+  });
+  const row = (line: string, tag: 'th' | 'td') =>
+    '<tr>' + splitRow(line).map((cell, i) => {
+      const align = alignments[i] ? ` style="text-align: ${alignments[i]}"` : '';
+      // `<br>` is how line breaks inside a cell are written in Markdown tables.
+      return `<${tag}${align}>${renderInline(cell, refs)}</${tag}>`;
+    }).join('') + '</tr>';
+
+  const body = lines.slice(2).map((line) => row(line, 'td')).join('');
+  return `<table><thead>${row(lines[0], 'th')}</thead>${body ? `<tbody>${body}</tbody>` : ''}</table>`;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function indentOf(line: string): number {
+  return line.match(/^ */)![0].length;
+}
+
+function renderList(lines: string[], start: number, refs: References): { html: string; next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = LIST_ITEM.exec(line);
+    if (match && match[1].length === indent && /\d/.test(match[2]) === ordered) {
+      contentIndent = match[0].length;
+      items.push([line.slice(contentIndent)]);
+      i++;
+    } else if (!line.trim()) {
+      // A blank line ends the list unless the item or list continues after it.
+      const next = lines.slice(i + 1).find((candidate) => candidate.trim());
+      if (next === undefined || indentOf(next) < indent || (indentOf(next) === indent && !LIST_ITEM.test(next))) break;
+      items[items.length - 1].push('');
+      i++;
+    } else if (indentOf(line) > indent) {
+      items[items.length - 1].push(line.slice(Math.min(contentIndent, indentOf(line))));
+      i++;
+    } else if (!startsBlock(line) && items[items.length - 1].at(-1)) {
+      // Lazy continuation of the item's paragraph.
+      items[items.length - 1].push(line.trim());
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  let task = false;
+  const body = items.map((itemLines) => {
+    const checkbox = itemLines[0].match(/^\[([ xX])\]\s+/);
+    let attributes = '';
+    if (checkbox) {
+      task = true;
+      attributes = ` aria-checked="${checkbox[1] !== ' '}"`;
+      itemLines[0] = itemLines[0].slice(checkbox[0].length);
+    }
+    // List items hold inline content directly; keep only nested blocks wrapped.
+    const inner = renderBlocks(itemLines, refs).replace(/^<p>([\s\S]*?)<\/p>/, '$1');
+    return `<li${attributes}>${inner}</li>`;
+  }).join('');
+
+  const number = ordered ? parseInt(first[2], 10) : 1;
+  const tag = ordered ? 'ol' : 'ul';
+  const listAttributes = (number !== 1 ? ` start="${number}"` : '') + (task ? ' __lexicalListType="check"' : '');
+  return { html: `<${tag}${listAttributes}>${body}</${tag}>`, next: i };
+}
+
+function renderBlocks(lines: string[], refs: References): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      const base = indentOf(line);
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^ {0,${base}}`), ''));
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` data-language="${escapeHtml(fence[2])}"` : '';
+      html.push(`<pre${language}><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2] ?? '', refs)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted, refs)}</blockquote>`);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const rows = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        rows.push(lines[i]);
+        i++;
+      }
+      html.push(renderTable(rows, refs));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i, refs);
+      html.push(list.html);
+      i = list.next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    let level = 0;
+    while (i < lines.length && lines[i].trim()) {
+      if (paragraph.length > 0 && /^ {0,3}=+\s*$/.test(lines[i])) {
+        level = 1;
+        i++;
+        break;
+      }
+      if (paragraph.length > 0 && /^ {0,3}-+\s*$/.test(lines[i])) {
+        level = 2;
+        i++;
+        break;
+      }
+      if (paragraph.length > 0 && startsBlock(lines[i])) break;
+      paragraph.push(lines[i].replace(/^ +/, ''));
+      i++;
+    }
+    const content = renderInline(paragraph.join('\n'), refs);
+    html.push(level ? `<h${level}>${content}</h${level}>` : `<p>${content}</p>`);
+  }
+
+  return html.join('');
+}
+
+/**
+ * Convert Markdown to HTML. Reference definitions (`[label]: url`) anywhere
+ * in the input are resolved and removed, which is how `read_document`
+ * writes image sources.
+ */
+export function markdownToHtml(markdown: string): string {
+  const refs: References = new Map();
+  const lines: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const reference = inFence ? null : REFERENCE.exec(line);
+    if (reference) {
+      refs.set(reference[1].trim().toLowerCase(), reference[2]);
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return renderBlocks(lines, refs);
+}
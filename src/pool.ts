@@ -0,0 +1,173 @@
+import { Page } from "puppeteer";
+
+export class PoolSaturatedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoolSaturatedError';
+  }
+}
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new Error('Operation aborted');
+}
+
+// Reject with the abort reason as soon as `signal` fires.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason(signal));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * A bounded set of browser tabs shared by concurrent tool calls. Callers
+ * beyond `size` wait in a FIFO queue; once `queueLimit` callers are waiting,
+ * further requests are rejected so clients can back off.
+ */
+export class PagePool {
+  private idle: Page[] = [];
+  private busy = new Set<Page>();
+  private discarded = new WeakSet<Page>();
+  private creating = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(
+    private createPage: () => Promise<Page>,
+    private size: number,
+    private queueLimit: number
+  ) {}
+
+  get stats() {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      busy: this.busy.size,
+      queued: this.waiters.length,
+    };
+  }
+
+  async acquire(signal?: AbortSignal): Promise<Page> {
+    for (;;) {
+      if (signal?.aborted) throw abortReason(signal);
+
+      while (this.idle.length > 0) {
+        const page = this.idle.pop()!;
+        if (!page.isClosed()) {
+          this.busy.add(page);
+          return page;
+        }
+      }
+
+      if (this.busy.size + this.creating < this.size) {
+        this.creating++;
+        try {
+          const page = await this.createPage();
+          this.busy.add(page);
+          return page;
+        } catch (error) {
+          // The slot this call reserved is free again.
+          this.waiters.shift()?.();
+          throw error;
+        } finally {
+          this.creating--;
+        }
+      }
+
+      if (this.waiters.length >= this.queueLimit) {
+        throw new PoolSaturatedError(
+          `Server busy: ${this.busy.size} tabs in use and ${this.waiters.length} requests queued; retry later`
+        );
+      }
+      await this.waitForSlot(signal);
+    }
+  }
+
+  release(page: Page) {
+    this.busy.delete(page);
+    if (!page.isClosed() && !this.discarded.has(page)) {
+      this.idle.push(page);
+    }
+    this.waiters.shift()?.();
+  }
+
+  // Drop a dead tab so its slot is refilled with a fresh one.
+  discard(page: Page) {
+    this.discarded.add(page);
+    this.idle = this.idle.filter((candidate) => candidate !== page);
+    if (this.busy.delete(page)) {
+      this.waiters.shift()?.();
+    }
+    page.close().catch(() => undefined);
+  }
+
+  async use<T>(operation: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const page = await this.acquire(signal);
+    try {
+      return await operation(page);
+    } finally {
+      this.release(page);
+    }
+  }
+
+  // Forget every tab, e.g. after the browser has been closed or crashed.
+  clear() {
+    for (const page of [...this.idle, ...this.busy]) {
+      this.discarded.add(page);
+    }
+    this.idle = [];
+    this.busy.clear();
+    for (const wake of this.waiters.splice(0)) {
+      wake();
+    }
+  }
+
+  private waitForSlot(signal?: AbortSignal): Promise<void> {
+    let wake!: () => void;
+    const slot = new Promise<void>((resolve) => (wake = resolve));
+    this.waiters.push(wake);
+    return abortable(slot, signal).catch((error) => {
+      this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+      throw error;
+    });
+  }
+}
+
+/**
+ * Serializes operations that share a key (a document URL) while letting
+ * operations on different keys run in parallel.
+ */
+export class KeyedLock {
+  private tails = new Map<string, Promise<void>>();
+
+  async run<T>(key: string | null, operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (key === null) return operation();
+
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let unlock!: () => void;
+    const current = new Promise<void>((resolve) => (unlock = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    try {
+      await abortable(previous, signal);
+      return await operation();
+    } finally {
+      unlock();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
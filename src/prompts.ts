@@ -0,0 +1,214 @@
+import { existsSync, readFileSync, readdirSync } from "fs";
+import { join, resolve } from "path";
+import { z } from "zod";
+import { ConfigError } from "./config.js";
+
+const PromptArgumentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z]\w*$/, 'must be a word starting with a letter'),
+  description: z.string().optional(),
+  required: z.boolean().default(false),
+});
+
+const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'must be lowercase letters, digits, "_" and "-"'),
+  description: z.string().optional(),
+  arguments: z.array(PromptArgumentSchema).default([]),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    text: z.string().min(1),
+  })).min(1),
+});
+
+/**
+ * A prompt template. Message texts may use `{{name}}` for an argument's
+ * value, `{{#name}}…{{/name}}` for text shown only when the argument is
+ * given and `{{^name}}…{{/name}}` for text shown only when it is not.
+ */
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+// Values every template can use besides its own arguments.
+const CONTEXT_VARIABLES = ['today', 'oneWeekAgo'];
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+export function renderTemplate(text: string, values: Record<string, string | undefined>): string {
+  const sections = (source: string): string =>
+    source.replace(SECTION, (_, kind: string, name: string, body: string) =>
+      !!values[name] === (kind === '#') ? sections(body) : ''
+    );
+  return sections(text).replace(VARIABLE, (_, name: string) => values[name] ?? '');
+}
+
+function referencedNames(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{[#^/]?(\w+)\}\}/g), (match) => match[1]);
+}
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'summarize_document',
+    description: 'Summarize a document',
+    arguments: [
+      { name: 'documentUrl', description: 'URL of the document', required: true },
+      { name: 'length', description: 'Length or shape of the summary, e.g. "three bullet points"', required: false },
+      { name: 'audience', description: 'Who the summary is for', required: false },
+    ],
+    messages: [{
+      role: 'user',
+      text: 'Read the Proton document at {{documentUrl}} with the read_document tool (format "markdown"). '
+        + 'Then summarize it{{#length}} in {{length}}{{/length}}{{^length}} in a short paragraph followed by its key points as bullets{{/length}}'
+        + '{{#audience}} for {{audience}}{{/audience}}. '
+        + 'Mention any decisions, deadlines and open questions it contains, and base the summary only on the document.',
+    }],
+  },
+  {
+    name: 'draft_meeting_notes',
+    description: 'Turn raw meeting notes into a new document with a list of action items',
+    arguments: [
+      { name: 'title', description: 'Title of the new document', required: true },
+      { name: 'notes', description: 'Raw notes or transcript of the meeting', required: true },
+      { name: 'attendees', description: 'Who attended', required: false },
+      { name: 'folder', description: 'Folder path for the new document, e.g. "Meetings/2025"', required: false },
+    ],
+    messages: [{
+      role: 'user',
+      text: 'Turn the raw meeting notes below into a Proton document.\n\n'
+        + '1. Create a document titled "{{title}}" with the create_document tool{{#folder}} in the folder "{{folder}}"{{/folder}}. '
+        + 'Use format "markdown" and write a short summary paragraph{{#attendees}}, a line listing the attendees ({{attendees}}){{/attendees}} '
+        + 'and sections headed "Discussion" and "Decisions".\n'
+        + '2. Add the action items to the new document with the create_list tool as a bullet list, '
+        + 'naming the owner and due date of each when the notes mention them.\n\n'
+        + 'Raw notes:\n\n{{notes}}',
+    }],
+  },
+  {
+    name: 'review_document',
+    description: 'Review a document and propose edits, applying them once approved',
+    arguments: [
+      { name: 'documentUrl', description: 'URL of the document', required: true },
+      { name: 'focus', description: 'What to pay attention to, e.g. "clarity" or "technical accuracy"', required: false },
+    ],
+    messages: [{
+      role: 'user',
+      text: 'Review the Proton document at {{documentUrl}}. Read it with the read_document tool (format "markdown")'
+        + '{{#focus}} and pay particular attention to {{focus}}{{/focus}}.\n\n'
+        + 'Propose concrete edits as a numbered list. For each, quote the current text, give the replacement and explain why. '
+        + 'Do not change the document yet. Once I approve edits, apply them one at a time: replace_text for wording, '
+        + 'replace_section or insert_content for larger changes.',
+    }],
+  },
+  {
+    name: 'weekly_status',
+    description: 'Write a status update from documents modified recently',
+    arguments: [
+      { name: 'since', description: 'Start of the period as an ISO 8601 date (default: one week ago)', required: false },
+      { name: 'folder', description: 'Only include documents in this folder', required: false },
+      { name: 'audience', description: 'Who the update is for', required: false },
+    ],
+    messages: [{
+      role: 'user',
+      text: 'Write a status update from my recently changed Proton documents. Today is {{today}}.\n\n'
+        + '1. Call the list_documents tool with sortBy "modified" and modifiedAfter "{{#since}}{{since}}{{/since}}{{^since}}{{oneWeekAgo}}{{/since}}", '
+        + 'following nextCursor until hasMore is false{{#folder}}, and keep the documents whose folder is "{{folder}}"{{/folder}}.\n'
+        + '2. Read each document with the read_document tool (format "markdown").\n'
+        + '3. Write the update{{#audience}} for {{audience}}{{/audience}}, grouped by project: what changed, what was decided and what comes next. '
+        + 'Cite the title of the document each point comes from.',
+    }],
+  },
+];
+
+/** The built-in prompt templates plus those loaded from the prompts directory. */
+export class PromptLibrary {
+  private templates: Map<string, PromptTemplate>;
+
+  constructor(templates: PromptTemplate[]) {
+    this.templates = new Map(templates.map((template) => [template.name, template]));
+  }
+
+  list(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  render(name: string, args: Record<string, string> = {}, now = new Date()) {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new PromptError(`Unknown prompt: ${name}`);
+    }
+    const missing = template.arguments.filter((argument) => argument.required && !args[argument.name]?.trim());
+    if (missing.length > 0) {
+      throw new PromptError(`Prompt ${name} needs ${missing.map((argument) => argument.name).join(', ')}`);
+    }
+
+    const values: Record<string, string | undefined> = {
+      today: isoDate(now),
+      oneWeekAgo: isoDate(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)),
+    };
+    for (const argument of template.arguments) {
+      values[argument.name] = args[argument.name]?.trim() || undefined;
+    }
+
+    return {
+      description: template.description,
+      messages: template.messages.map((message) => ({
+        role: message.role,
+        content: { type: 'text' as const, text: renderTemplate(message.text, values) },
+      })),
+    };
+  }
+}
+
+/**
+ * Load every `*.json` prompt template in `dir` on top of the built-in ones;
+ * a template with the name of a built-in one replaces it. A missing
+ * directory is not an error.
+ */
+export function loadPromptLibrary(dir?: string): PromptLibrary {
+  const templates = new Map(BUILTIN_PROMPTS.map((template) => [template.name, template]));
+  const fullDir = dir ? resolve(dir) : null;
+  if (!fullDir || !existsSync(fullDir)) {
+    return new PromptLibrary([...templates.values()]);
+  }
+
+  const files = readdirSync(fullDir).filter((file) => file.endsWith('.json')).sort();
+  const loaded = new Map<string, string>();
+  for (const file of files) {
+    const fullPath = join(fullDir, file);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(fullPath, 'utf8'));
+    } catch (error) {
+      throw new ConfigError(`Cannot load prompt template ${fullPath}: ${(error as Error).message}`);
+    }
+
+    const result = PromptTemplateSchema.safeParse(parsed);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+      throw new ConfigError(`Invalid prompt template ${fullPath}: ${issues.join('; ')}`);
+    }
+
+    const template = result.data;
+    const known = new Set([...CONTEXT_VARIABLES, ...template.arguments.map((argument) => argument.name)]);
+    const unknown = [...new Set(template.messages.flatMap((message) => referencedNames(message.text)))]
+      .filter((name) => !known.has(name));
+    if (unknown.length > 0) {
+      throw new ConfigError(`Prompt template ${fullPath} uses undeclared arguments: ${unknown.join(', ')}`);
+    }
+    if (loaded.has(template.name)) {
+      throw new ConfigError(`Prompt templates ${loaded.get(template.name)} and ${fullPath} are both named "${template.name}"`);
+    }
+    loaded.set(template.name, fullPath);
+    templates.set(template.name, template);
+  }
+  return new PromptLibrary([...templates.values()]);
+}
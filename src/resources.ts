@@ -0,0 +1,84 @@
+import { joinFolderPath, splitFolderPath } from "./drive.js";
+
+export type ResourceFormat = 'markdown' | 'html';
+
+export const RESOURCE_MIME_TYPES: Record<ResourceFormat, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+};
+
+export type ResourceRef =
+  | { kind: 'doc'; id: string; format: ResourceFormat }
+  | { kind: 'folder'; path: string }
+  | { kind: 'search'; query: string };
+
+export class ResourceUriError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceUriError';
+  }
+}
+
+/** Templates advertised through resources/templates/list (RFC 6570). */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'protondocs://doc/{id}{?format}',
+    name: 'Document',
+    description: 'Content of a document by id (as list_documents reports it), as Markdown or, with format=html, as HTML',
+    mimeType: RESOURCE_MIME_TYPES.markdown,
+  },
+  {
+    uriTemplate: 'protondocs://folder/{+path}',
+    name: 'Folder',
+    description: 'Folders, documents and files in a Drive folder, e.g. protondocs://folder/Specs/2025',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'protondocs://search/{query}',
+    name: 'Title search',
+    description: 'Documents whose titles match a query',
+    mimeType: 'application/json',
+  },
+];
+
+export function documentUri(id: string, format: ResourceFormat = 'markdown'): string {
+  return `protondocs://doc/${encodeURIComponent(id)}${format === 'markdown' ? '' : `?format=${format}`}`;
+}
+
+/** Parse a `protondocs://` URI into what it refers to. */
+export function parseResourceUri(uri: string): ResourceRef {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    throw new ResourceUriError(`Invalid resource URI: ${uri}`);
+  }
+  if (parsed.protocol !== 'protondocs:') {
+    throw new ResourceUriError(`Unsupported resource URI scheme: ${parsed.protocol}`);
+  }
+
+  let segments: string[];
+  try {
+    segments = parsed.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new ResourceUriError(`Invalid resource URI: ${uri}`);
+  }
+
+  switch (parsed.host) {
+    case 'doc': {
+      const format = parsed.searchParams.get('format') ?? 'markdown';
+      if (segments.length !== 1) throw new ResourceUriError(`Expected protondocs://doc/<id>, got ${uri}`);
+      if (format !== 'markdown' && format !== 'html') {
+        throw new ResourceUriError(`Unsupported document format "${format}"; use markdown or html`);
+      }
+      return { kind: 'doc', id: segments[0], format };
+    }
+    case 'folder':
+      return { kind: 'folder', path: joinFolderPath(splitFolderPath(segments.join('/'))) };
+    case 'search':
+      if (segments.length === 0) throw new ResourceUriError('Search URIs need a query');
+      return { kind: 'search', query: segments.join('/') };
+    default:
+      throw new ResourceUriError(`Unknown resource type "${parsed.host}" in ${uri}`);
+  }
+}
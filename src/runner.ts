@@ -0,0 +1,118 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ChangeVerificationError } from "./changes.js";
+import { BrowserCrashedError } from "./health.js";
+import { PoolSaturatedError } from "./pool.js";
+import { RetryPolicy, TimeoutError, retry, withTimeout } from "./waiting.js";
+
+/** How one tool call is run. */
+export interface ToolPolicy {
+  /** Time limit of each attempt. */
+  timeout: number;
+  retry: RetryPolicy;
+  /**
+   * Retry any internal failure. Otherwise only failures `failedBeforeLoad`
+   * reports are retried, since nothing can have changed before then.
+   */
+  anyFailure: boolean;
+  /** Run the call once more on a fresh tab when the browser crashed under it. */
+  replayable: boolean;
+}
+
+export interface ToolRunHooks {
+  failedBeforeLoad: (error: object) => boolean;
+  log: (message: string) => void;
+}
+
+export function invalidArguments(error: z.ZodError): McpError {
+  const issues = error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+  return new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${issues.join('; ')}`);
+}
+
+/**
+ * Whether a failed attempt may be retried. Errors the caller has to act on
+ * (bad arguments, a busy server, a change that could not be verified) never
+ * are; internal failures are when `anyFailure` is set or the call failed
+ * before loading a page.
+ */
+export function isRetryable(error: unknown, anyFailure: boolean, failedBeforeLoad: (error: object) => boolean): boolean {
+  const internal = !(error instanceof McpError || error instanceof PoolSaturatedError
+    || error instanceof z.ZodError || error instanceof ChangeVerificationError)
+    || (error instanceof McpError && error.code === ErrorCode.InternalError);
+  return internal && (anyFailure || (error instanceof Object && failedBeforeLoad(error)));
+}
+
+/** The MCP error reported for a call that failed for good. */
+export function toolError(name: string, error: unknown, replayable: boolean): unknown {
+  if (error instanceof z.ZodError) {
+    return invalidArguments(error);
+  }
+  if (error instanceof ChangeVerificationError) {
+    return new McpError(
+      ErrorCode.InternalError,
+      `${name} could not be verified: ${error.message}. The change may have been partly applied; read the document before retrying.`,
+      { changes: error.changes }
+    );
+  }
+  if (error instanceof TimeoutError) {
+    return new McpError(ErrorCode.InternalError, error.message);
+  }
+  if (error instanceof PoolSaturatedError) {
+    return new McpError(ErrorCode.InternalError, error.message);
+  }
+  if (error instanceof BrowserCrashedError) {
+    return new McpError(
+      ErrorCode.InternalError,
+      replayable
+        ? error.message
+        : `${error.message}. The change may have been partially applied; check the document before retrying.`
+    );
+  }
+  return error;
+}
+
+/**
+ * Run a tool handler under its time limit, retrying and replaying it as
+ * `policy` allows, and turn the final failure into an MCP error.
+ */
+export async function runTool<T>(
+  name: string,
+  operation: (signal: AbortSignal) => Promise<T>,
+  policy: ToolPolicy,
+  hooks: ToolRunHooks
+): Promise<T> {
+  try {
+    return await retry(
+      async () => {
+        // Aborting drops the call from the tab queue or document lock if it
+        // has not started yet, so a timed-out request never runs late.
+        const attempt = () => {
+          const controller = new AbortController();
+          return withTimeout(operation(controller.signal), policy.timeout, `${name} timed out after ${policy.timeout}ms`)
+            .catch((error) => {
+              controller.abort();
+              throw error;
+            });
+        };
+
+        try {
+          return await attempt();
+        } catch (error) {
+          if (!(error instanceof BrowserCrashedError) || !policy.replayable) throw error;
+          hooks.log(`${error.message}; replaying on a fresh tab`);
+          return await attempt();
+        }
+      },
+      policy.retry,
+      {
+        shouldRetry: (error) => isRetryable(error, policy.anyFailure, hooks.failedBeforeLoad),
+        onRetry: (error, attempt, delay) =>
+          hooks.log(`${name} failed (attempt ${attempt}): ${error}; retrying in ${delay}ms`),
+      }
+    );
+  } catch (error) {
+    throw toolError(name, error, policy.replayable);
+  }
+}
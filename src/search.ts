@@ -0,0 +1,347 @@
+import type { Chunk } from "./chunks.js";
+
+/** A document body as stored in the local content index. */
+export interface IndexedDocument {
+  id: string;
+  url: string;
+  title: string;
+  folder: string;
+  /** Listing timestamp the text was read at; a different value means the document changed. */
+  stamp: string;
+  indexedAt: string;
+  /** Plain text, as read_document returns it with format "text". */
+  text: string;
+  /** Heading-delimited chunks for query_documents; absent in older indexes. */
+  chunks?: Chunk[];
+}
+
+export interface IndexData {
+  version: 1;
+  documents: Record<string, IndexedDocument>;
+  /** Chunk vectors of one embedding provider, keyed by `embeddingKey`. */
+  embeddings?: { provider: string; vectors: Record<string, number[]> };
+}
+
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export type QueryNode =
+  | { type: 'term'; term: string }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'and'; items: QueryNode[] }
+  | { type: 'or'; items: QueryNode[] }
+  | { type: 'not'; item: QueryNode };
+
+export interface Range {
+  start: number;
+  end: number;
+}
+
+export interface Snippet extends Range {
+  /** Text around the matches, with each match wrapped in `**`. */
+  text: string;
+}
+
+export interface SearchHit {
+  id: string;
+  url: string;
+  title: string;
+  folder: string;
+  score: number;
+  matchCount: number;
+  /** Character offsets into the document's plain text. */
+  matches: Range[];
+  snippets: Snippet[];
+}
+
+// Words, numbers and contractions; case and accents are ignored.
+const WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').replace(/’/g, "'").toLowerCase();
+}
+
+export function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), (match) => ({
+    term: normalizeTerm(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Parse a search query. Terms are ANDed by default; `OR` and `AND` (in
+ * capitals), `NOT` or a leading `-` to exclude, parentheses for grouping and
+ * double quotes for phrases are supported.
+ */
+export function parseQuery(query: string): QueryNode {
+  const lexemes = Array.from(
+    query.matchAll(/"([^"]*)"?|(\()|(\))|(-)(?=\S)|([^\s()"]+)/g),
+    (match) => match[1] !== undefined ? { kind: 'phrase', value: match[1] }
+      : match[2] ? { kind: '(', value: '(' }
+      : match[3] ? { kind: ')', value: ')' }
+      : match[4] ? { kind: 'not', value: '-' }
+      : ['AND', 'OR', 'NOT'].includes(match[5]) ? { kind: match[5].toLowerCase(), value: match[5] }
+      : { kind: 'word', value: match[5] }
+  );
+  let position = 0;
+  const peek = () => lexemes[position];
+
+  const leaf = (text: string): QueryNode | null => {
+    const terms = tokenize(text).map((token) => token.term);
+    if (terms.length === 0) return null;
+    return terms.length === 1 ? { type: 'term', term: terms[0] } : { type: 'phrase', terms };
+  };
+
+  const parseOr = (): QueryNode | null => {
+    const items = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      items.push(parseAnd());
+    }
+    const present = items.filter((item): item is QueryNode => item !== null);
+    return present.length === 0 ? null : present.length === 1 ? present[0] : { type: 'or', items: present };
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const items: QueryNode[] = [];
+    while (peek() && !['or', ')'].includes(peek().kind)) {
+      if (peek().kind === 'and') {
+        position++;
+        continue;
+      }
+      const item = parseUnary();
+      if (item) items.push(item);
+    }
+    return items.length === 0 ? null : items.length === 1 ? items[0] : { type: 'and', items };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const lexeme = lexemes[position++];
+    switch (lexeme.kind) {
+      case 'not': {
+        const item = peek() ? parseUnary() : null;
+        return item ? { type: 'not', item } : null;
+      }
+      case '(': {
+        const inner = parseOr();
+        if (peek()?.kind !== ')') throw new QueryError('Unbalanced parentheses in query');
+        position++;
+        return inner;
+      }
+      default:
+        return leaf(lexeme.value);
+    }
+  };
+
+  const root = parseOr();
+  if (position < lexemes.length) {
+    throw new QueryError('Unbalanced parentheses in query');
+  }
+  if (!root || !hasPositiveTerm(root)) {
+    throw new QueryError('Query needs at least one word that is not excluded');
+  }
+  return root;
+}
+
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'and':
+      return node.items.some(hasPositiveTerm);
+    case 'or':
+      return node.items.every(hasPositiveTerm);
+    case 'not':
+      return false;
+  }
+}
+
+/** Okapi BM25 inverse document frequency. */
+export function idf(documentCount: number, containing: number): number {
+  return Math.log(1 + (documentCount - containing + 0.5) / (containing + 0.5));
+}
+
+/** Okapi BM25 weight of a term occurring `frequency` times (k1 = 1.2, b = 0.75). */
+export function bm25(frequency: number, length: number, averageLength: number, termIdf: number): number {
+  const k1 = 1.2;
+  const b = 0.75;
+  return termIdf * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * length / (averageLength || 1)));
+}
+
+interface Evaluated {
+  score: number;
+  ranges: Range[];
+}
+
+/** In-memory inverted index over the stored documents. */
+export class ContentIndex {
+  private tokens = new Map<string, Token[]>();
+  private postings = new Map<string, Map<string, number[]>>();
+  private averageLength = 0;
+
+  constructor(private documents: IndexedDocument[]) {
+    for (const document of documents) {
+      const tokens = tokenize(document.text);
+      this.tokens.set(document.id, tokens);
+      tokens.forEach((token, position) => {
+        let docs = this.postings.get(token.term);
+        if (!docs) this.postings.set(token.term, (docs = new Map()));
+        let positions = docs.get(document.id);
+        if (!positions) docs.set(document.id, (positions = []));
+        positions.push(position);
+      });
+    }
+    const total = [...this.tokens.values()].reduce((sum, tokens) => sum + tokens.length, 0);
+    this.averageLength = documents.length ? total / documents.length : 0;
+  }
+
+  search(query: QueryNode, limit: number): { hits: SearchHit[]; total: number } {
+    const results = this.evaluate(query);
+    const ranked = [...results.entries()]
+      .sort(([, a], [, b]) => b.score - a.score);
+    const byId = new Map(this.documents.map((document) => [document.id, document]));
+
+    const hits = ranked.slice(0, limit).map(([id, result]) => {
+      const document = byId.get(id)!;
+      const ranges = mergeRanges(result.ranges);
+      return {
+        id,
+        url: document.url,
+        title: document.title,
+        folder: document.folder,
+        score: Math.round(result.score * 1000) / 1000,
+        matchCount: ranges.length,
+        matches: ranges.slice(0, 50),
+        snippets: snippets(document.text, ranges, 3),
+      };
+    });
+    return { hits, total: ranked.length };
+  }
+
+  private evaluate(node: QueryNode): Map<string, Evaluated> {
+    switch (node.type) {
+      case 'term':
+        return this.matchPhrase([node.term]);
+      case 'phrase':
+        return this.matchPhrase(node.terms);
+      case 'or': {
+        const merged = new Map<string, Evaluated>();
+        for (const item of node.items) {
+          for (const [id, result] of this.evaluate(item)) {
+            const current = merged.get(id) ?? { score: 0, ranges: [] };
+            merged.set(id, { score: current.score + result.score, ranges: [...current.ranges, ...result.ranges] });
+          }
+        }
+        return merged;
+      }
+      case 'and': {
+        const positive = node.items.filter((item) => item.type !== 'not');
+        const excluded = node.items.filter((item): item is Extract<QueryNode, { type: 'not' }> => item.type === 'not');
+        let current: Map<string, Evaluated> | null = null;
+        for (const item of positive) {
+          const next = this.evaluate(item);
+          current = current === null ? next : new Map(
+            [...current].flatMap(([id, result]): Array<[string, Evaluated]> => {
+              const other = next.get(id);
+              return other ? [[id, { score: result.score + other.score, ranges: [...result.ranges, ...other.ranges] }]] : [];
+            })
+          );
+        }
+        current ??= this.everything();
+        for (const { item } of excluded) {
+          for (const id of this.evaluate(item).keys()) current.delete(id);
+        }
+        return current;
+      }
+      case 'not': {
+        const all = this.everything();
+        for (const id of this.evaluate(node.item).keys()) all.delete(id);
+        return all;
+      }
+    }
+  }
+
+  private everything(): Map<string, Evaluated> {
+    return new Map(this.documents.map((document) => [document.id, { score: 0, ranges: [] }]));
+  }
+
+  // Documents containing the terms at consecutive positions.
+  private matchPhrase(terms: string[]): Map<string, Evaluated> {
+    const results = new Map<string, Evaluated>();
+    const first = this.postings.get(terms[0]);
+    if (!first) return results;
+    const rest = terms.slice(1).map((term) => this.postings.get(term));
+    if (rest.some((docs) => !docs)) return results;
+    const weight = terms.reduce((sum, term) => sum + idf(this.documents.length, this.postings.get(term)!.size), 0);
+
+    for (const [id, positions] of first) {
+      const tokens = this.tokens.get(id)!;
+      const ranges = positions
+        .filter((position) => rest.every((docs, offset) => docs!.get(id)?.includes(position + offset + 1)))
+        .map((position) => ({ start: tokens[position].start, end: tokens[position + terms.length - 1].end }));
+      if (ranges.length === 0) continue;
+      results.set(id, {
+        score: bm25(ranges.length, tokens.length, this.averageLength, weight),
+        ranges,
+      });
+    }
+    return results;
+  }
+}
+
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: Range[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Up to `count` windows of text around matches, trimmed to word
+ * boundaries, with the matches inside each window wrapped in `**`.
+ */
+export function snippets(text: string, ranges: Range[], count: number, context = 80): Snippet[] {
+  const result: Snippet[] = [];
+  for (const range of ranges) {
+    if (result.length >= count) break;
+    if (result.some((snippet) => range.start < snippet.end)) continue;
+
+    let start = Math.max(0, range.start - context);
+    let end = Math.min(text.length, range.end + context);
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(' ', end) > range.end ? text.lastIndexOf(' ', end) : end;
+
+    let snippet = '';
+    let cursor = start;
+    for (const match of ranges.filter((other) => other.start >= start && other.end <= end)) {
+      snippet += `${text.slice(cursor, match.start)}**${text.slice(match.start, match.end)}**`;
+      cursor = match.end;
+    }
+    snippet += text.slice(cursor, end);
+    result.push({
+      start,
+      end,
+      text: `${start > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,294 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { ElementHandle, Frame, Page } from "puppeteer";
+import { z } from "zod";
+import { ConfigError } from "./config.js";
+
+/**
+ * Bumped whenever logical element names are renamed or removed, so override
+ * files written for an older registry are rejected instead of silently
+ * ignored. Adding elements does not change the version.
+ */
+export const SELECTOR_SCHEMA_VERSION = 1;
+
+// Proton UI revision the built-in selectors were last verified against.
+const DEFAULT_REVISION = '2025-07';
+
+export type SelectorScope = 'page' | 'editor' | 'login';
+
+interface SelectorEntry {
+  scope: SelectorScope;
+  candidates: string[];
+}
+
+// Candidates are tried in order. `{name}` placeholders are filled from the
+// variables passed by the caller.
+const DEFAULT_SELECTORS = {
+  documentTable: { scope: 'page', candidates: ['table'] },
+  documentRows: { scope: 'page', candidates: ['tbody tr'] },
+  searchInput: { scope: 'page', candidates: ['input[placeholder*="Search"]', 'input[type="search"]'] },
+  editorFrame: { scope: 'page', candidates: ['iframe[data-testid="editor-frame-edit"]', 'iframe[src*="editor"]'] },
+  documentMenu: { scope: 'page', candidates: ['[data-testid="document-name-dropdown"]'] },
+  menuRename: { scope: 'page', candidates: ['[data-testid="dropdown-rename"]'] },
+  menuMoveToTrash: { scope: 'page', candidates: ['[data-testid="dropdown-move-to-trash"]'] },
+  menuDownload: { scope: 'page', candidates: ['[data-testid="dropdown-download"]'] },
+  menuMakeCopy: { scope: 'page', candidates: ['[data-testid="dropdown-make-copy"]'] },
+  menuVersionHistory: { scope: 'page', candidates: ['[data-testid="dropdown-version-history"]'] },
+  nameInput: { scope: 'page', candidates: ['[data-testid="input-input-element"]'] },
+  saveIndicator: { scope: 'page', candidates: ['[data-testid="document-save-status"]', '[data-testid="save-indicator"]'] },
+  confirmTrashButton: { scope: 'page', candidates: ['[role="dialog"] button::-p-text(Move to trash)', 'button::-p-text(Move to trash)'] },
+  trashMenuRestore: { scope: 'page', candidates: ['[data-testid="context-menu-restore"]', '[role="menu"] button::-p-text(Restore)'] },
+  trashMenuDelete: { scope: 'page', candidates: ['[data-testid="context-menu-delete"]', '[role="menu"] button::-p-text(Delete permanently)'] },
+  emptyTrashButton: { scope: 'page', candidates: ['[data-testid="toolbar-empty-trash"]', 'button::-p-text(Empty trash)'] },
+  confirmDeleteButton: { scope: 'page', candidates: ['[role="dialog"] button::-p-text(Delete)', '[role="dialog"] button[type="submit"]'] },
+  shareButton: { scope: 'page', candidates: ['[data-testid="share-button"]', 'button::-p-text(Share)'] },
+  shareEmailInput: { scope: 'page', candidates: ['input[type="email"]', '[role="dialog"] input[type="text"]'] },
+  sharePermissionDropdown: { scope: 'page', candidates: ['[data-testid="permission-dropdown"]'] },
+  shareEditOption: { scope: 'page', candidates: ['button::-p-text(Can edit)'] },
+  shareViewOption: { scope: 'page', candidates: ['button::-p-text(Can view)'] },
+  shareSendButton: { scope: 'page', candidates: ['button::-p-text(Send)'] },
+  shareMessageInput: { scope: 'page', candidates: ['[data-testid="share-message"]', '[role="dialog"] textarea'] },
+  shareMemberRows: { scope: 'page', candidates: ['[data-testid="share-member"]', '[role="dialog"] [data-testid="members-list"] li'] },
+  shareMemberEmail: { scope: 'page', candidates: ['[data-testid="member-email"]'] },
+  shareMemberName: { scope: 'page', candidates: ['[data-testid="member-name"]'] },
+  shareMemberRole: { scope: 'page', candidates: ['[data-testid="member-role"]', 'button[aria-haspopup]'] },
+  shareMemberPending: { scope: 'page', candidates: ['[data-testid="member-pending"]', '[data-pending="true"]'] },
+  shareRemoveOption: { scope: 'page', candidates: ['[data-testid="member-remove"]', '[role="menu"] button::-p-text(Remove access)'] },
+  shareRemoveConfirm: { scope: 'page', candidates: ['[role="alertdialog"] button::-p-text(Remove)', '[role="dialog"] button::-p-text(Remove access)'] },
+  shareDialogClose: { scope: 'page', candidates: ['[role="dialog"] button[aria-label*="Close"]', '[data-testid="modal:close"]'] },
+  publicLinkToggle: { scope: 'page', candidates: ['[data-testid="public-link-toggle"]', '[role="dialog"] input[type="checkbox"][id*="link"]'] },
+  publicLinkUrl: { scope: 'page', candidates: ['[data-testid="public-link-url"]', '[role="dialog"] input[readonly]'] },
+  publicLinkSettings: { scope: 'page', candidates: ['[data-testid="public-link-settings"]', '[role="dialog"] button::-p-text(Settings)'] },
+  publicLinkExpiry: { scope: 'page', candidates: ['[data-testid="public-link-expiration"]', '[role="dialog"] input[type="date"]'] },
+  publicLinkPassword: { scope: 'page', candidates: ['[data-testid="public-link-password"]', '[role="dialog"] input[type="password"]'] },
+  publicLinkSave: { scope: 'page', candidates: ['[data-testid="public-link-save"]', '[role="dialog"] button::-p-text(Save)'] },
+  publicLinkDisableConfirm: { scope: 'page', candidates: ['[role="alertdialog"] button::-p-text(Delete link)', '[role="alertdialog"] button::-p-text(Disable)'] },
+  downloadFormatOption: { scope: 'page', candidates: ['button::-p-text("{format}")', 'button::-p-text(".{extension}")'] },
+  copyConfirmButton: { scope: 'page', candidates: ['[role="dialog"] button::-p-text(Copy)', 'button::-p-text(Copy)'] },
+  versionItem: { scope: 'page', candidates: ['[data-testid="version-item"]'] },
+  versionDate: { scope: 'page', candidates: ['[data-testid="version-date"]'] },
+  versionAuthor: { scope: 'page', candidates: ['[data-testid="version-author"]'] },
+  versionPreviewFrame: { scope: 'page', candidates: ['iframe[data-testid="editor-frame-history"]', 'iframe[data-testid="editor-frame-preview"]'] },
+  versionRestoreButton: { scope: 'page', candidates: ['[data-testid="version-restore"]', 'button::-p-text(Restore this version)', 'button::-p-text(Restore)'] },
+  versionRestoreConfirm: { scope: 'page', candidates: ['[role="alertdialog"] button::-p-text(Restore)', '[role="dialog"] button::-p-text(Restore)'] },
+  fontFamilyOption: { scope: 'page', candidates: ['button::-p-text("{value}")'] },
+  fontSizeOption: { scope: 'page', candidates: ['button::-p-text("{value}px")'] },
+  commentsButton: { scope: 'page', candidates: ['[data-testid="comments-button"]', 'button[aria-label*="omments"]'] },
+  editingModeButton: { scope: 'page', candidates: ['[data-testid="editing-mode-dropdown"]', 'button[aria-label*="diting mode"]'] },
+  editingModeOption: { scope: 'page', candidates: ['[data-testid="editing-mode-edit"]', '[role="menu"] button::-p-text(Editing)'] },
+  suggestingModeOption: { scope: 'page', candidates: ['[data-testid="editing-mode-suggest"]', '[role="menu"] button::-p-text(Suggesting)'] },
+  driveItemRows: { scope: 'page', candidates: ['[data-testid="file-browser-list-item"]', '[role="grid"] [role="row"][aria-rowindex]'] },
+  driveItemName: { scope: 'page', candidates: ['[data-testid="name-cell"]', '[role="gridcell"]:nth-child(2)'] },
+  driveFolderIcon: { scope: 'page', candidates: ['[data-testid="folder-icon"]', 'img[alt*="older"]', 'use[href*="folder"]'] },
+  driveDocumentIcon: { scope: 'page', candidates: ['[data-testid="proton-doc-icon"]', 'img[alt*="ocument"]', 'use[href*="proton-doc"]'] },
+  driveBreadcrumbs: { scope: 'page', candidates: ['[data-testid="breadcrumb-item"]', 'nav[aria-label*="readcrumb"] li'] },
+  driveNewButton: { scope: 'page', candidates: ['[data-testid="toolbar-new"]', 'button::-p-text(New)'] },
+  driveNewFolderOption: { scope: 'page', candidates: ['[data-testid="dropdown-new-folder"]', '[role="menu"] button::-p-text(New folder)'] },
+  driveMenuRename: { scope: 'page', candidates: ['[data-testid="context-menu-rename"]', '[role="menu"] button::-p-text(Rename)'] },
+  driveMenuMove: { scope: 'page', candidates: ['[data-testid="context-menu-move"]', '[role="menu"] button::-p-text(Move to folder)'] },
+  driveMenuTrash: { scope: 'page', candidates: ['[data-testid="context-menu-trash"]', '[role="menu"] button::-p-text(Move to trash)'] },
+  driveMoveTarget: { scope: 'page', candidates: ['[role="dialog"] [role="treeitem"] ::-p-text("{name}")', '[role="dialog"] button::-p-text("{name}")'] },
+  driveMoveConfirm: { scope: 'page', candidates: ['[role="dialog"] button[type="submit"]', '[role="dialog"] button::-p-text(Move)'] },
+  mainEditor: { scope: 'editor', candidates: ['[data-testid="main-editor"]', '[contenteditable="true"]'] },
+  boldButton: { scope: 'editor', candidates: ['button[title*="Bold"]', 'button[aria-label*="Bold"]'] },
+  italicButton: { scope: 'editor', candidates: ['button[title*="Italic"]', 'button[aria-label*="Italic"]'] },
+  underlineButton: { scope: 'editor', candidates: ['button[title*="Underline"]', 'button[aria-label*="Underline"]'] },
+  strikethroughButton: { scope: 'editor', candidates: ['button[title*="Strike"]', 'button[aria-label*="Strike"]'] },
+  bulletListButton: { scope: 'editor', candidates: ['button[title*="Bullet list"]', 'button[aria-label*="Bullet list"]'] },
+  numberedListButton: { scope: 'editor', candidates: ['button[title*="Numbered list"]', 'button[aria-label*="Numbered list"]'] },
+  fontFamilyButton: { scope: 'editor', candidates: ['button[aria-label*="Font"]'] },
+  fontSizeButton: { scope: 'editor', candidates: ['button[aria-label*="Font size"]'] },
+  alignLeftButton: { scope: 'editor', candidates: ['button[title*="Align left"]', 'button[aria-label*="Align left"]'] },
+  alignCenterButton: { scope: 'editor', candidates: ['button[title*="Align center"]', 'button[aria-label*="Align center"]'] },
+  alignRightButton: { scope: 'editor', candidates: ['button[title*="Align right"]', 'button[aria-label*="Align right"]'] },
+  alignJustifyButton: { scope: 'editor', candidates: ['button[title*="Justify"]', 'button[aria-label*="Justify"]'] },
+  commentThreads: { scope: 'editor', candidates: ['[data-testid="comment-thread"]', '[data-thread-id]'] },
+  commentQuote: { scope: 'editor', candidates: ['[data-testid="comment-thread-quote"]', 'blockquote'] },
+  commentItems: { scope: 'editor', candidates: ['[data-testid="comment"]', '[data-comment-id]'] },
+  commentAuthor: { scope: 'editor', candidates: ['[data-testid="comment-author"]'] },
+  commentTime: { scope: 'editor', candidates: ['[data-testid="comment-time"]', 'time'] },
+  commentContent: { scope: 'editor', candidates: ['[data-testid="comment-content"]'] },
+  commentResolvedMarker: { scope: 'editor', candidates: ['[data-resolved="true"]', '[data-testid="comment-thread-resolved"]'] },
+  commentSuggestionMarker: { scope: 'editor', candidates: ['[data-thread-type="suggestion"]', '[data-testid="suggestion-summary"]'] },
+  addCommentButton: { scope: 'editor', candidates: ['button[aria-label*="Add comment"]', 'button[title*="Add comment"]'] },
+  commentInput: { scope: 'editor', candidates: ['[data-testid="comment-composer"] [contenteditable="true"]', '[contenteditable="true"][aria-label*="omment"]'] },
+  commentSubmit: { scope: 'editor', candidates: ['[data-testid="comment-submit"]', 'button[aria-label*="Submit"]'] },
+  commentResolveButton: { scope: 'editor', candidates: ['[data-testid="comment-thread-resolve"]', 'button[aria-label*="Resolve"]'] },
+  loginUsername: { scope: 'login', candidates: ['#username'] },
+  loginPassword: { scope: 'login', candidates: ['#password'] },
+  loginSubmit: { scope: 'login', candidates: ['button[type="submit"]'] },
+  loginTotp: { scope: 'login', candidates: ['#totp', '#twoFa', 'input[autocomplete="one-time-code"]'] },
+  loginError: { scope: 'login', candidates: ['[data-testid="notification-error"]', '.notification-danger'] },
+} satisfies Record<string, SelectorEntry>;
+
+export type SelectorKey = keyof typeof DEFAULT_SELECTORS;
+
+export type SelectorContext = Page | Frame | ElementHandle<Element>;
+
+export class SelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SelectorError';
+  }
+}
+
+export interface SelectorCheckResult {
+  key: SelectorKey;
+  scope: SelectorScope;
+  status: 'resolved' | 'missing' | 'skipped';
+  selector: string | null;
+  candidates: string[];
+}
+
+function fill(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    name in vars ? vars[name].replace(/["\\]/g, '\\$&') : match
+  );
+}
+
+export class SelectorRegistry {
+  constructor(
+    private entries: Record<SelectorKey, SelectorEntry>,
+    readonly revision: string
+  ) {}
+
+  candidates(key: SelectorKey, vars: Record<string, string> = {}): string[] {
+    return this.entries[key].candidates.map((candidate) => fill(candidate, vars));
+  }
+
+  /**
+   * All candidates joined into a single selector list, for use with
+   * querySelector inside page.evaluate. Only valid for plain CSS entries.
+   */
+  css(key: SelectorKey): string {
+    return this.candidates(key).join(', ');
+  }
+
+  async find(
+    context: SelectorContext,
+    key: SelectorKey,
+    vars?: Record<string, string>
+  ): Promise<ElementHandle<Element> | null> {
+    for (const selector of this.candidates(key, vars)) {
+      const handle = await context.$(selector);
+      if (handle) return handle;
+    }
+    return null;
+  }
+
+  /**
+   * Wait until any candidate for `key` appears, resolving with the first
+   * match. Pending waits for the other candidates are cancelled.
+   */
+  async waitFor(
+    context: SelectorContext,
+    key: SelectorKey,
+    options: { timeout?: number; visible?: boolean; vars?: Record<string, string> } = {}
+  ): Promise<ElementHandle<Element>> {
+    const candidates = this.candidates(key, options.vars);
+    const controller = new AbortController();
+    try {
+      return await Promise.any(
+        candidates.map(async (selector) => {
+          const handle = await context.waitForSelector(selector, {
+            timeout: options.timeout,
+            visible: options.visible,
+            signal: controller.signal,
+          });
+          if (!handle) throw new SelectorError(`${selector} did not match`);
+          return handle;
+        })
+      );
+    } catch {
+      throw new SelectorError(
+        `No selector for "${key}" matched (tried: ${candidates.join(' | ')})`
+      );
+    } finally {
+      controller.abort();
+    }
+  }
+
+  async click(
+    context: SelectorContext,
+    key: SelectorKey,
+    vars?: Record<string, string>
+  ) {
+    const handle = await this.waitFor(context, key, { vars });
+    await handle.click();
+  }
+
+  /**
+   * Report which logical elements resolve right now. Editor entries are
+   * checked inside `editor` and login entries only when on the sign-in page.
+   */
+  async check(contexts: Record<SelectorScope, SelectorContext | null>): Promise<SelectorCheckResult[]> {
+    const results: SelectorCheckResult[] = [];
+    for (const key of Object.keys(this.entries) as SelectorKey[]) {
+      const { scope } = this.entries[key];
+      const candidates = this.candidates(key);
+      const context = contexts[scope];
+
+      if (!context || candidates.some((candidate) => /\{\w+\}/.test(candidate))) {
+        results.push({ key, scope, status: 'skipped', selector: null, candidates });
+        continue;
+      }
+
+      let selector: string | null = null;
+      for (const candidate of candidates) {
+        if (await context.$(candidate).catch(() => null)) {
+          selector = candidate;
+          break;
+        }
+      }
+      results.push({ key, scope, status: selector ? 'resolved' : 'missing', selector, candidates });
+    }
+    return results;
+  }
+}
+
+const OverrideFileSchema = z.object({
+  version: z.number().int().optional(),
+  revision: z.string().optional(),
+  selectors: z.record(z.union([z.string().min(1), z.array(z.string().min(1)).nonempty()])),
+}).strict();
+
+/**
+ * Build the selector registry, replacing the candidates of any logical
+ * element named in the optional override JSON file.
+ */
+export function loadSelectorRegistry(overridePath?: string): SelectorRegistry {
+  const entries: Record<SelectorKey, SelectorEntry> = JSON.parse(JSON.stringify(DEFAULT_SELECTORS));
+  if (!overridePath) {
+    return new SelectorRegistry(entries, DEFAULT_REVISION);
+  }
+
+  const fullPath = resolve(overridePath);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(fullPath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(`Cannot load selector overrides ${fullPath}: ${(error as Error).message}`);
+  }
+
+  const result = OverrideFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new ConfigError(`Invalid selector overrides ${fullPath}: ${issues.join('; ')}`);
+  }
+
+  const override = result.data;
+  if (override.version !== undefined && override.version !== SELECTOR_SCHEMA_VERSION) {
+    throw new ConfigError(
+      `Selector overrides ${fullPath} target schema version ${override.version}, expected ${SELECTOR_SCHEMA_VERSION}`
+    );
+  }
+
+  for (const [key, value] of Object.entries(override.selectors)) {
+    if (!(key in entries)) {
+      throw new ConfigError(`Selector overrides ${fullPath} name unknown element "${key}"`);
+    }
+    entries[key as SelectorKey].candidates = Array.isArray(value) ? [...value] : [value];
+  }
+
+  return new SelectorRegistry(entries, override.revision ?? `${DEFAULT_REVISION}+overrides`);
+}
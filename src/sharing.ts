@@ -0,0 +1,118 @@
+import { ElementHandle, Page } from "puppeteer";
+import { SelectorRegistry } from "./selectors.js";
+
+export type ShareRole = 'owner' | 'editor' | 'viewer';
+
+export interface ShareMember {
+  email: string;
+  name: string;
+  /** Null when the dialog shows a role this server does not know. */
+  role: ShareRole | null;
+  /** Invited but not yet accepted. */
+  pending: boolean;
+}
+
+export interface PublicLink {
+  enabled: boolean;
+  url: string | null;
+  /** Expiry date as YYYY-MM-DD; null when the link does not expire. */
+  expiresAt: string | null;
+  passwordProtected: boolean;
+}
+
+export interface SharingState {
+  members: ShareMember[];
+  publicLink: PublicLink;
+}
+
+/** Role shown by a member's role button, e.g. "Can edit" or "Owner". */
+export function parseRole(text: string): ShareRole | null {
+  const value = text.trim().toLowerCase();
+  if (value.includes('owner')) return 'owner';
+  if (value.includes('edit')) return 'editor';
+  if (value.includes('view')) return 'viewer';
+  return null;
+}
+
+/** Members and public link settings as shown in the open share dialog. */
+export async function readSharingState(page: Page, selectors: SelectorRegistry): Promise<SharingState> {
+  const raw = await page.evaluate((
+    rowSelector, emailSelector, nameSelector, roleSelector, pendingSelector,
+    toggleSelector, urlSelector, expirySelector, passwordSelector
+  ) => {
+    const text = (element: Element | null) => element?.textContent?.trim() ?? '';
+    const members = Array.from(document.querySelectorAll(rowSelector)).map((row) => {
+      const name = text(row.querySelector(nameSelector));
+      return {
+        email: text(row.querySelector(emailSelector)) || (row.textContent?.match(/[^\s@]+@[^\s@]+\.[^\s@]+/)?.[0] ?? ''),
+        name,
+        role: text(row.querySelector(roleSelector)),
+        pending: row.matches(pendingSelector) || row.querySelector(pendingSelector) !== null,
+      };
+    });
+
+    const toggle = document.querySelector(toggleSelector) as HTMLInputElement | null;
+    const url = document.querySelector(urlSelector) as HTMLInputElement | null;
+    const expiry = document.querySelector(expirySelector) as HTMLInputElement | null;
+    const password = document.querySelector(passwordSelector) as HTMLInputElement | null;
+    const checked = toggle
+      ? toggle.checked || toggle.getAttribute('aria-checked') === 'true' || toggle.getAttribute('aria-pressed') === 'true'
+      : false;
+    return {
+      members,
+      link: {
+        enabled: checked || !!url?.value,
+        url: url?.value || url?.textContent?.trim() || null,
+        expiry: expiry?.value || null,
+        password: !!password?.value || password?.getAttribute('data-has-password') === 'true',
+      },
+    };
+  },
+    selectors.css('shareMemberRows'),
+    selectors.css('shareMemberEmail'),
+    selectors.css('shareMemberName'),
+    selectors.css('shareMemberRole'),
+    selectors.css('shareMemberPending'),
+    selectors.css('publicLinkToggle'),
+    selectors.css('publicLinkUrl'),
+    selectors.css('publicLinkExpiry'),
+    selectors.css('publicLinkPassword')
+  );
+
+  return {
+    members: raw.members
+      .filter((member) => member.email)
+      .map((member) => ({
+        email: member.email,
+        name: member.name === member.email ? '' : member.name,
+        role: parseRole(member.role),
+        pending: member.pending,
+      })),
+    publicLink: {
+      enabled: raw.link.enabled,
+      url: raw.link.enabled ? raw.link.url : null,
+      expiresAt: raw.link.enabled ? raw.link.expiry : null,
+      passwordProtected: raw.link.enabled && raw.link.password,
+    },
+  };
+}
+
+export function findMember(state: SharingState, email: string): ShareMember | undefined {
+  return state.members.find((member) => member.email.toLowerCase() === email.trim().toLowerCase());
+}
+
+/** Row of the member with `email` in the open share dialog. */
+export async function findMemberRow(
+  page: Page,
+  selectors: SelectorRegistry,
+  email: string
+): Promise<ElementHandle<Element> | null> {
+  const wanted = email.trim().toLowerCase();
+  for (const row of await page.$$(selectors.css('shareMemberRows'))) {
+    const emails = await row.evaluate((element) =>
+      Array.from(element.textContent?.matchAll(/[^\s@]+@[^\s@]+\.[^\s@]+/g) ?? [], (match) => match[0].toLowerCase())
+    );
+    if (emails.includes(wanted)) return row;
+  }
+  return null;
+}
@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import { existsSync, readFileSync, readdirSync, renameSync, writeFileSync } from "fs";
+import { join, relative, sep } from "path";
+
+export const SYNC_STATE_FILE = '.proton-docs-sync.json';
+
+export interface SyncEntry {
+  url: string;
+  title: string;
+  /** Hashes of both sides as they were after the last sync. */
+  localHash: string;
+  remoteHash: string;
+  syncedAt: string;
+}
+
+export interface SyncState {
+  version: 1;
+  /** Keyed by file path relative to the synced directory, with `/` separators. */
+  documents: Record<string, SyncEntry>;
+}
+
+export type ConflictStrategy = 'skip' | 'local' | 'remote';
+
+export type SyncAction = 'create' | 'push' | 'pull' | 'untrack' | 'skip' | 'unchanged';
+
+export interface SyncPlanItem {
+  file: string;
+  url?: string;
+  action: SyncAction;
+  /** Both sides changed since the last sync; `action` follows the conflict strategy. */
+  conflict?: boolean;
+  reason: string;
+  /** Set when applying the action failed. */
+  error?: string;
+}
+
+export function loadSyncState(directory: string): SyncState {
+  const path = join(directory, SYNC_STATE_FILE);
+  if (!existsSync(path)) return { version: 1, documents: {} };
+  const state = JSON.parse(readFileSync(path, 'utf8'));
+  if (state?.version !== 1 || typeof state.documents !== 'object') {
+    throw new Error(`${path} is not a sync state file`);
+  }
+  return state;
+}
+
+export function saveSyncState(directory: string, state: SyncState) {
+  const path = join(directory, SYNC_STATE_FILE);
+  const tmp = `${path}.tmp`;
+  writeFileSync(tmp, JSON.stringify(state, null, 2));
+  renameSync(tmp, path);
+}
+
+/** Markdown files under `directory`, skipping hidden entries and node_modules. */
+export function listMarkdownFiles(directory: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(path);
+      } else if (entry.isFile() && /\.(md|markdown)$/i.test(entry.name)) {
+        files.push(relative(directory, path).split(sep).join('/'));
+      }
+    }
+  };
+  walk(directory);
+  return files.sort();
+}
+
+/**
+ * Hash of Markdown content, ignoring line endings and trailing whitespace so
+ * that editors and the round trip through Proton do not count as changes.
+ */
+export function contentHash(markdown: string): string {
+  const normalized = markdown
+    .replace(/^\ufeff/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Decide what to do with one file. `localHash` is null when the file no
+ * longer exists; `remoteHash` is only consulted for tracked files.
+ */
+export function planFile(
+  file: string,
+  entry: SyncEntry | undefined,
+  localHash: string | null,
+  remoteHash: string | null,
+  strategy: ConflictStrategy
+): SyncPlanItem {
+  if (!entry) {
+    return { file, action: 'create', reason: 'new local file' };
+  }
+
+  const url = entry.url;
+  const localChanged = localHash !== entry.localHash;
+  const remoteChanged = remoteHash !== entry.remoteHash;
+
+  if (localHash === null) {
+    if (!remoteChanged) {
+      return { file, url, action: 'untrack', reason: 'local file deleted; the document is kept' };
+    }
+    return resolveConflict(file, url, strategy, 'untrack', 'local file deleted and document changed');
+  }
+  if (localChanged && remoteChanged) {
+    return resolveConflict(file, url, strategy, 'push', 'local file and document both changed');
+  }
+  if (localChanged) return { file, url, action: 'push', reason: 'local file changed' };
+  if (remoteChanged) return { file, url, action: 'pull', reason: 'document changed' };
+  return { file, url, action: 'unchanged', reason: 'no changes' };
+}
+
+function resolveConflict(
+  file: string,
+  url: string,
+  strategy: ConflictStrategy,
+  localAction: SyncAction,
+  reason: string
+): SyncPlanItem {
+  const action = strategy === 'local' ? localAction : strategy === 'remote' ? 'pull' : 'skip';
+  return { file, url, action, conflict: true, reason };
+}
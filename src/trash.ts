@@ -0,0 +1,52 @@
+import { createHash } from "crypto";
+import { DocumentRow, documentId, folderSegments, parseListingDate } from "./listing.js";
+
+export interface TrashedDocument {
+  id: string;
+  title: string;
+  /** Empty when the trash listing does not link the document. */
+  url: string;
+  owner: string;
+  /** Folder the document was deleted from. */
+  folder: string;
+  deletedAt: string | null;
+}
+
+export function toTrashedDocument(row: DocumentRow, now = new Date()): TrashedDocument {
+  return {
+    id: row.url ? documentId(row.url) : '',
+    title: row.title,
+    url: row.url,
+    owner: row.createdBy.trim(),
+    folder: folderSegments(row.location).join('/'),
+    deletedAt: parseListingDate(row.deleted, now),
+  };
+}
+
+/**
+ * Trashed documents matching a URL or title. A URL matches by document id
+ * only, never by title, since another document may have the same title;
+ * titles are compared case-insensitively, exact matches first.
+ */
+export function matchTrashed(
+  items: TrashedDocument[],
+  target: { documentUrl?: string; title?: string }
+): TrashedDocument[] {
+  if (target.documentUrl) {
+    const id = documentId(target.documentUrl);
+    return items.filter((item) => item.id === id);
+  }
+  const title = target.title?.trim() ?? '';
+  const exact = items.filter((item) => item.title === title);
+  return exact.length > 0 ? exact : items.filter((item) => item.title.toLowerCase() === title.toLowerCase());
+}
+
+/**
+ * Confirmation token for emptying the trash. It is derived from the trash
+ * contents, so a token stops working as soon as anything is added to or
+ * restored from the trash.
+ */
+export function trashToken(items: TrashedDocument[]): string {
+  const contents = items.map((item) => `${item.id}\u0000${item.title}\u0000${item.deletedAt}`).sort();
+  return createHash('sha256').update(contents.join('\n')).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,66 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * A JSON value stored on disk encrypted with AES-256-GCM, under a key
+ * derived from a passphrase with scrypt. Each save uses a fresh salt and IV.
+ */
+export class EncryptedFile<T> {
+  constructor(readonly path: string, private passphrase: string) {}
+
+  private key(salt: Buffer): Buffer {
+    return scryptSync(this.passphrase, salt, 32);
+  }
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  load(): T | null {
+    if (!this.exists()) return null;
+
+    const envelope = JSON.parse(readFileSync(this.path, 'utf8'));
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.key(Buffer.from(envelope.salt, 'base64')),
+      Buffer.from(envelope.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    try {
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new DecryptionError(`Cannot decrypt ${this.path}`);
+    }
+  }
+
+  save(value: T) {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key(salt), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    const envelope = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(envelope), { mode: 0o600 });
+    renameSync(tmpPath, this.path);
+  }
+}
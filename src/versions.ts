@@ -0,0 +1,61 @@
+import { ElementHandle, Page } from "puppeteer";
+import { parseListingDate } from "./listing.js";
+import { SelectorRegistry } from "./selectors.js";
+
+export interface DocumentVersion {
+  /**
+   * The id Proton gives the version, or `v<n>` counting from the oldest
+   * version (`v1`) when the panel shows none, which stays the same as newer
+   * versions are added.
+   */
+  id: string;
+  /** Date as the panel shows it. */
+  date: string;
+  /** ISO time, or null when the date cannot be parsed. */
+  createdAt: string | null;
+  author: string;
+}
+
+/** Versions in the open version history panel, newest first as the panel lists them. */
+export async function scrapeVersions(
+  page: Page,
+  selectors: SelectorRegistry,
+  now = new Date()
+): Promise<DocumentVersion[]> {
+  const raw = await page.evaluate((itemSelector, dateSelector, authorSelector) => {
+    const text = (element: Element | null) => element?.textContent?.trim() ?? '';
+    return Array.from(document.querySelectorAll(itemSelector)).map((item) => {
+      const date = item.querySelector(dateSelector);
+      return {
+        id: item.getAttribute('data-version-id') || item.getAttribute('data-id') || null,
+        date: text(date),
+        time: date?.getAttribute('datetime') || text(date),
+        author: text(item.querySelector(authorSelector)),
+      };
+    });
+  },
+    selectors.css('versionItem'),
+    selectors.css('versionDate'),
+    selectors.css('versionAuthor')
+  );
+
+  return raw.map((version, index) => ({
+    id: version.id ?? `v${raw.length - index}`,
+    date: version.date,
+    createdAt: parseListingDate(version.time, now),
+    author: version.author,
+  }));
+}
+
+/** Version `id` in the version history panel with its element, or null when it is not listed. */
+export async function findVersion(
+  page: Page,
+  selectors: SelectorRegistry,
+  id: string
+): Promise<{ version: DocumentVersion; handle: ElementHandle<Element> } | null> {
+  const versions = await scrapeVersions(page, selectors);
+  const index = versions.findIndex((version) => version.id === id);
+  if (index < 0) return null;
+  const handles = await page.$$(selectors.css('versionItem'));
+  return handles[index] ? { version: versions[index], handle: handles[index] } : null;
+}
@@ -0,0 +1,125 @@
+import { Frame, Page } from "puppeteer";
+import { SelectorRegistry } from "./selectors.js";
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff capped at `maxDelay`, with up to 20% jitter so
+ * concurrent retries do not hit Proton in lockstep.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const delay = Math.min(policy.baseDelay * 2 ** attempt, policy.maxDelay);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+export async function retry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: {
+    shouldRetry?: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number, delay: number) => void;
+  } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.retries || (options.shouldRetry && !options.shouldRetry(error))) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, policy);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+export async function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolve once no DOM mutations have been observed under `selector` (or the
+ * whole document) for `quietMs`. Returns false if the DOM was still changing
+ * when `timeout` elapsed; callers treat that as best effort.
+ */
+export async function waitForDomSettled(
+  context: Page | Frame,
+  options: { selector?: string; quietMs?: number; timeout?: number } = {}
+): Promise<boolean> {
+  const { selector, quietMs = 300, timeout = 10000 } = options;
+  return context.evaluate((selector, quietMs, timeout) => new Promise<boolean>((resolve) => {
+    const target = (selector && document.querySelector(selector)) || document.body;
+    let quiet: ReturnType<typeof setTimeout>;
+    const finish = (settled: boolean) => {
+      observer.disconnect();
+      clearTimeout(quiet);
+      clearTimeout(deadline);
+      resolve(settled);
+    };
+    const observer = new MutationObserver(() => {
+      clearTimeout(quiet);
+      quiet = setTimeout(() => finish(true), quietMs);
+    });
+    const deadline = setTimeout(() => finish(false), timeout);
+    quiet = setTimeout(() => finish(true), quietMs);
+    observer.observe(target, { childList: true, subtree: true, characterData: true, attributes: true });
+  }), selector ?? null, quietMs, timeout);
+}
+
+export async function waitForNetworkQuiet(page: Page, timeout: number, idleTime = 500) {
+  await page.waitForNetworkIdle({ idleTime, timeout });
+}
+
+/**
+ * Wait for the editor to stop changing after input (typing, paste, toolbar
+ * actions re-render the Lexical tree asynchronously).
+ */
+export async function waitForEditorIdle(frame: Frame, selectors: SelectorRegistry, timeout: number) {
+  return waitForDomSettled(frame, { selector: selectors.css('mainEditor'), timeout });
+}
+
+/**
+ * Wait until the document save indicator reports that all changes are
+ * saved. Falls back to network quiet when no indicator is rendered.
+ */
+export async function waitForSaved(page: Page, selectors: SelectorRegistry, timeout: number) {
+  const indicator = await selectors.find(page, 'saveIndicator');
+  if (!indicator) {
+    await waitForNetworkQuiet(page, timeout);
+    return;
+  }
+  await page.waitForFunction(
+    (el) => {
+      const text = el.textContent?.trim() ?? '';
+      return /saved/i.test(text) && !/saving|unsaved|not saved/i.test(text);
+    },
+    { timeout },
+    indicator
+  ).catch(() => {
+    throw new TimeoutError(`Document was not saved within ${timeout}ms`);
+  });
+}
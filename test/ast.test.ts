@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DocumentBlock, DocumentTree, DocumentTreeSchema, documentTreeToHtml } from "../src/ast.js";
+import { extractDocumentTree } from "../src/content.js";
+import { editorRoot } from "./dom.js";
+
+const text = (value: string, fields = {}) => ({ type: 'text' as const, text: value, ...fields });
+
+const tree: DocumentTree = {
+  version: 1,
+  blocks: [
+    { type: 'heading', level: 2, children: [text('Plan')] },
+    {
+      type: 'paragraph',
+      align: 'center',
+      children: [text('Bold', { marks: ['bold', 'italic'] }), text(' and '), text('a link', { href: 'https://example.com/' })],
+    },
+    {
+      type: 'list',
+      ordered: true,
+      start: 3,
+      items: [{ children: [text('one')], lists: [{ type: 'list', ordered: false, items: [{ children: [text('nested')] }] }] }],
+    },
+    { type: 'list', ordered: false, items: [{ checked: true, children: [text('done')] }] },
+    { type: 'table', rows: [{ cells: [{ header: true, children: [text('h')] }] }, { cells: [{ children: [text('c')] }] }] },
+    { type: 'code', language: 'js', text: 'x < 1' },
+    { type: 'quote', children: [{ type: 'paragraph', children: [text('q')] }] },
+    { type: 'rule' },
+  ],
+};
+
+// Block ids are generated on extraction and ignored when rendering.
+function withoutIds<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (key, field) => (key === 'id' ? undefined : field)));
+}
+
+describe('documentTreeToHtml', () => {
+  it('renders every block type as editor HTML', () => {
+    assert.equal(
+      documentTreeToHtml(tree),
+      '<h2>Plan</h2><p style="text-align: center"><strong><em>Bold</em></strong> and <a href="https://example.com/">a link</a></p>'
+        + '<ol start="3"><li>one<ul><li>nested</li></ul></li></ol><ul __lexicalListType="check"><li aria-checked="true">done</li></ul>'
+        + '<table><tbody><tr><th>h</th></tr><tr><td>c</td></tr></tbody></table>'
+        + '<pre data-language="js"><code>x &lt; 1</code></pre><blockquote><p>q</p></blockquote><hr>'
+    );
+  });
+
+  it('reads back as the same tree', () => {
+    const blocks: DocumentBlock[] = extractDocumentTree(editorRoot(documentTreeToHtml(tree)));
+    assert.deepEqual(withoutIds(blocks), tree.blocks);
+  });
+
+  it('gives the same content the same block ids', () => {
+    const html = documentTreeToHtml(tree);
+    assert.deepEqual(extractDocumentTree(editorRoot(html)), extractDocumentTree(editorRoot(html)));
+  });
+});
+
+describe('DocumentTreeSchema', () => {
+  it('defaults the version and rejects trees from another version', () => {
+    assert.equal(DocumentTreeSchema.parse({ blocks: [] }).version, 1);
+    assert.equal(DocumentTreeSchema.safeParse({ version: 2, blocks: [] }).success, false);
+  });
+});
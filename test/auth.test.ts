@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { LoginError, generateTotp, isLoginUrl } from "../src/auth.js";
+
+// "12345678901234567890", the RFC 6238 SHA-1 test key, in base32.
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+    ];
+    for (const [seconds, code] of vectors) {
+      assert.equal(generateTotp(RFC_SECRET, seconds * 1000), code);
+    }
+  });
+
+  it('ignores spaces, padding and case in the secret', () => {
+    const spaced = 'gezd gnbv gy3t qojq gezd gnbv gy3t qojq====';
+    assert.equal(generateTotp(spaced, 59_000), '287082');
+  });
+
+  it('keeps the same code within a 30 second step', () => {
+    assert.equal(generateTotp(RFC_SECRET, 30_000), generateTotp(RFC_SECRET, 59_999));
+  });
+
+  it('rejects secrets that are not base32', () => {
+    assert.throws(() => generateTotp('not-base32!'), LoginError);
+  });
+});
+
+describe('isLoginUrl', () => {
+  it('recognizes the Proton account sign-in pages', () => {
+    assert.equal(isLoginUrl('https://account.proton.me/login'), true);
+    assert.equal(isLoginUrl('https://account.proton.me/docs/signin?product=docs'), true);
+    assert.equal(isLoginUrl('https://docs.proton.me/u/1/recents'), false);
+    assert.equal(isLoginUrl('not a url'), false);
+  });
+});
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DocumentBlock, InlineNode } from "../src/ast.js";
+import {
+  ChangeVerificationError,
+  DocumentSnapshot,
+  checkAlignment,
+  checkEdit,
+  checkFont,
+  checkFormatted,
+  checkInserted,
+  checkLink,
+  checkList,
+  checkReplaced,
+  checkRestored,
+  checkSection,
+  checkTree,
+  verifyChange,
+} from "../src/changes.js";
+
+const paragraph = (...children: InlineNode[]): DocumentBlock => ({ type: 'paragraph', children });
+const text = (value: string, fields: Partial<InlineNode & { type: 'text' }> = {}): InlineNode =>
+  ({ type: 'text', text: value, ...fields });
+
+const snapshot = (markdown: string, blocks: DocumentBlock[] = []): DocumentSnapshot => ({
+  markdown,
+  text: markdown.replace(/[*_#\[\]()-]/g, ''),
+  blocks,
+});
+
+describe('verifyChange', () => {
+  it('returns the diff when the check passes', () => {
+    const changes = verifyChange(snapshot('a\nb'), snapshot('a\nc'), null);
+    assert.deepEqual([changes.added, changes.removed], [1, 1]);
+  });
+
+  it('fails with the diff attached when the check finds a problem', () => {
+    assert.throws(
+      () => verifyChange(snapshot('a'), snapshot('a\nb'), 'Something is missing'),
+      (error: unknown) => error instanceof ChangeVerificationError
+        && error.message === 'Something is missing (1 line(s) added, 0 line(s) removed)'
+        && error.changes.added === 1
+    );
+  });
+});
+
+describe('checkEdit', () => {
+  it('accepts content that appears in order', () => {
+    assert.equal(checkEdit(snapshot('old'), snapshot('New **text** here'), 'New **text** here', 'markdown', false), null);
+  });
+
+  it('reports content that is missing', () => {
+    assert.match(checkEdit(snapshot('old'), snapshot('old'), 'New text', 'text', false)!, /does not appear/);
+  });
+
+  it('requires appending to keep what was there', () => {
+    assert.equal(checkEdit(snapshot('one two'), snapshot('one two three'), 'three', 'text', true), null);
+    assert.match(checkEdit(snapshot('one two'), snapshot('two three'), 'three', 'text', true)!, /existing content/);
+  });
+});
+
+describe('checkFormatted', () => {
+  const plain = snapshot('a word', [paragraph(text('a word'))]);
+  const bold = snapshot('a **word**', [paragraph(text('a '), text('word', { marks: ['bold'] }))]);
+
+  it('accepts a selection that now carries the format', () => {
+    assert.equal(checkFormatted(plain, bold, 'bold', 'word'), null);
+  });
+
+  it('explains a format the toolbar toggled off', () => {
+    assert.match(checkFormatted(bold, plain, 'bold', 'word')!, /already bold/);
+  });
+
+  it('only checks the text without a selection', () => {
+    assert.equal(checkFormatted(plain, plain, 'bold'), null);
+    assert.match(checkFormatted(plain, snapshot('other'), 'bold')!, /text changed/);
+  });
+});
+
+describe('checkList', () => {
+  const list = (ordered: boolean, ...items: string[]): DocumentBlock =>
+    ({ type: 'list', ordered, items: items.map((item) => ({ children: [text(item)] })) });
+
+  it('needs one more list of the right kind with the items in order', () => {
+    const before = snapshot('', []);
+    assert.equal(checkList(before, snapshot('', [list(true, 'a', 'b')]), true, ['a', 'b']), null);
+    assert.match(checkList(before, snapshot('', [list(false, 'a', 'b')]), true, ['a', 'b'])!, /numbered/);
+    assert.match(checkList(before, snapshot('', [list(false, 'b', 'a')]), false, ['a', 'b'])!, /bullet/);
+  });
+});
+
+describe('checkLink', () => {
+  it('needs one more link with the text to the URL', () => {
+    const before = snapshot('', [paragraph(text('docs'))]);
+    const after = snapshot('', [paragraph(text('docs', { href: 'https://example.com/' }))]);
+    assert.equal(checkLink(before, after, 'docs', 'https://example.com'), null);
+    assert.match(checkLink(before, before, 'docs', 'https://example.com')!, /does not link/);
+  });
+});
+
+describe('checkAlignment', () => {
+  it('counts non-empty paragraphs without the alignment', () => {
+    const after = snapshot('a b', [
+      { type: 'paragraph', align: 'center', children: [text('a')] },
+      paragraph(text('b')),
+      paragraph(text(' ')),
+    ]);
+    assert.equal(checkAlignment(snapshot('a b'), after, 'center'), '1 paragraph(s) are not aligned center');
+    assert.equal(checkAlignment(snapshot('a b'), after, 'left'), '1 paragraph(s) are not aligned left');
+  });
+});
+
+describe('checkInserted', () => {
+  it('needs the existing words kept and the new words added', () => {
+    const before = snapshot('one two');
+    assert.equal(checkInserted(before, snapshot('one new words two'), 'new words', 'text'), null);
+    assert.match(checkInserted(before, snapshot('one new words'), 'new words', 'text')!, /existing content/);
+    assert.match(checkInserted(before, snapshot('one two'), 'two', 'text')!, /does not appear/);
+  });
+});
+
+describe('checkReplaced', () => {
+  it('accepts matches that gave way to their replacements', () => {
+    const replaced = [{ text: 'cat', replacement: 'dog' }, { text: 'cat', replacement: 'dog' }];
+    assert.equal(checkReplaced(snapshot('cat and cat'), snapshot('dog and dog'), replaced, false), null);
+    assert.equal(checkReplaced(snapshot('cat'), snapshot('cats'), [{ text: 'cat', replacement: 'cats' }], false), null);
+  });
+
+  it('reports a replacement that did not land', () => {
+    const replaced = [{ text: 'cat', replacement: 'dog' }, { text: 'cat', replacement: 'dog' }];
+    assert.match(checkReplaced(snapshot('cat and cat'), snapshot('dog and cat'), replaced, false)!, /"cat" is still/);
+    assert.match(checkReplaced(snapshot('cat and cat'), snapshot('dog cat and cat'), replaced, true)!, /"dog" appears 1 more time/);
+  });
+
+  it('reports removed text that is still there, unless the removal is only suggested', () => {
+    const replaced = [{ text: 'draft', replacement: '' }];
+    assert.match(checkReplaced(snapshot('a draft'), snapshot('a draft'), replaced, false)!, /"draft" is still/);
+    assert.equal(checkReplaced(snapshot('a draft'), snapshot('a draft'), replaced, true), null);
+  });
+});
+
+describe('checkSection', () => {
+  const heading = (value: string, level = 2): DocumentBlock => ({ type: 'heading', level, children: [text(value)] });
+  const before = snapshot('', [paragraph(text('intro')), heading('Plan'), paragraph(text('old')), heading('Next')]);
+
+  it('needs the heading, the new content after it and the text before it unchanged', () => {
+    const after = snapshot('', [paragraph(text('intro')), heading('Plan'), paragraph(text('new')), heading('Next')]);
+    assert.equal(checkSection(before, after, 'plan', 'new', 'text', false), null);
+    assert.match(checkSection(before, before, 'Plan', 'new', 'text', false)!, /does not appear under/);
+    assert.match(checkSection(before, snapshot('', [paragraph(text('new'))]), 'Plan', 'new', 'text', false)!, /heading "Plan" is missing/);
+    const moved = snapshot('', [paragraph(text('other')), heading('Plan'), paragraph(text('new'))]);
+    assert.match(checkSection(before, moved, 'Plan', 'new', 'text', false)!, /before "Plan" changed/);
+  });
+
+  it('needs an emptied section to be empty up to the next heading', () => {
+    const emptied = snapshot('', [paragraph(text('intro')), heading('Plan'), heading('Next')]);
+    assert.equal(checkSection(before, emptied, 'Plan', '', 'text', false), null);
+    assert.match(checkSection(before, before, 'Plan', '', 'text', false)!, /not empty/);
+    assert.equal(checkSection(before, before, 'Plan', '', 'text', true), null);
+  });
+});
+
+describe('checkTree', () => {
+  it('compares the document text with the tree word for word', () => {
+    const tree = { version: 1, blocks: [paragraph(text('Hello, world')), { type: 'code' as const, text: 'x = 1' }] };
+    const after = snapshot('', [paragraph(text('Hello world')), { type: 'code', text: 'x = 1' }]);
+    assert.equal(checkTree(snapshot(''), after, tree), null);
+    assert.match(checkTree(snapshot(''), snapshot('', [paragraph(text('Hello'))]), tree)!, /does not match the tree/);
+  });
+});
+
+describe('checkFont', () => {
+  it('only checks that the text is unchanged', () => {
+    assert.equal(checkFont(snapshot('a  b'), snapshot('a b')), null);
+    assert.match(checkFont(snapshot('a b'), snapshot('a'))!, /text changed/);
+  });
+});
+
+describe('checkRestored', () => {
+  it('compares the document with the version Markdown', () => {
+    assert.equal(checkRestored(snapshot('a\nb\n'), 'a\nb', 'v2'), null);
+    assert.equal(
+      checkRestored(snapshot('a\nc'), 'a\nb', 'v2'),
+      'The document does not match version v2 after restoring (1 line(s) missing, 1 line(s) extra)'
+    );
+  });
+});
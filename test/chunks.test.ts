@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DocumentBlock } from "../src/ast.js";
+import { Chunk, ChunkSource, chunkDocument, citation, rankChunksByEmbedding, rankChunksLexically } from "../src/chunks.js";
+import { EmbeddingProvider } from "../src/embeddings.js";
+
+const heading = (id: string, level: number, text: string): DocumentBlock =>
+  ({ type: 'heading', id, level, children: [{ type: 'text', text }] });
+const paragraph = (id: string, text: string): DocumentBlock =>
+  ({ type: 'paragraph', id, children: [{ type: 'text', text }] });
+
+const blocks: DocumentBlock[] = [
+  paragraph('p0', 'Intro text'),
+  heading('h1', 1, 'Plan'),
+  paragraph('p1', 'Overview'),
+  heading('h2', 2, 'Budget'),
+  { type: 'list', id: 'l1', ordered: true, items: [{ children: [{ type: 'text', text: 'rent' }] }] },
+  heading('h3', 1, 'Risks'),
+  paragraph('p2', 'None so far'),
+];
+
+describe('chunkDocument', () => {
+  it('splits a document at headings and records where each part sits', () => {
+    const chunks = chunkDocument('doc', blocks);
+    assert.deepEqual(chunks.map((chunk) => [chunk.id, chunk.headingPath, chunk.anchor.heading, chunk.text]), [
+      ['doc#p0', [], null, 'Intro text'],
+      ['doc#h1', ['Plan'], 'Plan', 'Plan\n\nOverview'],
+      ['doc#h2', ['Plan', 'Budget'], 'Budget', 'Budget\n\n1. rent'],
+      ['doc#h3', ['Risks'], 'Risks', 'Risks\n\nNone so far'],
+    ]);
+    assert.equal(citation('Project', chunks[2]), 'Project › Plan › Budget');
+  });
+
+  it('splits long sections at block boundaries under the same heading', () => {
+    const long = 'x'.repeat(1500);
+    const chunks = chunkDocument('doc', [heading('h', 1, 'Long'), paragraph('a', long), paragraph('b', long)]);
+    assert.deepEqual(chunks.map((chunk) => [chunk.id, chunk.anchor.heading]), [['doc#h', 'Long'], ['doc#b', 'Long']]);
+  });
+});
+
+describe('ranking', () => {
+  const source: ChunkSource = { documentId: 'doc', documentUrl: 'https://docs.proton.me/doc?linkId=doc', title: 'Project' };
+  const entries = () => chunkDocument('doc', blocks).map((chunk: Chunk) => ({ chunk, source }));
+
+  it('ranks chunks containing the query words', () => {
+    const ranked = rankChunksLexically(entries(), 'budget rent');
+    assert.deepEqual(ranked.map((result) => result.index), [2]);
+    assert.ok(ranked[0].score > 0);
+  });
+
+  it('embeds each chunk once and scores by cosine similarity', async () => {
+    const embedded: string[] = [];
+    const provider: EmbeddingProvider = {
+      name: 'test',
+      embed: async (texts) => {
+        embedded.push(...texts);
+        return texts.map((text) => (/risk/i.test(text) ? [1, 0] : [0, 1]));
+      },
+    };
+    const cache: Record<string, number[]> = {};
+    const first = await rankChunksByEmbedding(provider, cache, entries(), 'risk');
+    assert.deepEqual(first.map((result) => result.score), [0, 0, 0, 1]);
+    await rankChunksByEmbedding(provider, cache, entries(), 'risk');
+    assert.equal(embedded.length, 4 + 1 + 1);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Frame } from "puppeteer";
+import { CommentThread, findAddedThread, findCommentThread, scrapeCommentThreads } from "../src/comments.js";
+import { loadSelectorRegistry } from "../src/selectors.js";
+import { editorRoot, fixture } from "./dom.js";
+
+const selectors = loadSelectorRegistry();
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+// The editor frame holding the comments panel, evaluating in the jsdom window.
+function panel(html: string): Frame {
+  editorRoot(html);
+  return {
+    evaluate: async (fn: (...args: unknown[]) => unknown, ...args: unknown[]) => fn(...args),
+    $$: async (selector: string) => Array.from(document.querySelectorAll(selector)),
+  } as unknown as Frame;
+}
+
+const thread = (anchorText: string, text: string, fields: Partial<CommentThread> = {}): CommentThread => ({
+  id: `thread-${anchorText}`,
+  kind: 'comment',
+  anchorText,
+  resolved: false,
+  author: 'Ada',
+  createdAt: '2026-10-19T10:00:00.000Z',
+  text,
+  replies: [],
+  ...fields,
+});
+
+describe('findAddedThread', () => {
+  it('picks the new thread holding the comment on the requested text', () => {
+    const added = [thread('other', 'Check this'), thread('the  budget', 'Check this')];
+    assert.equal(findAddedThread(added, 'the budget', 'Check this\n', true), added[1]);
+  });
+
+  it('compares the anchor case-insensitively only when asked to', () => {
+    const added = [thread('The Budget', 'Check this')];
+    assert.equal(findAddedThread(added, 'the budget', 'Check this', false), added[0]);
+    assert.throws(() => findAddedThread(added, 'the budget', 'Check this', true), /attached to "The Budget"/);
+  });
+
+  it('accepts a quote the panel shortened with an ellipsis', () => {
+    const added = [thread('A long paragraph that…', 'Check this')];
+    assert.equal(findAddedThread(added, 'A long paragraph that goes on', 'Check this', true), added[0]);
+    assert.throws(() => findAddedThread(added, 'A short one', 'Check this', true), /instead of "A short one"/);
+  });
+
+  it('fails instead of taking another new thread', () => {
+    const added = [thread('budget', 'Someone else'), thread('budget', 'Suggested', { kind: 'suggestion' })];
+    assert.throws(() => findAddedThread(added, 'budget', 'Check this', true), /did not appear/);
+    assert.throws(() => findAddedThread([], 'budget', 'Check this', true), /did not appear/);
+  });
+});
+
+describe('scrapeCommentThreads', () => {
+  it('reads threads with their anchor, replies, state and kind', async () => {
+    const threads = await scrapeCommentThreads(panel(fixture('comments/panel.html')), selectors, now);
+    assert.deepEqual(threads[0], {
+      id: 't-1',
+      kind: 'comment',
+      anchorText: 'the budget',
+      resolved: false,
+      author: 'Ada',
+      createdAt: '2026-10-18T09:00:00.000Z',
+      text: 'Is this final?',
+      replies: [{ author: 'Grace', createdAt: '2026-10-19T11:55:00.000Z', text: 'Not yet.' }],
+    });
+    assert.deepEqual(threads.map((thread) => [thread.kind, thread.resolved]), [
+      ['comment', false],
+      ['comment', true],
+      ['suggestion', false],
+    ]);
+  });
+
+  it('derives a stable id for threads the panel gives none', async () => {
+    const [, before] = await scrapeCommentThreads(panel(fixture('comments/panel.html')), selectors, now);
+    assert.match(before.id, /^thread-[0-9a-f]{12}$/);
+
+    // Replies and relative times do not change the id.
+    const reply = '<div data-testid="comment"><span data-testid="comment-author">Grace</span>'
+      + '<div data-testid="comment-content">Reopening?</div></div>';
+    const html = fixture('comments/panel.html')
+      .replace('2 hours ago', '3 hours ago')
+      .replace(/Done, thanks\.<\/div>\s*<\/div>/, (comment) => comment + reply);
+    const [, after] = await scrapeCommentThreads(panel(html), selectors, now);
+    assert.equal(after.replies.length, 1);
+    assert.equal(after.id, before.id);
+  });
+});
+
+describe('findCommentThread', () => {
+  it('returns the thread with its element, or null', async () => {
+    const frame = panel(fixture('comments/panel.html'));
+    const found = await findCommentThread(frame, selectors, 's-1');
+    assert.equal(found!.thread.anchorText, 'revenue');
+    assert.equal((found!.handle as unknown as Element).getAttribute('data-thread-id'), 's-1');
+    assert.equal(await findCommentThread(frame, selectors, 'missing'), null);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { ConfigError, loadConfig, parseCliArgs } from "../src/config.js";
+
+describe('parseCliArgs', () => {
+  it('accepts boolean flags with an attached, separate or negated value', () => {
+    assert.equal(parseCliArgs(['--headless']).overrides.headless, true);
+    assert.equal(parseCliArgs(['--headless=false']).overrides.headless, 'false');
+    assert.equal(parseCliArgs(['--headless', 'false']).overrides.headless, 'false');
+    assert.equal(parseCliArgs(['--no-headless']).overrides.headless, false);
+  });
+
+  it('does not take the next option as the value of a boolean flag', () => {
+    const options = parseCliArgs(['--headless', '--timeout', '5000']);
+    assert.equal(options.overrides.headless, true);
+    assert.equal(options.overrides.timeout, '5000');
+  });
+
+  it('collects repeated browser arguments', () => {
+    const options = parseCliArgs(['--browser-arg', '--disable-gpu', '--browser-arg=--no-first-run']);
+    assert.deepEqual(options.overrides.browserArgs, ['--disable-gpu', '--no-first-run']);
+  });
+
+  it('parses the export-all command', () => {
+    const options = parseCliArgs(['export-all', '--output', 'backup', '--format', 'markdown', '--full']);
+    assert.equal(options.command, 'export-all');
+    assert.deepEqual(options.exportOptions, { output: 'backup', format: 'markdown', full: true });
+  });
+
+  it('rejects unknown options, stray arguments and missing values', () => {
+    assert.throws(() => parseCliArgs(['--nope']), ConfigError);
+    assert.throws(() => parseCliArgs(['stray']), ConfigError);
+    assert.throws(() => parseCliArgs(['--timeout']), ConfigError);
+    assert.throws(() => parseCliArgs(['--no-timeout']), ConfigError);
+  });
+});
+
+describe('loadConfig', () => {
+  it('layers the config file, environment and flags in that order', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'proton-docs-config-'));
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify({ headless: true, timeout: 10000, poolSize: 2 }));
+
+    const config = loadConfig(
+      parseCliArgs(['--config', path, '--headless', 'false']),
+      { PROTON_DOCS_TIMEOUT: '20000' }
+    );
+    assert.equal(config.headless, false);
+    assert.equal(config.timeout, 20000);
+    assert.equal(config.poolSize, 2);
+  });
+
+  it('reports invalid values as a ConfigError', () => {
+    assert.throws(() => loadConfig(parseCliArgs(['--timeout', 'soon']), {}), ConfigError);
+    assert.throws(() => loadConfig(parseCliArgs(['--headless=maybe']), {}), ConfigError);
+  });
+});
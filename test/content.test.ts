@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { cleanEditorHtml, locateText, serializeEditor } from "../src/content.js";
+import { markdownToHtml } from "../src/markdown.js";
+import { editorRoot, fixture } from "./dom.js";
+
+const expected = (name: string) => fixture(`editor/${name}`).replace(/\n$/, '');
+
+describe('serializeEditor', () => {
+  it('converts saved editor HTML to Markdown', () => {
+    const root = editorRoot(fixture('editor/formatting.html'));
+    assert.equal(serializeEditor(root, 'markdown'), expected('formatting.md'));
+  });
+
+  it('converts saved editor HTML to plain text', () => {
+    const root = editorRoot(fixture('editor/formatting.html'));
+    assert.equal(serializeEditor(root, 'text'), expected('formatting.txt'));
+  });
+
+  it('escapes text that Markdown would read as syntax', () => {
+    const root = editorRoot('<p>- not a list</p><p>1. not a list either</p><p>a *b* [c]</p>');
+    assert.equal(serializeEditor(root, 'markdown'), '\\- not a list\n\n1\\. not a list either\n\na \\*b\\* \\[c\\]');
+  });
+
+  it('keeps whitespace outside emphasis markers', () => {
+    const root = editorRoot('<p>a<strong> bold </strong>b</p>');
+    assert.equal(serializeEditor(root, 'markdown'), 'a **bold** b');
+  });
+
+  it('writes task list items with their checked state', () => {
+    const root = editorRoot('<ul><li aria-checked="true">Done</li><li aria-checked="false">Open</li></ul>');
+    assert.equal(serializeEditor(root, 'markdown'), '- [x] Done\n- [ ] Open');
+  });
+
+  it('returns an empty string for an empty document', () => {
+    assert.equal(serializeEditor(editorRoot('<p><br></p>'), 'markdown'), '');
+  });
+});
+
+describe('cleanEditorHtml', () => {
+  it('strips editor classes, styles and data attributes', () => {
+    const root = editorRoot(fixture('editor/formatting.html'));
+    assert.equal(cleanEditorHtml(root), expected('formatting.clean.html'));
+  });
+
+  it('turns class-only formatting into tags', () => {
+    const root = editorRoot('<p><span class="Lexical__textBold Lexical__textItalic">both</span></p>');
+    assert.equal(cleanEditorHtml(root), '<p><em><strong>both</strong></em></p>');
+  });
+});
+
+describe('Markdown round trip', () => {
+  it('reads back Markdown written with markdownToHtml unchanged', () => {
+    const markdown = expected('formatting.md');
+    const root = editorRoot(markdownToHtml(markdown));
+    assert.equal(serializeEditor(root, 'markdown'), markdown);
+  });
+
+  it('round-trips escaped characters, line breaks and nested ordered lists', () => {
+    const markdown = 'Line one  \nline two with \\*stars\\* and a\\_b\n\n1. First\n   1. Nested\n2. Second';
+    const root = editorRoot(markdownToHtml(markdown));
+    assert.equal(serializeEditor(root, 'markdown'), markdown);
+  });
+});
+
+describe('locateText', () => {
+  const replacements = async (html: string, source: string, replace: string) =>
+    (await locateText(editorRoot(html), source, '', null, replace)).map((match) => match.replacement);
+
+  it('finds every match line by line, across inline formatting', async () => {
+    const root = editorRoot('<p>one <strong>two</strong> one</p><p>one</p>');
+    const matches = await locateText(root, 'one', '', null);
+    assert.deepEqual(matches, [
+      { index: 0, text: 'one' },
+      { index: 1, text: 'one' },
+      { index: 2, text: 'one' },
+    ]);
+    assert.deepEqual(await locateText(root, 'one two', '', null), [{ index: 0, text: 'one two' }]);
+  });
+
+  it('expands replacements against the whole line', async () => {
+    assert.deepEqual(await replacements('<p>price 10, cost 20</p>', '(?<=cost )\\d+', '[$&]'), ['[20]']);
+    assert.deepEqual(await replacements('<p>cat concat cat</p>', '\\bcat\\b', 'dog'), ['dog', 'dog']);
+    assert.deepEqual(await replacements('<p>alpha beta</p><p>gamma</p>', '^(\\w+)', '$1!'), ['alpha!', 'gamma!']);
+    assert.deepEqual(await replacements('<p>end here</p>', '\\w+$', '<$&>'), ['<here>']);
+    assert.deepEqual(await replacements('<p>2024-05</p>', '(?<year>\\d+)-(?<month>\\d+)', '$<month>/$<year>'), ['05/2024']);
+  });
+
+  it('selects the requested match and reports it', async () => {
+    const root = editorRoot('<p>one two one</p>');
+    const matches = await locateText(root, 'one', '', 1);
+    assert.equal(matches[1].selected, true);
+    assert.equal(matches[0].selected, undefined);
+    const range = window.getSelection()!.getRangeAt(0);
+    assert.equal(range.startOffset, 8);
+    assert.equal(range.endOffset, 11);
+  });
+
+  it('reports a match the selection could not be moved to', async () => {
+    const root = editorRoot('<p>one two one</p>');
+    // An editor that ignores programmatic selection changes.
+    Object.assign(window, {
+      getSelection: () => ({ rangeCount: 0, removeAllRanges() {}, addRange() {}, toString: () => '' }),
+    });
+    const matches = await locateText(root, 'one', '', 1);
+    assert.equal(matches[1].selected, false);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffSequences, unifiedDiff, wordDiff } from "../src/diff.js";
+
+describe('diffSequences', () => {
+  it('finds the shortest edit script', () => {
+    assert.deepEqual(diffSequences(['a', 'b', 'c'], ['a', 'c', 'd']), [
+      { type: 'equal', value: 'a' },
+      { type: 'delete', value: 'b' },
+      { type: 'equal', value: 'c' },
+      { type: 'insert', value: 'd' },
+    ]);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('writes hunks with line numbers and the requested context', () => {
+    const result = unifiedDiff('a\nb\nc\nd\ne', 'a\nb\nX\nd\ne', { context: 1 });
+    assert.equal(result.diff, '--- before\n+++ after\n@@ -2,3 +2,3 @@\n b\n-c\n+X\n d');
+    assert.deepEqual([result.added, result.removed, result.truncated], [1, 1, false]);
+  });
+
+  it('is empty for identical texts', () => {
+    assert.deepEqual(unifiedDiff('same', 'same'), { diff: '', added: 0, removed: 0, truncated: false });
+  });
+
+  it('leaves out hunks beyond maxLines but still counts them', () => {
+    const lines = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => String(from + i)).join('\n');
+    const result = unifiedDiff(lines(1, 10), lines(0, 9), { context: 1, maxLines: 6 });
+    assert.equal(result.diff, '--- before\n+++ after\n@@ -1,1 +1,2 @@\n+0\n 1');
+    assert.deepEqual([result.added, result.removed, result.truncated], [1, 1, true]);
+  });
+});
+
+describe('wordDiff', () => {
+  it('marks removed and added words inline', () => {
+    const result = wordDiff('the quick fox', 'the slow fox jumps');
+    assert.equal(result.diff, 'the [-quick-]{+slow+} fox{+ jumps+}');
+    assert.deepEqual([result.added, result.removed], [2, 1]);
+  });
+});
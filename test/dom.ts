@@ -0,0 +1,20 @@
+import { readFileSync } from "fs";
+import { JSDOM } from "jsdom";
+
+const FIXTURES = new URL('./fixtures/', import.meta.url);
+
+export function fixture(path: string): string {
+  return readFileSync(new URL(path, FIXTURES), 'utf8');
+}
+
+/**
+ * The editor root holding `html`. The content.ts functions normally run in
+ * the editor frame, so the DOM globals they use are pointed at this window.
+ */
+export function editorRoot(html: string): Element {
+  const { window } = new JSDOM(`<!DOCTYPE html><div data-testid="main-editor" contenteditable="true"></div>`);
+  Object.assign(globalThis, { window, document: window.document, Node: window.Node, NodeFilter: window.NodeFilter });
+  const root = window.document.querySelector('[data-testid="main-editor"]')!;
+  root.innerHTML = html.trim().replace(/>\n</g, '><');
+  return root;
+}
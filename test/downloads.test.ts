@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { EventEmitter } from "events";
+import { mkdtempSync, readFileSync, readdirSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { Page } from "puppeteer";
+import { DownloadError, captureDownload, isTextMimeType, mimeTypeFor } from "../src/downloads.js";
+
+/**
+ * A browser whose download directory is one setting shared by every tab, as
+ * in Chromium, and whose download events reach every CDP session.
+ */
+class FakeBrowser {
+  downloadPath = '';
+  private sessions: EventEmitter[] = [];
+  private downloads = 0;
+
+  page(frameId: string): Page {
+    return {
+      createCDPSession: async () => {
+        const session = Object.assign(new EventEmitter(), {
+          send: async (method: string, params: { downloadPath?: string }) => {
+            if (method === 'Browser.setDownloadBehavior') this.downloadPath = params.downloadPath!;
+            if (method === 'Page.getFrameTree') return { frameTree: { frame: { id: frameId } } };
+            return {};
+          },
+          detach: async () => {
+            this.sessions = this.sessions.filter((other) => other !== session);
+          },
+        });
+        this.sessions.push(session);
+        return session;
+      },
+    } as unknown as Page;
+  }
+
+  // Save `content` under a GUID in the current download directory.
+  download(frameId: string, filename: string, content: string, state = 'completed') {
+    const guid = `guid-${++this.downloads}`;
+    writeFileSync(join(this.downloadPath, guid), content);
+    for (const session of this.sessions) {
+      session.emit('Browser.downloadWillBegin', { frameId, guid, suggestedFilename: filename });
+    }
+    for (const session of this.sessions) {
+      session.emit('Browser.downloadProgress', { guid, state });
+    }
+  }
+}
+
+const temp = () => mkdtempSync(join(tmpdir(), 'proton-docs-download-'));
+
+describe('captureDownload', () => {
+  it('moves the finished file to the directory under its suggested name', async () => {
+    const browser = new FakeBrowser();
+    const incoming = join(temp(), '.incoming');
+    const directory = temp();
+    writeFileSync(join(directory, 'Plan.txt'), 'older');
+
+    const file = await captureDownload(browser.page('a'), incoming, directory, async () => {
+      browser.download('a', 'Plan.txt', 'plan');
+    }, 1000);
+
+    assert.equal(file.path, join(directory, 'Plan (2).txt'));
+    assert.equal(file.mimeType, 'text/plain');
+    assert.equal(file.size, 4);
+    assert.equal(readFileSync(file.path, 'utf8'), 'plan');
+    assert.deepEqual(readdirSync(incoming), []);
+  });
+
+  it('keeps concurrent downloads from different tabs apart', async () => {
+    const browser = new FakeBrowser();
+    const incoming = join(temp(), '.incoming');
+    const exportDir = temp();
+    const downloadDir = temp();
+
+    // Both calls set up their download before either file arrives.
+    let releaseFirst!: () => void;
+    const firstSetUp = new Promise<void>((resolve) => (releaseFirst = resolve));
+    const first = captureDownload(browser.page('a'), incoming, exportDir, async () => {
+      await firstSetUp;
+      browser.download('a', 'A.md', 'first');
+    }, 1000);
+    const second = captureDownload(browser.page('b'), incoming, downloadDir, async () => {
+      releaseFirst();
+      await new Promise((resolve) => setImmediate(resolve));
+      browser.download('b', 'B.md', 'second');
+    }, 1000);
+
+    const [a, b] = await Promise.all([first, second]);
+    assert.equal(readFileSync(join(exportDir, 'A.md'), 'utf8'), 'first');
+    assert.equal(readFileSync(join(downloadDir, 'B.md'), 'utf8'), 'second');
+    assert.deepEqual([a.filename, b.filename], ['A.md', 'B.md']);
+  });
+
+  it('fails when the download is canceled or never starts', async () => {
+    const browser = new FakeBrowser();
+    const incoming = join(temp(), '.incoming');
+    await assert.rejects(
+      captureDownload(browser.page('a'), incoming, temp(), async () => browser.download('a', 'x.pdf', '', 'canceled'), 1000),
+      DownloadError
+    );
+    await assert.rejects(captureDownload(browser.page('a'), incoming, temp(), async () => undefined, 20), /No download started/);
+  });
+});
+
+describe('MIME types', () => {
+  it('follow the file extension', () => {
+    assert.equal(mimeTypeFor('a.DOCX'), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    assert.equal(mimeTypeFor('a.bin'), 'application/octet-stream');
+    assert.equal(isTextMimeType(mimeTypeFor('a.md')), true);
+    assert.equal(isTextMimeType(mimeTypeFor('a.pdf')), false);
+  });
+});
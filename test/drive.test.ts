@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { folderUrl, joinFolderPath, parseFolderUrl, splitFolderPath } from "../src/drive.js";
+
+describe('folder URLs', () => {
+  it('reads the share and folder id back from a folder URL', () => {
+    const url = folderUrl('https://drive.proton.me/u/1/', 'share', 'folder1');
+    assert.equal(url, 'https://drive.proton.me/u/1/share/folder/folder1');
+    assert.deepEqual(parseFolderUrl(`${url}?sort=name`), { shareId: 'share', folderId: 'folder1' });
+    assert.equal(parseFolderUrl('https://drive.proton.me/u/1/'), null);
+  });
+});
+
+describe('folder paths', () => {
+  it('drops the root folder and accepts listing separators', () => {
+    assert.deepEqual(splitFolderPath('My files/Specs/2025'), ['Specs', '2025']);
+    assert.deepEqual(splitFolderPath('my files / Specs'), ['Specs']);
+    assert.deepEqual(splitFolderPath(''), []);
+  });
+
+  it('joins paths from the root', () => {
+    assert.equal(joinFolderPath(['Specs', '2025']), 'My files/Specs/2025');
+    assert.equal(joinFolderPath([]), 'My files');
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { ManifestEntry, exportPath, isUnchanged, loadManifest, saveManifest } from "../src/exporter.js";
+import { DocumentRow } from "../src/listing.js";
+
+const row = (fields: Partial<DocumentRow>): DocumentRow => ({
+  title: 'Plan',
+  url: 'https://docs.proton.me/doc?linkId=a',
+  viewed: '',
+  modified: 'Yesterday',
+  createdBy: 'me',
+  location: 'My files / Specs',
+  size: '',
+  shared: false,
+  deleted: '',
+  ...fields,
+});
+
+const entry = (fields: Partial<ManifestEntry>): ManifestEntry => ({
+  url: 'https://docs.proton.me/doc?linkId=a',
+  title: 'Plan',
+  owner: 'me',
+  location: 'My files / Specs',
+  modified: 'Yesterday',
+  viewed: '',
+  format: 'markdown',
+  file: 'Plan.md',
+  size: 4,
+  sha256: '',
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  ...fields,
+});
+
+describe('exportPath', () => {
+  it('mirrors the folder and numbers paths already taken', () => {
+    const taken = new Set<string>();
+    assert.equal(exportPath(row({}), 'markdown', taken), join('My files', 'Specs', 'Plan.md'));
+    assert.equal(exportPath(row({ title: 'plan' }), 'markdown', taken), join('My files', 'Specs', 'plan (2).md'));
+  });
+
+  it('replaces characters that are not allowed in file names', () => {
+    const path = exportPath(row({ title: 'a/b: c?', location: '' }), 'docx', new Set());
+    assert.equal(path, 'a_b_ c_.docx');
+  });
+});
+
+describe('isUnchanged', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'proton-docs-export-'));
+  writeFileSync(join(directory, 'Plan.md'), 'plan');
+
+  it('skips documents exported in the same format with the same timestamp', () => {
+    assert.equal(isUnchanged(entry({}), row({}), 'markdown', directory), true);
+  });
+
+  it('exports again after a change, a new format or a missing file', () => {
+    assert.equal(isUnchanged(entry({}), row({ modified: 'Today' }), 'markdown', directory), false);
+    assert.equal(isUnchanged(entry({}), row({}), 'pdf', directory), false);
+    assert.equal(isUnchanged(entry({ file: 'Gone.md' }), row({}), 'markdown', directory), false);
+    assert.equal(isUnchanged(undefined, row({}), 'markdown', directory), false);
+  });
+});
+
+describe('manifest', () => {
+  it('reads back what was saved', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'proton-docs-export-'));
+    assert.equal(loadManifest(directory), null);
+    const manifest = { version: 1 as const, updatedAt: '2024-01-01T00:00:00.000Z', documents: [entry({})] };
+    saveManifest(directory, manifest);
+    assert.deepEqual(loadManifest(directory), manifest);
+  });
+});
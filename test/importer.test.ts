@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { ImportError, convertForImport, detectImportFormat, titleFromFilename } from "../src/importer.js";
+
+describe('detectImportFormat and titleFromFilename', () => {
+  it('work from the file name', () => {
+    assert.equal(detectImportFormat('Notes.MD'), 'markdown');
+    assert.equal(detectImportFormat('page.htm'), 'html');
+    assert.equal(detectImportFormat('data.csv'), null);
+    assert.equal(titleFromFilename('/tmp/Q3 plan.docx'), 'Q3 plan');
+  });
+});
+
+describe('convertForImport', () => {
+  it('turns text paragraphs and line breaks into HTML', async () => {
+    const { html } = await convertForImport(Buffer.from('\ufeffa <b>\r\nline\r\n\r\nnext'), 'text');
+    assert.equal(html, '<p>a &lt;b&gt;<br>line</p><p>next</p>');
+  });
+
+  it('keeps only the body of HTML pages', async () => {
+    const page = '<html><head><title>t</title></head><body><p>Hi</p><script>x()</script><!-- note --></body></html>';
+    assert.equal((await convertForImport(Buffer.from(page), 'html')).html, '<p>Hi</p>');
+  });
+
+  it('embeds local images and warns about missing ones', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'proton-docs-import-'));
+    writeFileSync(join(directory, 'dot.png'), Buffer.from([1, 2, 3]));
+    const source = join(directory, 'notes.md');
+    const { html, warnings } = await convertForImport(Buffer.from('![dot](dot.png) ![gone](gone.png)'), 'markdown', source);
+    assert.match(html, /src="data:image\/png;base64,AQID"/);
+    assert.match(html, /src="gone.png"/);
+    assert.deepEqual(warnings, ['Image gone.png could not be embedded']);
+  });
+
+  it('reports files that are not DOCX as an ImportError', async () => {
+    await assert.rejects(convertForImport(Buffer.from('plain text'), 'docx'), ImportError);
+  });
+});
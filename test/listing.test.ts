@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DocumentRow,
+  decodeCursor,
+  documentId,
+  encodeCursor,
+  folderSegments,
+  parseListingDate,
+  parseSize,
+  toListedDocument,
+} from "../src/listing.js";
+
+// Friday 14 March 2025, noon local time.
+const now = new Date(2025, 2, 14, 12, 0);
+const local = (...parts: [number, number, number, number?, number?]) => new Date(...parts).toISOString();
+
+describe('parseListingDate', () => {
+  it('reads relative times', () => {
+    assert.equal(parseListingDate('Just now', now), now.toISOString());
+    assert.equal(parseListingDate('5 minutes ago', now), local(2025, 2, 14, 11, 55));
+    assert.equal(parseListingDate('an hour ago', now), local(2025, 2, 14, 11, 0));
+  });
+
+  it('reads days with an optional time', () => {
+    assert.equal(parseListingDate('Today, 10:32', now), local(2025, 2, 14, 10, 32));
+    assert.equal(parseListingDate('Yesterday at 9:15 PM', now), local(2025, 2, 13, 21, 15));
+    assert.equal(parseListingDate('Monday', now), local(2025, 2, 10));
+    assert.equal(parseListingDate('Friday', now), local(2025, 2, 7));
+  });
+
+  it('reads absolute dates, implying a year that is not in the future', () => {
+    assert.equal(parseListingDate('Mar 12', now), local(2025, 2, 12));
+    assert.equal(parseListingDate('Dec 24', now), local(2024, 11, 24));
+    assert.equal(parseListingDate('Mar 12, 2023', now), local(2023, 2, 12));
+    assert.equal(parseListingDate('2025-03-12T09:30:00.000Z', now), '2025-03-12T09:30:00.000Z');
+  });
+
+  it('returns null for empty cells and other text', () => {
+    assert.equal(parseListingDate('—', now), null);
+    assert.equal(parseListingDate('', now), null);
+    assert.equal(parseListingDate('not a date', now), null);
+  });
+});
+
+describe('parseSize', () => {
+  it('converts size cells to bytes', () => {
+    assert.equal(parseSize('12 KB'), 12 * 1024);
+    assert.equal(parseSize('1,5 MB'), 1.5 * 1024 ** 2);
+    assert.equal(parseSize('900 bytes'), 900);
+    assert.equal(parseSize('—'), null);
+  });
+});
+
+describe('toListedDocument', () => {
+  const row: DocumentRow = {
+    title: 'Plan',
+    url: 'https://docs.proton.me/doc?mode=open&volumeId=v&linkId=abc',
+    viewed: 'Today, 10:32',
+    modified: '',
+    createdBy: 'ada@example.com',
+    location: 'My files / Specs',
+    size: '2 KB',
+    shared: true,
+    deleted: '',
+  };
+
+  it('parses the cells and recognizes the account owner', () => {
+    const document = toListedDocument(row, 'Ada@Example.com', now);
+    assert.deepEqual(document, {
+      id: 'abc',
+      title: 'Plan',
+      url: row.url,
+      owner: 'ada@example.com',
+      ownedByMe: true,
+      lastViewed: local(2025, 2, 14, 10, 32),
+      lastModified: null,
+      size: 2048,
+      shared: true,
+      folder: 'My files/Specs',
+    });
+    assert.equal(toListedDocument(row, 'bob@example.com', now).ownedByMe, false);
+  });
+});
+
+describe('documentId and folderSegments', () => {
+  it('take the link id, else the last path segment', () => {
+    assert.equal(documentId('https://docs.proton.me/doc?linkId=abc'), 'abc');
+    assert.equal(documentId('https://docs.proton.me/doc/xyz'), 'xyz');
+  });
+
+  it('split location cells on any of the separators Drive shows', () => {
+    assert.deepEqual(folderSegments('My files / Specs › 2025'), ['My files', 'Specs', '2025']);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip the offset for the same query only', () => {
+    const cursor = encodeCursor(50, { search: 'plan' });
+    assert.equal(decodeCursor(cursor, { search: 'plan' }), 50);
+    assert.throws(() => decodeCursor(cursor, { search: 'other' }), /different query/);
+    assert.throws(() => decodeCursor('not a cursor', {}), /Invalid cursor/);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { escapeHtml, markdownToHtml, safeUrl } from "../src/markdown.js";
+
+describe('markdownToHtml', () => {
+  it('converts headings, paragraphs and inline formatting', () => {
+    assert.equal(
+      markdownToHtml('# Title\n\nSome **bold** and *it* `code`'),
+      '<h1>Title</h1><p>Some <strong>bold</strong> and <em>it</em> <code>code</code></p>'
+    );
+  });
+
+  it('converts ordered lists, tables, code blocks and quotes', () => {
+    assert.equal(markdownToHtml('1. one\n2. two'), '<ol><li>one</li><li>two</li></ol>');
+    assert.equal(
+      markdownToHtml('| a | b |\n|---|---|\n| 1 | 2 |'),
+      '<table><thead><tr><th>a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>'
+    );
+    assert.equal(markdownToHtml('```js\nx < 1\n```'), '<pre data-language="js"><code>x &lt; 1</code></pre>');
+    assert.equal(markdownToHtml('> quote'), '<blockquote><p>quote</p></blockquote>');
+  });
+
+  it('escapes raw HTML and neutralizes script links', () => {
+    assert.equal(markdownToHtml('<script>x</script>'), '<p>&lt;script&gt;x&lt;/script&gt;</p>');
+    assert.equal(markdownToHtml('[ok](https://e.com) [bad](javascript:void)'),
+      '<p><a href="https://e.com">ok</a> <a href="#">bad</a></p>');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup characters and quotes', () => {
+    assert.equal(escapeHtml('<a href="x">&</a>'), '&lt;a href=&quot;x&quot;&gt;&amp;&lt;/a&gt;');
+    assert.equal(safeUrl('https://e.com/a?b=1&c'), 'https://e.com/a?b=1&amp;c');
+  });
+});
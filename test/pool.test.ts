@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Page } from "puppeteer";
+import { KeyedLock, PagePool, PoolSaturatedError } from "../src/pool.js";
+
+// Just enough of a Page for the pool, which only checks and closes tabs.
+function fakePage(): Page {
+  let closed = false;
+  return {
+    isClosed: () => closed,
+    close: async () => { closed = true; },
+  } as unknown as Page;
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('PagePool', () => {
+  it('reuses released tabs instead of opening new ones', async () => {
+    let created = 0;
+    const pool = new PagePool(async () => (created++, fakePage()), 2, 10);
+    const first = await pool.use(async (page) => page);
+    const second = await pool.use(async (page) => page);
+    assert.equal(first, second);
+    assert.equal(created, 1);
+  });
+
+  it('queues callers beyond the pool size in order', async () => {
+    const pool = new PagePool(async () => fakePage(), 1, 10);
+    const order: number[] = [];
+    let finish!: () => void;
+    const running = pool.use(() => new Promise<void>((resolve) => (finish = resolve)));
+    const queued = [1, 2].map((n) => pool.use(async () => { order.push(n); }));
+    await tick();
+    assert.deepEqual(pool.stats, { size: 1, idle: 0, busy: 1, queued: 2 });
+    finish();
+    await Promise.all([running, ...queued]);
+    assert.deepEqual(order, [1, 2]);
+  });
+
+  it('rejects callers once the queue is full', async () => {
+    const pool = new PagePool(async () => fakePage(), 1, 1);
+    let finish!: () => void;
+    const running = pool.use(() => new Promise<void>((resolve) => (finish = resolve)));
+    const queued = pool.use(async () => undefined);
+    await tick();
+    await assert.rejects(pool.use(async () => undefined), PoolSaturatedError);
+    finish();
+    await Promise.all([running, queued]);
+  });
+
+  it('drops a queued caller when its signal aborts', async () => {
+    const pool = new PagePool(async () => fakePage(), 1, 10);
+    let finish!: () => void;
+    const running = pool.use(() => new Promise<void>((resolve) => (finish = resolve)));
+    const controller = new AbortController();
+    const queued = pool.use(async () => assert.fail('aborted call ran'), controller.signal);
+    await tick();
+    controller.abort(new Error('timed out'));
+    await assert.rejects(queued, /timed out/);
+    assert.equal(pool.stats.queued, 0);
+    finish();
+    await running;
+  });
+
+  it('replaces discarded tabs', async () => {
+    let created = 0;
+    const pool = new PagePool(async () => (created++, fakePage()), 1, 10);
+    await pool.use(async (page) => pool.discard(page));
+    await pool.use(async () => undefined);
+    assert.equal(created, 2);
+  });
+});
+
+describe('KeyedLock', () => {
+  it('runs operations on one key one at a time and other keys in parallel', async () => {
+    const lock = new KeyedLock();
+    const events: string[] = [];
+    const step = (name: string) => async () => {
+      events.push(`start ${name}`);
+      await tick();
+      events.push(`end ${name}`);
+    };
+    await Promise.all([lock.run('a', step('a1')), lock.run('a', step('a2')), lock.run('b', step('b'))]);
+    const at = (event: string) => events.indexOf(event);
+    assert.ok(at('end a1') < at('start a2'), events.join(', '));
+    assert.ok(at('start b') < at('end a1'), events.join(', '));
+  });
+
+  it('releases the key when an operation fails', async () => {
+    const lock = new KeyedLock();
+    await assert.rejects(lock.run('a', async () => { throw new Error('boom'); }), /boom/);
+    assert.equal(await lock.run('a', async () => 'next'), 'next');
+  });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/config.js";
+import { BUILTIN_PROMPTS, PromptError, loadPromptLibrary, renderTemplate } from "../src/prompts.js";
+
+function promptDir(templates: Record<string, unknown>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'proton-docs-prompts-'));
+  for (const [file, template] of Object.entries(templates)) {
+    writeFileSync(join(dir, file), JSON.stringify(template));
+  }
+  return dir;
+}
+
+describe('renderTemplate', () => {
+  it('fills in values and shows sections depending on them', () => {
+    const text = 'Hi {{name}}{{#title}}, {{title}}{{/title}}{{^title}} (no title){{/title}}.';
+    assert.equal(renderTemplate(text, { name: 'Ada', title: 'Dr' }), 'Hi Ada, Dr.');
+    assert.equal(renderTemplate(text, { name: 'Ada' }), 'Hi Ada (no title).');
+  });
+});
+
+describe('PromptLibrary', () => {
+  it('renders built-in prompts with trimmed arguments and the date', () => {
+    const library = loadPromptLibrary();
+    assert.equal(library.list().length, BUILTIN_PROMPTS.length);
+    const prompt = library.render('draft_meeting_notes', { title: ' Weekly ', notes: 'n', folder: '' });
+    assert.match(prompt.messages[0].content.text, /titled "Weekly" with the create_document tool\. /);
+  });
+
+  it('rejects unknown prompts and missing required arguments', () => {
+    const library = loadPromptLibrary();
+    assert.throws(() => library.render('nope'), PromptError);
+    assert.throws(() => library.render('draft_meeting_notes', { title: 'x', notes: ' ' }), /needs notes/);
+  });
+
+  it('loads templates from a directory, replacing built-in ones by name', () => {
+    const dir = promptDir({
+      'standup.json': {
+        name: 'standup',
+        arguments: [{ name: 'team', required: true }],
+        messages: [{ role: 'user', text: 'Standup for {{team}} on {{today}}' }],
+      },
+      'summary.json': { name: 'summarize_document', messages: [{ role: 'user', text: 'Custom' }] },
+    });
+    const library = loadPromptLibrary(dir);
+    const standup = library.render('standup', { team: 'Docs' }, new Date('2025-03-14T12:00:00Z'));
+    assert.equal(standup.messages[0].content.text, 'Standup for Docs on 2025-03-14');
+    assert.equal(library.render('summarize_document').messages[0].content.text, 'Custom');
+    assert.equal(library.list().length, BUILTIN_PROMPTS.length + 1);
+  });
+
+  it('reports invalid templates as a ConfigError', () => {
+    const undeclared = { name: 'x', messages: [{ role: 'user', text: '{{missing}}' }] };
+    assert.throws(() => loadPromptLibrary(promptDir({ 'x.json': undeclared })), /undeclared arguments: missing/);
+    assert.throws(() => loadPromptLibrary(promptDir({ 'x.json': { name: 'Bad Name', messages: [] } })), ConfigError);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ResourceUriError, documentUri, parseResourceUri } from "../src/resources.js";
+
+describe('documentUri', () => {
+  it('round-trips through parseResourceUri', () => {
+    assert.equal(documentUri('a/b'), 'protondocs://doc/a%2Fb');
+    assert.deepEqual(parseResourceUri(documentUri('a/b')), { kind: 'doc', id: 'a/b', format: 'markdown' });
+    assert.deepEqual(parseResourceUri(documentUri('x', 'html')), { kind: 'doc', id: 'x', format: 'html' });
+  });
+});
+
+describe('parseResourceUri', () => {
+  it('reads folder paths from the root', () => {
+    assert.deepEqual(parseResourceUri('protondocs://folder/Specs/2025'), { kind: 'folder', path: 'My files/Specs/2025' });
+    assert.deepEqual(parseResourceUri('protondocs://folder/'), { kind: 'folder', path: 'My files' });
+  });
+
+  it('reads search queries', () => {
+    assert.deepEqual(parseResourceUri('protondocs://search/road%20map'), { kind: 'search', query: 'road map' });
+  });
+
+  it('rejects other schemes, types, formats and malformed URIs', () => {
+    for (const uri of [
+      'https://doc/x',
+      'protondocs://note/x',
+      'protondocs://doc/x?format=pdf',
+      'protondocs://doc/x/y',
+      'protondocs://search/',
+      'not a uri',
+    ]) {
+      assert.throws(() => parseResourceUri(uri), ResourceUriError, uri);
+    }
+  });
+});
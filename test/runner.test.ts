@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ChangeVerificationError } from "../src/changes.js";
+import { DiffResult } from "../src/diff.js";
+import { BrowserCrashedError } from "../src/health.js";
+import { PoolSaturatedError } from "../src/pool.js";
+import { ToolPolicy, isRetryable, runTool } from "../src/runner.js";
+
+const policy = (fields: Partial<ToolPolicy> = {}): ToolPolicy => ({
+  timeout: 1000,
+  retry: { retries: 2, baseDelay: 1, maxDelay: 1 },
+  anyFailure: false,
+  replayable: false,
+  ...fields,
+});
+
+const changes: DiffResult = { diff: '+new', added: 1, removed: 0, truncated: false };
+
+// An operation failing with `errors` in turn, then succeeding.
+function failing(...errors: unknown[]) {
+  const calls = { count: 0 };
+  const operation = async () => {
+    const error = errors[calls.count++];
+    if (error !== undefined) throw error;
+    return 'done';
+  };
+  return { calls, operation };
+}
+
+const run = (operation: (signal: AbortSignal) => Promise<string>, fields: Partial<ToolPolicy> = {}, beforeLoad = new WeakSet<object>()) =>
+  runTool('test_tool', operation, policy(fields), {
+    failedBeforeLoad: (error) => beforeLoad.has(error),
+    log: () => undefined,
+  });
+
+describe('runTool', () => {
+  it('retries internal failures of tools that may retry any failure', async () => {
+    const { calls, operation } = failing(new Error('flaky'), new McpError(ErrorCode.InternalError, 'flaky'));
+    assert.equal(await run(operation, { anyFailure: true }), 'done');
+    assert.equal(calls.count, 3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { calls, operation } = failing(new Error('one'), new Error('two'), new Error('three'));
+    await assert.rejects(run(operation, { anyFailure: true }), /three/);
+    assert.equal(calls.count, 3);
+  });
+
+  it('retries a write only when it failed before loading a page', async () => {
+    const early = new Error('navigation failed');
+    const late = new Error('toolbar missing');
+    const first = failing(early);
+    assert.equal(await run(first.operation, {}, new WeakSet([early])), 'done');
+    assert.equal(first.calls.count, 2);
+
+    const second = failing(late);
+    await assert.rejects(run(second.operation, {}, new WeakSet([early])), /toolbar missing/);
+    assert.equal(second.calls.count, 1);
+  });
+
+  it('never retries errors the caller has to act on', async () => {
+    const always = () => true;
+    assert.equal(isRetryable(new McpError(ErrorCode.InvalidParams, 'bad'), true, always), false);
+    assert.equal(isRetryable(new PoolSaturatedError('busy'), true, always), false);
+    assert.equal(isRetryable(new z.ZodError([]), true, always), false);
+    assert.equal(isRetryable(new ChangeVerificationError('missing', changes), true, always), false);
+    assert.equal(isRetryable(new McpError(ErrorCode.InternalError, 'flaky'), false, always), true);
+  });
+
+  it('reports invalid arguments, a busy server and unverified changes as MCP errors', async () => {
+    const schema = z.object({ documentUrl: z.string() });
+    await assert.rejects(
+      run(async () => schema.parse({}) as never, { anyFailure: true }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+        && /documentUrl: Required/.test(error.message)
+    );
+
+    const busy = failing(new PoolSaturatedError('Server busy'));
+    await assert.rejects(
+      run(busy.operation, { anyFailure: true }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InternalError && /Server busy/.test(error.message)
+    );
+    assert.equal(busy.calls.count, 1);
+
+    const unverified = failing(new ChangeVerificationError('The new content does not appear', changes));
+    await assert.rejects(
+      run(unverified.operation, { anyFailure: true }),
+      (error: unknown) => error instanceof McpError
+        && /^MCP error -32603: test_tool could not be verified: The new content does not appear\. The change may have been partly applied/.test(error.message)
+        && (error.data as { changes: unknown }).changes === changes
+    );
+    assert.equal(unverified.calls.count, 1);
+  });
+
+  it('times out each attempt and aborts it', async () => {
+    const signals: AbortSignal[] = [];
+    const hang = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(() => undefined);
+    };
+    await assert.rejects(
+      run(hang, { timeout: 20, retry: { retries: 1, baseDelay: 1, maxDelay: 1 }, anyFailure: true }),
+      (error: unknown) => error instanceof McpError && /test_tool timed out after 20ms/.test(error.message)
+    );
+    assert.equal(signals.length, 2);
+    assert.ok(signals.every((signal) => signal.aborted));
+  });
+
+  it('replays replayable tools once after a browser crash', async () => {
+    const { calls, operation } = failing(new BrowserCrashedError('Browser tab died'));
+    assert.equal(await run(operation, { replayable: true, retry: { retries: 0, baseDelay: 1, maxDelay: 1 } }), 'done');
+    assert.equal(calls.count, 2);
+  });
+
+  it('warns that a crashed write may have been partly applied', async () => {
+    const { calls, operation } = failing(new BrowserCrashedError('Browser tab died'));
+    await assert.rejects(
+      run(operation),
+      (error: unknown) => error instanceof McpError && /Browser tab died\. The change may have been partially applied/.test(error.message)
+    );
+    assert.equal(calls.count, 1);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ContentIndex, IndexedDocument, QueryError, parseQuery, snippets, tokenize } from "../src/search.js";
+
+function indexed(id: string, text: string): IndexedDocument {
+  return {
+    id,
+    url: `https://docs.proton.me/u/1/doc/${id}`,
+    title: id,
+    folder: '',
+    stamp: '',
+    indexedAt: '2025-01-01T00:00:00.000Z',
+    text,
+  };
+}
+
+describe('tokenize', () => {
+  it('lowercases words and strips accents, keeping offsets into the text', () => {
+    assert.deepEqual(tokenize("Café don’t 42"), [
+      { term: 'cafe', start: 0, end: 4 },
+      { term: "don't", start: 5, end: 10 },
+      { term: '42', start: 11, end: 13 },
+    ]);
+  });
+});
+
+describe('parseQuery', () => {
+  it('ANDs terms by default and keeps quoted phrases together', () => {
+    assert.deepEqual(parseQuery('budget "next quarter"'), {
+      type: 'and',
+      items: [{ type: 'term', term: 'budget' }, { type: 'phrase', terms: ['next', 'quarter'] }],
+    });
+  });
+
+  it('supports OR, exclusion and grouping', () => {
+    assert.deepEqual(parseQuery('(plan OR roadmap) -draft'), {
+      type: 'and',
+      items: [
+        { type: 'or', items: [{ type: 'term', term: 'plan' }, { type: 'term', term: 'roadmap' }] },
+        { type: 'not', item: { type: 'term', term: 'draft' } },
+      ],
+    });
+  });
+
+  it('rejects unbalanced parentheses and queries with only exclusions', () => {
+    assert.throws(() => parseQuery('(plan'), QueryError);
+    assert.throws(() => parseQuery('plan)'), QueryError);
+    assert.throws(() => parseQuery('-draft'), QueryError);
+    assert.throws(() => parseQuery('   '), QueryError);
+  });
+});
+
+describe('ContentIndex', () => {
+  const index = new ContentIndex([
+    indexed('a', 'The roadmap for the next quarter. Roadmap review on Friday.'),
+    indexed('b', 'Quarter results and next steps.'),
+    indexed('c', 'Draft roadmap, not final.'),
+  ]);
+
+  it('ranks documents with more matches first', () => {
+    const { hits, total } = index.search(parseQuery('roadmap'), 10);
+    assert.equal(total, 2);
+    assert.deepEqual(hits.map((hit) => hit.id), ['a', 'c']);
+    assert.equal(hits[0].matchCount, 2);
+  });
+
+  it('matches phrases only at consecutive positions', () => {
+    assert.deepEqual(index.search(parseQuery('"next quarter"'), 10).hits.map((hit) => hit.id), ['a']);
+  });
+
+  it('applies exclusions and limits', () => {
+    assert.deepEqual(index.search(parseQuery('roadmap -draft'), 10).hits.map((hit) => hit.id), ['a']);
+    const limited = index.search(parseQuery('quarter OR roadmap'), 1);
+    assert.equal(limited.hits.length, 1);
+    assert.equal(limited.total, 3);
+  });
+});
+
+describe('snippets', () => {
+  it('marks matches and trims long text to word boundaries', () => {
+    const text = `${'word '.repeat(40)}needle ${'word '.repeat(40)}`.trim();
+    const start = text.indexOf('needle');
+    const [snippet] = snippets(text, [{ start, end: start + 6 }], 3, 20);
+    assert.match(snippet.text, /^….*\*\*needle\*\*.*…$/);
+    assert.ok(snippet.text.length < 60);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { JSDOM } from "jsdom";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/config.js";
+import { SELECTOR_SCHEMA_VERSION, SelectorContext, SelectorError, loadSelectorRegistry } from "../src/selectors.js";
+
+// A page stand-in answering queries from a jsdom document. Puppeteer-only
+// selectors such as ::-p-text are rejected, as the real page would not be.
+function page(html: string): SelectorContext {
+  const { document } = new JSDOM(`<!DOCTYPE html><body>${html}</body>`).window;
+  return {
+    $: async (selector: string) => document.querySelector(selector),
+    waitForSelector: async (selector: string) => {
+      const element = document.querySelector(selector);
+      if (!element) throw new Error(`Waiting for selector \`${selector}\` failed`);
+      return element;
+    },
+  } as unknown as SelectorContext;
+}
+
+function overrides(content: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'proton-docs-selectors-')), 'selectors.json');
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+  return path;
+}
+
+describe('SelectorRegistry', () => {
+  const registry = loadSelectorRegistry();
+
+  it('fills and escapes variables in candidates', () => {
+    assert.deepEqual(registry.candidates('fontFamilyOption', { value: 'Say "hi"' }), ['button::-p-text("Say \\"hi\\"")']);
+    assert.equal(registry.css('mainEditor'), '[data-testid="main-editor"], [contenteditable="true"]');
+  });
+
+  it('falls back to later candidates', async () => {
+    const handle = await registry.find(page('<div contenteditable="true" id="plain"></div>'), 'mainEditor');
+    assert.equal((handle as unknown as Element).id, 'plain');
+    const waited = await registry.waitFor(page('<div contenteditable="true" id="plain"></div>'), 'mainEditor');
+    assert.equal((waited as unknown as Element).id, 'plain');
+    assert.equal(await registry.find(page('<p></p>'), 'mainEditor'), null);
+  });
+
+  it('names the element and every candidate when none appears', async () => {
+    await assert.rejects(
+      registry.waitFor(page('<p></p>'), 'mainEditor'),
+      (error: unknown) => error instanceof SelectorError
+        && error.message === 'No selector for "mainEditor" matched (tried: [data-testid="main-editor"] | [contenteditable="true"])'
+    );
+  });
+
+  it('reports which elements resolve in each scope', async () => {
+    const results = await registry.check({
+      page: page('<table><tbody><tr></tr></tbody></table><iframe src="/editor/1"></iframe>'),
+      editor: null,
+      login: null,
+    });
+    const status = (key: string) => results.find((result) => result.key === key);
+    assert.deepEqual(
+      { status: status('editorFrame')!.status, selector: status('editorFrame')!.selector },
+      { status: 'resolved', selector: 'iframe[src*="editor"]' }
+    );
+    assert.equal(status('documentRows')!.status, 'resolved');
+    assert.equal(status('searchInput')!.status, 'missing');
+    assert.equal(status('shareEditOption')!.status, 'missing');
+    assert.equal(status('fontFamilyOption')!.status, 'skipped');
+    assert.equal(status('mainEditor')!.status, 'skipped');
+    assert.equal(status('loginUsername')!.status, 'skipped');
+  });
+});
+
+describe('loadSelectorRegistry', () => {
+  it('replaces the candidates of overridden elements', () => {
+    const registry = loadSelectorRegistry(overrides({
+      version: SELECTOR_SCHEMA_VERSION,
+      revision: '2026-10',
+      selectors: { mainEditor: '.ProseMirror', documentRows: ['[role="row"]', 'tbody tr'] },
+    }));
+    assert.equal(registry.revision, '2026-10');
+    assert.deepEqual(registry.candidates('mainEditor'), ['.ProseMirror']);
+    assert.deepEqual(registry.candidates('documentRows'), ['[role="row"]', 'tbody tr']);
+    assert.deepEqual(registry.candidates('documentTable'), ['table']);
+    assert.equal(loadSelectorRegistry(overrides({ selectors: {} })).revision, '2025-07+overrides');
+  });
+
+  it('rejects override files it cannot apply', () => {
+    assert.throws(() => loadSelectorRegistry(overrides('{ not json')), ConfigError);
+    assert.throws(() => loadSelectorRegistry(overrides({ selectors: { noSuchElement: 'div' } })), /unknown element "noSuchElement"/);
+    assert.throws(() => loadSelectorRegistry(overrides({ version: SELECTOR_SCHEMA_VERSION + 1, selectors: {} })), /schema version/);
+    assert.throws(() => loadSelectorRegistry(overrides({ selectors: { mainEditor: [] } })), ConfigError);
+  });
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SharingState, findMember, parseRole } from "../src/sharing.js";
+
+describe('parseRole', () => {
+  it('reads the role from the label of the role button', () => {
+    assert.equal(parseRole('Owner'), 'owner');
+    assert.equal(parseRole(' Can edit '), 'editor');
+    assert.equal(parseRole('Viewer'), 'viewer');
+    assert.equal(parseRole('Can comment'), null);
+  });
+});
+
+describe('findMember', () => {
+  const state: SharingState = {
+    members: [{ email: 'Ada@Example.com', name: 'Ada', role: 'editor', pending: true }],
+    publicLink: { enabled: false, url: null, expiresAt: null, passwordProtected: false },
+  };
+
+  it('matches addresses without regard to case or surrounding spaces', () => {
+    assert.equal(findMember(state, ' ada@example.com')?.role, 'editor');
+    assert.equal(findMember(state, 'bob@example.com'), undefined);
+  });
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { SyncEntry, contentHash, listMarkdownFiles, planFile } from "../src/sync.js";
+
+const entry: SyncEntry = {
+  url: 'https://docs.proton.me/doc?linkId=a',
+  title: 'Guide',
+  localHash: 'local',
+  remoteHash: 'remote',
+  syncedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('contentHash', () => {
+  it('ignores line endings, trailing whitespace and a byte order mark', () => {
+    assert.equal(contentHash('\ufeff# Title  \r\n\r\nText\n\n'), contentHash('# Title\n\nText'));
+    assert.notEqual(contentHash('# Title'), contentHash('# Title!'));
+  });
+});
+
+describe('listMarkdownFiles', () => {
+  it('lists Markdown files outside hidden directories and node_modules', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'proton-docs-sync-'));
+    for (const dir of ['docs', '.git', 'node_modules']) mkdirSync(join(directory, dir));
+    for (const file of ['README.md', 'docs/guide.markdown', 'docs/notes.txt', '.git/x.md', 'node_modules/y.md']) {
+      writeFileSync(join(directory, file), '');
+    }
+    assert.deepEqual(listMarkdownFiles(directory), ['README.md', 'docs/guide.markdown']);
+  });
+});
+
+describe('planFile', () => {
+  it('creates documents for new files', () => {
+    assert.equal(planFile('new.md', undefined, 'x', null, 'skip').action, 'create');
+  });
+
+  it('pushes, pulls or leaves files depending on which side changed', () => {
+    assert.equal(planFile('g.md', entry, 'changed', 'remote', 'skip').action, 'push');
+    assert.equal(planFile('g.md', entry, 'local', 'changed', 'skip').action, 'pull');
+    assert.equal(planFile('g.md', entry, 'local', 'remote', 'skip').action, 'unchanged');
+    assert.equal(planFile('g.md', entry, null, 'remote', 'skip').action, 'untrack');
+  });
+
+  it('resolves conflicts with the given strategy', () => {
+    const plan = (strategy: 'skip' | 'local' | 'remote') => planFile('g.md', entry, 'changed', 'changed', strategy);
+    assert.deepEqual([plan('skip').action, plan('local').action, plan('remote').action], ['skip', 'push', 'pull']);
+    assert.equal(plan('skip').conflict, true);
+    assert.equal(planFile('g.md', entry, null, 'changed', 'local').action, 'untrack');
+  });
+});
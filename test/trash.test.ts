@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TrashedDocument, matchTrashed, toTrashedDocument, trashToken } from "../src/trash.js";
+
+const item = (id: string, title: string): TrashedDocument => ({
+  id,
+  title,
+  url: id ? `https://docs.proton.me/doc?linkId=${id}` : '',
+  owner: 'me',
+  folder: 'My files',
+  deletedAt: '2025-03-12T09:30:00.000Z',
+});
+
+describe('toTrashedDocument', () => {
+  it('parses a trash listing row', () => {
+    const trashed = toTrashedDocument({
+      title: 'Plan',
+      url: '',
+      viewed: '',
+      modified: '',
+      createdBy: ' me ',
+      location: 'My files / Specs',
+      size: '',
+      shared: false,
+      deleted: '2025-03-12T09:30:00.000Z',
+    });
+    assert.deepEqual(trashed, {
+      id: '',
+      title: 'Plan',
+      url: '',
+      owner: 'me',
+      folder: 'My files/Specs',
+      deletedAt: '2025-03-12T09:30:00.000Z',
+    });
+  });
+});
+
+describe('matchTrashed', () => {
+  const items = [item('a', 'Plan'), item('b', 'plan'), item('c', 'Notes')];
+
+  it('matches a URL by document id', () => {
+    assert.deepEqual(matchTrashed(items, { documentUrl: 'https://docs.proton.me/doc?linkId=c' }), [items[2]]);
+  });
+
+  it('prefers exact titles over case-insensitive ones', () => {
+    assert.deepEqual(matchTrashed(items, { title: 'plan' }), [items[1]]);
+    assert.deepEqual(matchTrashed(items, { title: 'PLAN' }), [items[0], items[1]]);
+  });
+
+  it('never falls back to the title when matching a URL', () => {
+    assert.deepEqual(matchTrashed(items, { documentUrl: 'https://docs.proton.me/doc?linkId=z', title: 'Notes' }), []);
+    assert.deepEqual(matchTrashed([...items, item('', 'Notes')], { documentUrl: 'https://docs.proton.me/doc?linkId=z' }), []);
+  });
+});
+
+describe('trashToken', () => {
+  it('depends on the contents, not their order', () => {
+    const items = [item('a', 'Plan'), item('b', 'Notes')];
+    assert.equal(trashToken(items), trashToken([...items].reverse()));
+    assert.notEqual(trashToken(items), trashToken(items.slice(1)));
+  });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { describe, it } from "node:test";
+import { LoginError, SessionStore } from "../src/auth.js";
+import { DecryptionError, EncryptedFile } from "../src/vault.js";
+
+const tempPath = (name: string) => join(mkdtempSync(join(tmpdir(), 'proton-docs-vault-')), name);
+
+describe('EncryptedFile', () => {
+  it('round-trips a value without storing it in the clear', () => {
+    const path = tempPath('data.enc');
+    const file = new EncryptedFile<{ secret: string }>(path, 'passphrase');
+    assert.equal(file.load(), null);
+
+    file.save({ secret: 'hunter2' });
+    assert.deepEqual(file.load(), { secret: 'hunter2' });
+    assert.doesNotMatch(readFileSync(path, 'utf8'), /hunter2/);
+  });
+
+  it('uses a fresh salt and IV for every save', () => {
+    const path = tempPath('data.enc');
+    const file = new EncryptedFile<number>(path, 'passphrase');
+    file.save(1);
+    const first = JSON.parse(readFileSync(path, 'utf8'));
+    file.save(1);
+    const second = JSON.parse(readFileSync(path, 'utf8'));
+    assert.notEqual(first.salt, second.salt);
+    assert.notEqual(first.iv, second.iv);
+  });
+
+  it('fails with DecryptionError under the wrong passphrase', () => {
+    const path = tempPath('data.enc');
+    new EncryptedFile(path, 'right').save({ a: 1 });
+    assert.throws(() => new EncryptedFile(path, 'wrong').load(), DecryptionError);
+  });
+});
+
+describe('SessionStore', () => {
+  const state = { cookies: [], localStorage: { 'https://docs.proton.me': { key: 'value' } }, savedAt: '2025-01-01T00:00:00.000Z' };
+
+  it('stores sessions in the EncryptedFile format', () => {
+    const path = tempPath('session.enc');
+    new SessionStore(path, 'key').save(state);
+    assert.deepEqual(new EncryptedFile(path, 'key').load(), state);
+  });
+
+  it('reports a changed session key as a LoginError', () => {
+    const path = tempPath('session.enc');
+    new SessionStore(path, 'old key').save(state);
+    assert.throws(() => new SessionStore(path, 'new key').load(), LoginError);
+  });
+});
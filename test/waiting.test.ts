@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { TimeoutError, backoffDelay, retry, sleep, withTimeout } from "../src/waiting.js";
+
+const policy = { retries: 3, baseDelay: 1, maxDelay: 4 };
+
+describe('backoffDelay', () => {
+  it('doubles the delay up to the maximum, plus at most 20% jitter', () => {
+    const bounds = { retries: 5, baseDelay: 100, maxDelay: 300 };
+    for (const [attempt, base] of [[0, 100], [1, 200], [2, 300], [5, 300]]) {
+      const delay = backoffDelay(attempt, bounds);
+      assert.ok(delay >= base && delay <= base * 1.2, `attempt ${attempt}: ${delay}`);
+    }
+  });
+});
+
+describe('retry', () => {
+  it('retries until the operation succeeds', async () => {
+    const attempts: number[] = [];
+    const result = await retry(async (attempt) => {
+      attempts.push(attempt);
+      if (attempt < 2) throw new Error('flaky');
+      return 'done';
+    }, policy);
+    assert.equal(result, 'done');
+    assert.deepEqual(attempts, [0, 1, 2]);
+  });
+
+  it('gives up after the configured retries with the last error', async () => {
+    let calls = 0;
+    await assert.rejects(retry(async () => { throw new Error(`failure ${++calls}`); }, policy), /failure 4/);
+  });
+
+  it('does not retry errors the predicate rejects', async () => {
+    let calls = 0;
+    await assert.rejects(
+      retry(async () => { calls++; throw new TypeError('bad input'); }, policy, {
+        shouldRetry: (error) => !(error instanceof TypeError),
+      }),
+      TypeError
+    );
+    assert.equal(calls, 1);
+  });
+});
+
+describe('withTimeout', () => {
+  it('passes through results that arrive in time', async () => {
+    assert.equal(await withTimeout(Promise.resolve(1), 50, 'too slow'), 1);
+  });
+
+  it('rejects with a TimeoutError once the time is up', async () => {
+    await assert.rejects(withTimeout(sleep(200), 10, 'too slow'), (error: unknown) =>
+      error instanceof TimeoutError && error.message === 'too slow'
+    );
+  });
+});